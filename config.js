@@ -0,0 +1,269 @@
+export function cfg() {
+  return {
+    BOT_TOKEN: process.env.BOT_TOKEN,
+    // Invite deep links: t.me/<BOT_USERNAME>[/<MINI_APP_SHORT_NAME>]?startapp=...
+    // (asked from Telegram when unset; no short name opens the main Mini App)
+    BOT_USERNAME: (process.env.BOT_USERNAME || '').replace(/^@/, ''),
+    MINI_APP_SHORT_NAME: process.env.MINI_APP_SHORT_NAME || '',
+    INVITE_TTL_DAYS: Number(process.env.INVITE_TTL_DAYS || 30), // 0 = never expire
+
+    // Telegram Bot API (override the URL to point at a local stub)
+    TELEGRAM_API_URL: (
+      process.env.TELEGRAM_API_URL || 'https://api.telegram.org'
+    ).replace(/\/+$/, ''),
+    TELEGRAM_WEBHOOK_SECRET: process.env.TELEGRAM_WEBHOOK_SECRET,
+    TELEGRAM_TIMEOUT_MS: Number(process.env.TELEGRAM_TIMEOUT_MS || 10000),
+    BOT_NOTIFICATIONS: process.env.BOT_NOTIFICATIONS !== '0',
+
+    // Comma-separated Telegram user IDs of league admins
+    ADMIN_TELEGRAM_IDS: String(process.env.ADMIN_TELEGRAM_IDS || '')
+      .split(',')
+      .map(s => Number(s.trim()))
+      .filter(n => Number.isFinite(n) && n > 0),
+
+    // 'airtable' (default) or 'sqlite' for local development and tests
+    STORAGE_BACKEND: (process.env.STORAGE_BACKEND || 'airtable').toLowerCase(),
+    SQLITE_PATH: process.env.SQLITE_PATH || 'data/league.sqlite',
+
+    AIRTABLE_TOKEN: process.env.AIRTABLE_TOKEN,
+    AIRTABLE_BASE_ID: process.env.AIRTABLE_BASE_ID,
+
+    T_PLAYERS: process.env.AIRTABLE_PLAYERS_TABLE || 'Players',
+    T_PAIRS: process.env.AIRTABLE_PAIRS_TABLE || 'Pairs',
+    T_MATCHES: process.env.AIRTABLE_MATCHES_TABLE || 'Matches',
+    T_SETSCORES: process.env.AIRTABLE_SETSCORES_TABLE || 'SetScores',
+    T_RATING_HISTORY:
+      process.env.AIRTABLE_RATING_HISTORY_TABLE || 'RatingHistory',
+    T_SEASONS: process.env.AIRTABLE_SEASONS_TABLE || 'Seasons',
+    T_STANDINGS: process.env.AIRTABLE_STANDINGS_TABLE || 'Standings',
+    T_TOURNAMENTS: process.env.AIRTABLE_TOURNAMENTS_TABLE || 'Tournaments',
+    T_SESSIONS: process.env.AIRTABLE_SESSIONS_TABLE || 'Sessions',
+    T_SESSION_GAMES: process.env.AIRTABLE_SESSION_GAMES_TABLE || 'SessionGames',
+
+    // Players
+    P_NAME: 'Name',
+    P_TG_ID: 'Telegram ID',
+    P_TG_USERNAME: 'Telegram Username',
+    P_INDIV_RATING: 'Individual Rating',
+    P_GP: 'Games Played',
+    P_W: 'Wins',
+    P_L: 'Losses',
+    P_RD: 'Rating Deviation',
+    P_VOL: 'Volatility',
+    P_FRIENDLY_W: 'Friendly Wins', // unranked matches, kept apart from W/L
+    P_FRIENDLY_L: 'Friendly Losses',
+    P_INVITED_BY: 'Invited By', // link to the player whose invite they joined with
+    P_INVITE_USED_AT: 'Invite Used At',
+
+    // Pairs
+    PR_PLAYER1: 'Player 1',
+    PR_PLAYER2: 'Player 2',
+    PR_RATING: 'Pair Rating',
+    PR_GP: 'Games Played',
+    PR_W: 'Wins',
+    PR_L: 'Losses',
+    PR_RD: 'Rating Deviation',
+    PR_VOL: 'Volatility',
+    PR_FRIENDLY_W: 'Friendly Wins',
+    PR_FRIENDLY_L: 'Friendly Losses',
+
+    // Matches
+    M_DATE: 'Date',
+    M_TIME: 'Time',
+    M_STATUS: 'Status',
+    M_PAIR1: 'Pair 1',
+    M_PAIR2: 'Pair 2',
+    M_INITIATED_BY: 'Initiated By',
+    M_CONFIRMED_BY: 'Confirmed By',
+    M_SCORE: 'Score',
+    M_DISPUTE_REASON: 'Dispute Reason',
+    M_RESOLUTION: 'Resolution', // admin decision: UPHELD | CORRECTED | VOIDED
+    M_RESOLVED_BY: 'Resolved By',
+    M_RESOLVED_AT: 'Resolved At',
+    M_ADMIN_NOTE: 'Admin Note',
+    M_REPORTED_AT: 'Reported At',
+    M_AUTO_CONFIRMED: 'Auto Confirmed',
+    M_COURT: 'Court',
+    M_PROPOSED_BY: 'Proposed By', // player who made the latest challenge / counter-proposal
+    M_SEASON: 'Season',
+    M_UNRANKED: 'Unranked', // checkbox: friendly match, confirmed without touching ratings
+    M_TOURNAMENT: 'Tournament',
+    M_STAGE: 'Stage', // GROUP | KNOCKOUT
+    M_GROUP: 'Group', // 'A', 'B', ...
+    M_ROUND: 'Round',
+    M_SLOT: 'Slot', // knockout position within the round
+    M_FORMAT: 'Format', // match format id, see shared/match-formats.js
+    M_RATINGS_STATE: 'Ratings State', // PENDING | APPLIED | CONFLICT, empty before confirmation
+    M_RATINGS_PLAN: 'Ratings Plan', // JSON rating plan while PENDING, see ratings.js
+    M_REPORT_KEY: 'Report Key', // client idempotency key of the report that created the result
+
+    // SetScores
+    S_MATCH: 'Match',
+    S_SET_NO: 'Set N°',
+    S_P1: 'Pair 1 Score',
+    S_P2: 'Pair 2 Score',
+    S_WINNER_PAIR: 'Winner Pair',
+
+    // RatingHistory (one entry per player/pair per confirmed match)
+    RH_MATCH: 'Match',
+    RH_ENTITY_TYPE: 'Entity Type', // 'player' | 'pair'
+    RH_ENTITY_ID: 'Entity ID',
+    RH_DATE: 'Date',
+    RH_OLD_RATING: 'Old Rating',
+    RH_NEW_RATING: 'New Rating',
+    RH_DELTA: 'Delta',
+    RH_K: 'K',
+    RH_OLD_RD: 'Old Deviation',
+    RH_NEW_RD: 'New Deviation',
+    RH_OLD_VOL: 'Old Volatility',
+    RH_NEW_VOL: 'New Volatility',
+    RH_SEASON: 'Season', // set on soft-reset entries written when a season closes
+    RH_SESSION: 'Session', // set on entries written when a rated session finishes
+    RH_SEQ: 'Seq', // write order: entries written together share it, later ones are higher
+
+    // Seasons
+    SE_NAME: 'Name',
+    SE_START: 'Start Date',
+    SE_END: 'End Date',
+    SE_STATUS: 'Status', // ACTIVE | CLOSED
+    SE_CLOSED_AT: 'Closed At',
+    SE_SOFT_RESET: 'Soft Reset', // 0..1, share of (rating - DEFAULT_RATING) removed at close
+
+    // Tournaments
+    TO_NAME: 'Name',
+    TO_DATE: 'Date',
+    TO_FORMAT: 'Format', // ROUND_ROBIN | KNOCKOUT | GROUPS_KNOCKOUT
+    TO_STATUS: 'Status', // REGISTRATION | IN_PROGRESS | FINISHED
+    TO_PAIRS: 'Pairs',
+    TO_GROUPS: 'Groups',
+    TO_ADVANCE: 'Advance Per Group',
+    TO_RANKED: 'Ranked',
+    TO_SEEDS: 'Bracket Seeds', // JSON: first-round pair ids in bracket order, null = bye
+    TO_WINNER: 'Winner',
+
+    // Sessions (Americano / Mexicano club nights with rotating partners)
+    SN_NAME: 'Name',
+    SN_DATE: 'Date',
+    SN_MODE: 'Mode', // AMERICANO | MEXICANO
+    SN_STATUS: 'Status', // ACTIVE | FINISHED
+    SN_PLAYERS: 'Players',
+    SN_ROUNDS: 'Rounds',
+    SN_POINTS: 'Points Per Game', // e.g. 24: both teams' points add up to this
+    SN_RATED: 'Rated',
+    SN_CREATED_BY: 'Created By',
+    SN_FINISHED_AT: 'Finished At',
+    SN_RATINGS_STATE: 'Ratings State', // as M_RATINGS_STATE, for a rated session once finished
+    SN_RATINGS_PLAN: 'Ratings Plan', // JSON rating plan while PENDING, see ratings.js
+
+    // SessionGames (one per court per round)
+    SG_SESSION: 'Session',
+    SG_ROUND: 'Round',
+    SG_COURT: 'Court',
+    SG_TEAM1: 'Team 1',
+    SG_TEAM2: 'Team 2',
+    SG_POINTS1: 'Team 1 Points',
+    SG_POINTS2: 'Team 2 Points',
+
+    // Standings (final table of a closed season, one row per player/pair)
+    ST_SEASON: 'Season',
+    ST_ENTITY_TYPE: 'Entity Type', // 'player' | 'pair'
+    ST_ENTITY_ID: 'Entity ID',
+    ST_NAME: 'Name',
+    ST_RANK: 'Rank',
+    ST_RATING: 'Rating',
+    ST_GP: 'Games Played',
+    ST_W: 'Wins',
+    ST_L: 'Losses',
+
+    // Before the match is played: PROPOSED -> SCHEDULED (or DECLINED)
+    STATUS_PROPOSED: 'PROPOSED',
+    STATUS_SCHEDULED: 'SCHEDULED',
+    STATUS_DECLINED: 'DECLINED',
+
+    STATUS_PENDING: 'PENDING_CONFIRMATION',
+    STATUS_CONFIRMED: 'CONFIRMED',
+    STATUS_DISPUTED: 'DISPUTED',
+    STATUS_REJECTED: 'REJECTED',
+    STATUS_VOIDED: 'VOIDED',
+
+    FORMAT_ROUND_ROBIN: 'ROUND_ROBIN',
+    FORMAT_KNOCKOUT: 'KNOCKOUT',
+    FORMAT_GROUPS_KNOCKOUT: 'GROUPS_KNOCKOUT',
+
+    TOURNAMENT_REGISTRATION: 'REGISTRATION',
+    TOURNAMENT_IN_PROGRESS: 'IN_PROGRESS',
+    TOURNAMENT_FINISHED: 'FINISHED',
+
+    MODE_AMERICANO: 'AMERICANO',
+    MODE_MEXICANO: 'MEXICANO',
+
+    SESSION_ACTIVE: 'ACTIVE',
+    SESSION_FINISHED: 'FINISHED',
+
+    SEASON_ACTIVE: 'ACTIVE',
+    SEASON_CLOSED: 'CLOSED',
+
+    RESOLUTION_UPHELD: 'UPHELD',
+    RESOLUTION_CORRECTED: 'CORRECTED',
+    RESOLUTION_VOIDED: 'VOIDED',
+
+    RATINGS_PENDING: 'PENDING',
+    RATINGS_APPLIED: 'APPLIED',
+    RATINGS_CONFLICT: 'CONFLICT',
+
+    // 'elo' (fixed K) or 'glicko2' (per-entity deviation and volatility)
+    RATING_ENGINE: (process.env.RATING_ENGINE || 'elo').toLowerCase(),
+    DEFAULT_RATING: Number(process.env.DEFAULT_RATING || 1000),
+    ELO_K_PAIR: Number(process.env.ELO_K_PAIR || 32),
+    ELO_K_PLAYER: Number(process.env.ELO_K_PLAYER || 32),
+    DEFAULT_RD: Number(process.env.DEFAULT_RD || 350),
+    DEFAULT_VOLATILITY: Number(process.env.DEFAULT_VOLATILITY || 0.06),
+    GLICKO_TAU: Number(process.env.GLICKO_TAU || 0.5),
+    // Glicko-2 ratings with a deviation above this are shown as provisional
+    PROVISIONAL_RD: Number(process.env.PROVISIONAL_RD || 110),
+    // Fewest matches together before a partner can be a player's best partnership
+    BEST_PARTNER_MIN_MATCHES: Number(process.env.BEST_PARTNER_MIN_MATCHES || 3),
+
+    // Margin of victory: match rating changes are scaled by
+    // MOV_BASE + MOV_SET_WEIGHT * set difference + MOV_GAME_WEIGHT * game difference,
+    // clamped to MOV_MIN..MOV_MAX (6-3 6-4 is about 1, 6-0 6-0 about 1.3).
+    MARGIN_OF_VICTORY: process.env.MARGIN_OF_VICTORY === '1',
+    MOV_BASE: Number(process.env.MOV_BASE || 0.3),
+    MOV_SET_WEIGHT: Number(process.env.MOV_SET_WEIGHT || 0.25),
+    MOV_GAME_WEIGHT: Number(process.env.MOV_GAME_WEIGHT || 0.04),
+    MOV_MIN: Number(process.env.MOV_MIN || 0.5),
+    MOV_MAX: Number(process.env.MOV_MAX || 1.5),
+
+    // Pending matches are confirmed automatically after this many hours (0 = off)
+    AUTO_CONFIRM_HOURS: Number(process.env.AUTO_CONFIRM_HOURS || 0),
+    AUTO_CONFIRM_INTERVAL_MS: Number(
+      process.env.AUTO_CONFIRM_INTERVAL_MS || 10 * 60 * 1000
+    ),
+    // Background check for confirmed matches whose rating update was interrupted
+    RATINGS_RECOVERY_INTERVAL_MS: Number(
+      process.env.RATINGS_RECOVERY_INTERVAL_MS || 60 * 1000
+    ),
+
+    AIRTABLE_TIMEOUT_MS: Number(process.env.AIRTABLE_TIMEOUT_MS || 12000),
+    // Shared request queue: starts per second, retries of 429/5xx with
+    // exponential backoff from AIRTABLE_RETRY_BASE_MS, and the queue depth
+    // at which (and every multiple of which) a warning is logged
+    AIRTABLE_RATE_PER_SEC: Number(process.env.AIRTABLE_RATE_PER_SEC || 5),
+    AIRTABLE_MAX_RETRIES: Number(process.env.AIRTABLE_MAX_RETRIES || 5),
+    AIRTABLE_RETRY_BASE_MS: Number(process.env.AIRTABLE_RETRY_BASE_MS || 1000),
+    AIRTABLE_QUEUE_LOG_DEPTH: Number(
+      process.env.AIRTABLE_QUEUE_LOG_DEPTH || 10
+    ),
+
+    // In-memory read model of players, pairs, matches and set scores (server only).
+    // Reloaded every READ_CACHE_RESYNC_MS (0 = only on demand) to pick up
+    // edits made directly in Airtable.
+    READ_CACHE: process.env.READ_CACHE !== '0',
+    READ_CACHE_RESYNC_MS: Number(
+      process.env.READ_CACHE_RESYNC_MS || 5 * 60 * 1000
+    ),
+
+    // Log API responses that drift from shared/api.js (development aid)
+    API_CHECK_RESPONSES: process.env.API_CHECK_RESPONSES === '1',
+  };
+}
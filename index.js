@@ -2,6 +2,80 @@ import express from 'express';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { isValid, parse } from '@tma.js/init-data-node';
+import { cfg } from './config.js';
+import {
+  normalizePlayer,
+  normalizePair,
+  normalizeMatch,
+  normalizeSetScore,
+  normalizeRatingChange,
+} from './normalize.js';
+import {
+  applyFriendlyResult,
+  applyRatingsPlan,
+  ledgerOrder,
+  planMatchRatings,
+  recomputeAllRatings,
+  rollbackMatchRatings,
+  seasonRanker,
+  withSettledRatings,
+} from './ratings.js';
+import {
+  activeSeason,
+  closeSeason,
+  createSeason,
+  listSeasons,
+  seasonStandings,
+} from './seasons.js';
+import {
+  createTournament,
+  listTournaments,
+  registerPairs,
+  startTournament,
+  syncTournament,
+  tournamentView,
+} from './tournaments.js';
+import {
+  createSession,
+  finishSession,
+  listSessions,
+  scoreSessionGame,
+  sessionView,
+} from './sessions.js';
+import { pairProfile, playerProfile } from './stats.js';
+import { createInvite, readInvite } from './invites.js';
+import {
+  answerCallbackQuery,
+  editMessageText,
+  escapeHtml,
+  sendMessage,
+} from './telegram.js';
+import {
+  CB_CONFIRM,
+  CB_DISPUTE,
+  notifyMatchReported,
+  notifyChallenge,
+  notifyInitiator,
+} from './notifications.js';
+import {
+  storageMissingEnv,
+  listAll,
+  listLinked,
+  getRecord,
+  createRecords,
+  updateRecords,
+  deleteRecords,
+  enableReadCache,
+  readModelStatus,
+  resyncReadModel,
+} from './storage/index.js';
+import {
+  formatScoreText,
+  matchFormat,
+  validateMatchScore,
+} from './shared/match-formats.js';
+import { API } from './shared/api.js';
+import { describeErrors, validate } from './shared/schema.js';
 
 const app = express();
 app.use(express.json());
@@ -9,79 +83,50 @@ app.use(express.json());
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-const AIRTABLE_API = 'https://api.airtable.com/v0';
-
-function cfg() {
-  return {
-    BOT_TOKEN: process.env.BOT_TOKEN,
-
-    AIRTABLE_TOKEN: process.env.AIRTABLE_TOKEN,
-    AIRTABLE_BASE_ID: process.env.AIRTABLE_BASE_ID,
-
-    T_PLAYERS: process.env.AIRTABLE_PLAYERS_TABLE || 'Players',
-    T_PAIRS: process.env.AIRTABLE_PAIRS_TABLE || 'Pairs',
-    T_MATCHES: process.env.AIRTABLE_MATCHES_TABLE || 'Matches',
-    T_SETSCORES: process.env.AIRTABLE_SETSCORES_TABLE || 'SetScores',
-
-    // Players
-    P_NAME: 'Name',
-    P_TG_ID: 'Telegram ID',
-    P_TG_USERNAME: 'Telegram Username',
-    P_INDIV_RATING: 'Individual Rating',
-    P_GP: 'Games Played',
-    P_W: 'Wins',
-    P_L: 'Losses',
-
-    // Pairs
-    PR_PLAYER1: 'Player 1',
-    PR_PLAYER2: 'Player 2',
-    PR_RATING: 'Pair Rating',
-    PR_GP: 'Games Played',
-    PR_W: 'Wins',
-    PR_L: 'Losses',
-
-    // Matches
-    M_DATE: 'Date',
-    M_TIME: 'Time',
-    M_STATUS: 'Status',
-    M_PAIR1: 'Pair 1',
-    M_PAIR2: 'Pair 2',
-    M_INITIATED_BY: 'Initiated By',
-    M_CONFIRMED_BY: 'Confirmed By',
-    M_SCORE: 'Score',
-    M_DISPUTE_REASON: 'Dispute Reason',
-
-    // SetScores
-    S_MATCH: 'Match',
-    S_SET_NO: 'Set N°',
-    S_P1: 'Pair 1 Score',
-    S_P2: 'Pair 2 Score',
-    S_WINNER_PAIR: 'Winner Pair',
-
-    STATUS_PENDING: 'PENDING_CONFIRMATION',
-    STATUS_CONFIRMED: 'CONFIRMED',
-    STATUS_DISPUTED: 'DISPUTED',
-    STATUS_REJECTED: 'REJECTED',
-
-    DEFAULT_RATING: Number(process.env.DEFAULT_RATING || 1000),
-    ELO_K_PAIR: Number(process.env.ELO_K_PAIR || 32),
-    ELO_K_PLAYER: Number(process.env.ELO_K_PLAYER || 32),
-
-    AIRTABLE_TIMEOUT_MS: Number(process.env.AIRTABLE_TIMEOUT_MS || 12000),
-  };
-}
-
 app.use((req, _res, next) => {
   console.log(`[${new Date().toISOString()}] ${req.method} ${req.path}`);
   next();
 });
 
+/**
+ * Checks request bodies against the shared API contract (shared/api.js)
+ * before any route runs: 400 with `details.fields` listing every bad field.
+ * With API_CHECK_RESPONSES successful responses are checked as well and any
+ * drift from the contract is logged.
+ */
+app.use('/api', (req, res, next) => {
+  const route = API[req.baseUrl + req.path];
+  if (!route || req.method !== 'POST') return next();
+
+  const { errors } = validate(route.request, req.body || {});
+  if (errors.length)
+    return res.status(400).json({
+      ok: false,
+      error: `Invalid request: ${describeErrors(errors)}`,
+      details: { fields: errors },
+    });
+
+  if (cfg().API_CHECK_RESPONSES) {
+    const send = res.json.bind(res);
+    res.json = out => {
+      if (out?.ok) {
+        const problems = validate(route.response, out).errors;
+        if (problems.length)
+          console.warn(
+            `${req.path} response does not match the contract: ${describeErrors(problems)}`
+          );
+      }
+      return send(out);
+    };
+  }
+  next();
+});
+
 function requireEnv(res) {
   const c = cfg();
   const missing = [];
   if (!c.BOT_TOKEN) missing.push('BOT_TOKEN');
-  if (!c.AIRTABLE_TOKEN) missing.push('AIRTABLE_TOKEN');
-  if (!c.AIRTABLE_BASE_ID) missing.push('AIRTABLE_BASE_ID');
+  missing.push(...storageMissingEnv());
   if (missing.length) {
     res
       .status(500)
@@ -91,238 +136,6 @@ function requireEnv(res) {
   return true;
 }
 
-function airtableHeaders() {
-  const c = cfg();
-  return {
-    Authorization: `Bearer ${c.AIRTABLE_TOKEN}`,
-    'Content-Type': 'application/json',
-  };
-}
-
-function tableUrl(tableNameOrId) {
-  const c = cfg();
-  return `${AIRTABLE_API}/${encodeURIComponent(
-    c.AIRTABLE_BASE_ID
-  )}/${encodeURIComponent(tableNameOrId)}`;
-}
-
-async function airtableRequest(method, url, body) {
-  const c = cfg();
-  const controller = new AbortController();
-  const t = setTimeout(() => controller.abort(), c.AIRTABLE_TIMEOUT_MS);
-
-  try {
-    const res = await fetch(url, {
-      method,
-      headers: airtableHeaders(),
-      body: body ? JSON.stringify(body) : undefined,
-      signal: controller.signal,
-    });
-
-    const text = await res.text();
-    let json;
-    try {
-      json = text ? JSON.parse(text) : {};
-    } catch {
-      json = { raw: text };
-    }
-
-    if (!res.ok) {
-      const err = new Error(
-        json?.error?.message || json?.message || `Airtable error: ${res.status}`
-      );
-      err.status = 502;
-      err.details = json;
-      throw err;
-    }
-    return json;
-  } catch (e) {
-    if (e?.name === 'AbortError') {
-      const err = new Error(
-        `Airtable request timed out after ${c.AIRTABLE_TIMEOUT_MS}ms`
-      );
-      err.status = 504;
-      throw err;
-    }
-    throw e;
-  } finally {
-    clearTimeout(t);
-  }
-}
-
-/**
- * ---- Airtable schema cache (Metadata API) ----
- * Uses field IDs for writes to avoid name mismatch.
- */
-let schemaCachePromise = null;
-
-function norm(s) {
-  return String(s || '')
-    .trim()
-    .toLowerCase()
-    .replace(/\s+/g, ' ')
-    .replace(/[º°]/g, '°')
-    .replace(/№/g, 'n')
-    .replace(/[^\p{L}\p{N} °]/gu, '');
-}
-
-function fieldAliasesFor(tableKey, fieldName) {
-  const c = cfg();
-  if (tableKey === c.T_SETSCORES && fieldName === c.S_SET_NO) {
-    return [
-      'Set Nº',
-      'Set No',
-      'Set №',
-      'Set N',
-      'Set',
-      'Set #',
-      'Set Num',
-      'Set Number',
-    ];
-  }
-  return [];
-}
-
-async function getBaseSchema() {
-  const c = cfg();
-  if (!schemaCachePromise) {
-    schemaCachePromise = (async () => {
-      const url = `https://api.airtable.com/v0/meta/bases/${encodeURIComponent(
-        c.AIRTABLE_BASE_ID
-      )}/tables`;
-      const data = await airtableRequest('GET', url);
-
-      const tables = Array.isArray(data?.tables) ? data.tables : [];
-      const byName = {};
-      const byId = {};
-
-      for (const t of tables) {
-        const tableId = t.id;
-        const tableName = t.name;
-        const fields = Array.isArray(t.fields) ? t.fields : [];
-
-        const fieldsByName = {};
-        const fieldsById = {};
-        const fieldsByNormName = {};
-
-        for (const f of fields) {
-          fieldsByName[f.name] = f;
-          fieldsById[f.id] = f;
-          fieldsByNormName[norm(f.name)] = f;
-        }
-
-        const tableObj = {
-          id: tableId,
-          name: tableName,
-          fieldsByName,
-          fieldsById,
-          fieldsByNormName,
-        };
-        byName[tableName] = tableObj;
-        byId[tableId] = tableObj;
-      }
-
-      return { byName, byId };
-    })().catch(e => {
-      console.error(
-        'Schema load failed (check schema.bases:read scope):',
-        e?.message || e
-      );
-      return null;
-    });
-  }
-  return schemaCachePromise;
-}
-
-async function resolveFieldKey(tableKey, fieldName) {
-  const schema = await getBaseSchema();
-  if (!schema) return fieldName;
-
-  const table = schema.byName[tableKey] || schema.byId[tableKey];
-  if (!table) return fieldName;
-
-  if (table.fieldsByName[fieldName]) return table.fieldsByName[fieldName].id;
-
-  for (const a of fieldAliasesFor(tableKey, fieldName)) {
-    if (table.fieldsByName[a]) return table.fieldsByName[a].id;
-  }
-
-  const n = norm(fieldName);
-  if (table.fieldsByNormName[n]) return table.fieldsByNormName[n].id;
-
-  for (const a of fieldAliasesFor(tableKey, fieldName)) {
-    const na = norm(a);
-    if (table.fieldsByNormName[na]) return table.fieldsByNormName[na].id;
-  }
-
-  return fieldName;
-}
-
-async function mapFields(tableKey, fieldsObj) {
-  const out = {};
-  for (const [k, v] of Object.entries(fieldsObj || {})) {
-    const key = await resolveFieldKey(tableKey, k);
-    out[key] = v;
-  }
-  return out;
-}
-
-async function listAll(tableName, paramsObj = {}) {
-  const records = [];
-  let offset = null;
-
-  do {
-    const params = new URLSearchParams();
-    params.set('pageSize', String(paramsObj.pageSize || 100));
-    if (paramsObj.maxRecords)
-      params.set('maxRecords', String(paramsObj.maxRecords));
-    if (paramsObj.filterByFormula)
-      params.set('filterByFormula', paramsObj.filterByFormula);
-
-    if (Array.isArray(paramsObj.sort)) {
-      paramsObj.sort.forEach((s, i) => {
-        params.set(`sort[${i}][field]`, s.field);
-        params.set(`sort[${i}][direction]`, s.direction || 'asc');
-      });
-    }
-    if (offset) params.set('offset', offset);
-
-    const url = `${tableUrl(tableName)}?${params.toString()}`;
-    const data = await airtableRequest('GET', url);
-
-    if (Array.isArray(data?.records)) records.push(...data.records);
-    offset = data?.offset || null;
-  } while (offset);
-
-  return records;
-}
-
-async function getRecord(tableName, recordId) {
-  return airtableRequest('GET', `${tableUrl(tableName)}/${recordId}`);
-}
-
-async function createRecords(tableName, records) {
-  const mapped = [];
-  for (const r of records) {
-    mapped.push({ ...r, fields: await mapFields(tableName, r.fields) });
-  }
-  return airtableRequest('POST', tableUrl(tableName), {
-    records: mapped,
-    typecast: true,
-  });
-}
-
-async function updateRecords(tableName, records) {
-  const mapped = [];
-  for (const r of records) {
-    mapped.push({ ...r, fields: await mapFields(tableName, r.fields) });
-  }
-  return airtableRequest('PATCH', tableUrl(tableName), {
-    records: mapped,
-    typecast: true,
-  });
-}
-
 function getInitDataFromReq(req) {
   return req.headers['x-telegram-init-data'] || req.body?.initData || '';
 }
@@ -352,102 +165,40 @@ function displayNameFromTg(user) {
   return `User ${user?.id ?? ''}`.trim();
 }
 
-function toNum(v, fallback = 0) {
-  if (typeof v === 'number') return v;
-  const n = Number(v);
-  return Number.isFinite(n) ? n : fallback;
-}
-
-function normalizePlayer(rec) {
-  const c = cfg();
-  const f = rec.fields || {};
-  return {
-    id: rec.id,
-    name: f[c.P_NAME] || '',
-    telegramId: f[c.P_TG_ID] ?? null,
-    telegramUsername: f[c.P_TG_USERNAME] || '',
-    rating: toNum(f[c.P_INDIV_RATING], c.DEFAULT_RATING),
-    gamesPlayed: toNum(f[c.P_GP], 0),
-    wins: toNum(f[c.P_W], 0),
-    losses: toNum(f[c.P_L], 0),
-  };
+function httpError(status, message) {
+  const err = new Error(message);
+  err.status = status;
+  return err;
 }
 
-function normalizePair(rec) {
-  const c = cfg();
-  const f = rec.fields || {};
-  return {
-    id: rec.id,
-    player1: Array.isArray(f[c.PR_PLAYER1]) ? f[c.PR_PLAYER1][0] : null,
-    player2: Array.isArray(f[c.PR_PLAYER2]) ? f[c.PR_PLAYER2][0] : null,
-    rating: toNum(f[c.PR_RATING], c.DEFAULT_RATING),
-    gamesPlayed: toNum(f[c.PR_GP], 0),
-    wins: toNum(f[c.PR_W], 0),
-    losses: toNum(f[c.PR_L], 0),
-  };
+function parseFormat(formatId) {
+  const format = matchFormat(formatId);
+  if (!format) throw httpError(400, `Unknown match format: ${formatId}`);
+  return format;
 }
 
-function normalizeMatch(rec) {
-  const c = cfg();
-  const f = rec.fields || {};
-  return {
-    id: rec.id,
-    date: f[c.M_DATE] || null,
-    time: f[c.M_TIME] || '',
-    status: f[c.M_STATUS] || '',
-    pair1: Array.isArray(f[c.M_PAIR1]) ? f[c.M_PAIR1][0] : null,
-    pair2: Array.isArray(f[c.M_PAIR2]) ? f[c.M_PAIR2][0] : null,
-    initiatedBy: Array.isArray(f[c.M_INITIATED_BY])
-      ? f[c.M_INITIATED_BY][0]
-      : null,
-    confirmedBy: Array.isArray(f[c.M_CONFIRMED_BY]) ? f[c.M_CONFIRMED_BY] : [],
-    score: f[c.M_SCORE] || '',
-    disputeReason: f[c.M_DISPUTE_REASON] || '',
-  };
+// Validates the whole score against the match format; throws 400 with a user-facing message.
+function parseMatchSets(sets, format) {
+  const parsedSets = (Array.isArray(sets) ? sets : []).map((s, i) => ({
+    setNo: i + 1,
+    p1: Number(s?.p1),
+    p2: Number(s?.p2),
+  }));
+  const err = validateMatchScore(format, parsedSets);
+  if (err) throw httpError(400, err);
+  return parsedSets;
 }
 
-function normalizeSetScore(rec) {
+async function findPlayerByTelegramId(tgId) {
   const c = cfg();
-  const f = rec.fields || {};
-  return {
-    id: rec.id,
-    match: Array.isArray(f[c.S_MATCH]) ? f[c.S_MATCH][0] : null,
-    setNo: toNum(f[c.S_SET_NO], 0),
-    p1: toNum(f[c.S_P1], 0),
-    p2: toNum(f[c.S_P2], 0),
-    winnerPair: Array.isArray(f[c.S_WINNER_PAIR])
-      ? f[c.S_WINNER_PAIR][0]
-      : null,
-  };
-}
-
-function eloDelta(rA, rB, scoreA, k) {
-  const expectedA = 1 / (1 + Math.pow(10, (rB - rA) / 400));
-  return k * (scoreA - expectedA);
-}
-
-function validateSetGames(a, b, setIndex1Based) {
-  const p1 = Number(a);
-  const p2 = Number(b);
-  if (!Number.isFinite(p1) || !Number.isFinite(p2) || p1 < 0 || p2 < 0) {
-    throw new Error(`Invalid set score at set ${setIndex1Based}`);
-  }
-  if (p1 === p2) throw new Error(`Set ${setIndex1Based} cannot be a draw`);
-
-  const w = Math.max(p1, p2);
-  const l = Math.min(p1, p2);
-
-  const ok = (w === 6 && l <= 4) || (w === 7 && (l === 5 || l === 6));
-  if (!ok) {
-    throw new Error(
-      `Invalid padel set score ${p1}-${p2} at set ${setIndex1Based}. Allowed: 6-0..6-4, 7-5, 7-6.`
-    );
-  }
-  return { p1, p2 };
+  const found = await listAll(c.T_PLAYERS, {
+    maxRecords: 1,
+    where: { [c.P_TG_ID]: Number(tgId) },
+  });
+  return found[0] || null;
 }
 
 async function getOrCreatePlayerByTelegram(initData) {
-  const c = cfg();
   const data = validateTelegramInitDataOrThrow(initData);
   const user = data.user;
   if (!user?.id) {
@@ -456,14 +207,39 @@ async function getOrCreatePlayerByTelegram(initData) {
     throw err;
   }
 
-  const tgId = Number(user.id);
-
-  const found = await listAll(c.T_PLAYERS, {
-    maxRecords: 1,
-    filterByFormula: `{${c.P_TG_ID}} = ${tgId}`,
-  });
+  const existing = await findPlayerByTelegramId(user.id);
+  return { data, user, existing };
+}
 
-  return { data, user, existing: found[0] || null };
+/**
+ * The invite the Mini App was opened with (start_param of the signed
+ * initData) as the invited player sees it: who sent it, whether it expired
+ * and their pair with the inviter if they have one. null without a valid
+ * invite from someone else.
+ */
+async function invitationFor(initDataParsed, playerId) {
+  const c = cfg();
+  const invite = readInvite(initDataParsed.start_param);
+  if (!invite || invite.inviterId === playerId) return null;
+
+  const players = await listAll(c.T_PLAYERS);
+  const inviter = players.find(r => r.id === invite.inviterId);
+  if (!inviter) return null;
+
+  const pair = playerId
+    ? (await listAll(c.T_PAIRS))
+        .map(normalizePair)
+        .find(p =>
+          [p.player1, p.player2].every(id =>
+            [invite.inviterId, playerId].includes(id)
+          )
+        )
+    : null;
+  return {
+    ...invite,
+    inviterName: normalizePlayer(inviter).name,
+    pairId: pair?.id || null,
+  };
 }
 
 async function findOrCreatePair(playerAId, playerBId, playersById) {
@@ -507,6 +283,50 @@ async function findOrCreatePair(playerAId, playerBId, playersById) {
   return { pairRec: created?.records?.[0], created: true };
 }
 
+function setScoreRecords(matchId, pair1Id, pair2Id, parsedSets) {
+  const c = cfg();
+  return parsedSets.map(s => {
+    const winnerPair = s.p1 > s.p2 ? pair1Id : pair2Id;
+    return {
+      fields: {
+        [c.S_MATCH]: [matchId],
+        [c.S_SET_NO]: s.setNo,
+        [c.S_P1]: s.p1,
+        [c.S_P2]: s.p2,
+        [c.S_WINNER_PAIR]: [winnerPair],
+      },
+    };
+  });
+}
+
+function isAdminTelegramId(tgId) {
+  return cfg().ADMIN_TELEGRAM_IDS.includes(Number(tgId));
+}
+
+async function requireAdmin(initData) {
+  const { user, existing } = await getOrCreatePlayerByTelegram(initData);
+  if (!isAdminTelegramId(user.id)) {
+    const err = new Error('League admins only');
+    err.status = 403;
+    throw err;
+  }
+  return { user, existing };
+}
+
+async function loadSetsForMatch(matchId) {
+  const c = cfg();
+  return listLinked(c.T_SETSCORES, c.S_MATCH, matchId);
+}
+
+// When a pending match will be auto-confirmed (ISO string), or null if disabled.
+function autoConfirmAt(m) {
+  const c = cfg();
+  if (!c.AUTO_CONFIRM_HOURS || m.status !== c.STATUS_PENDING) return null;
+  const reported = Date.parse(m.reportedAt || '');
+  if (!Number.isFinite(reported)) return null;
+  return new Date(reported + c.AUTO_CONFIRM_HOURS * 3600_000).toISOString();
+}
+
 function uniq(arr) {
   return [...new Set((arr || []).filter(Boolean))];
 }
@@ -516,142 +336,165 @@ function setIntersection(a, b) {
   return b.some(x => s.has(x));
 }
 
-async function applyRatingsForMatch(matchRec, setScoresForMatch) {
+/**
+ * Loads both pairs of a match and checks that `playerId` plays in the first
+ * one and that no player appears on both sides. Throws errors with .status.
+ */
+async function loadOpposingPairs(myPairId, oppPairId, playerId, verb) {
   const c = cfg();
-  const m = normalizeMatch(matchRec);
-
-  if (!m.pair1 || !m.pair2) throw new Error('Match missing Pair 1/Pair 2');
-  if (!Array.isArray(setScoresForMatch) || setScoresForMatch.length < 2)
-    throw new Error('Match missing SetScores');
+  if (!myPairId || !oppPairId)
+    throw httpError(400, 'myPairId and oppPairId are required');
+  if (myPairId === oppPairId)
+    throw httpError(400, 'Opponent pair must be different');
 
-  const pairsById = {};
-  const playersById = {};
+  const myPair = normalizePair(await getRecord(c.T_PAIRS, myPairId));
+  const oppPair = normalizePair(await getRecord(c.T_PAIRS, oppPairId));
 
-  const players = await listAll(c.T_PLAYERS, { maxRecords: 1000 });
-  players.forEach(r => (playersById[r.id] = normalizePlayer(r)));
+  const myPlayers = [myPair.player1, myPair.player2].filter(Boolean);
+  const oppPlayers = [oppPair.player1, oppPair.player2].filter(Boolean);
 
-  const pairs = await listAll(c.T_PAIRS, { maxRecords: 1000 });
-  pairs.forEach(r => (pairsById[r.id] = normalizePair(r)));
+  if (myPlayers.length !== 2 || oppPlayers.length !== 2)
+    throw httpError(400, 'Both pairs must have exactly 2 players');
+  if (!myPlayers.includes(playerId))
+    throw httpError(403, `You can only ${verb} for a pair you belong to`);
+  if (setIntersection(myPlayers, oppPlayers))
+    throw httpError(400, 'Same player cannot appear in both pairs');
 
-  const p1 = pairsById[m.pair1];
-  const p2 = pairsById[m.pair2];
-  if (!p1 || !p2) throw new Error('Pair records not found for match');
+  return { myPair, oppPair };
+}
 
-  const p1Players = [p1.player1, p1.player2].filter(Boolean);
-  const p2Players = [p2.player1, p2.player2].filter(Boolean);
-  if (p1Players.length !== 2 || p2Players.length !== 2)
-    throw new Error('Pair must have exactly 2 players');
+// Validates the date/time/court of a challenge or a counter-proposal.
+function parseSchedule(body) {
+  const date = String(body.date || '').trim();
+  const time = String(body.time || '').trim();
+  const court = String(body.court || '').trim();
 
-  const ss = setScoresForMatch
-    .map(normalizeSetScore)
-    .sort((a, b) => a.setNo - b.setNo);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || Number.isNaN(Date.parse(date)))
+    throw httpError(400, 'date must be YYYY-MM-DD');
+  if (time && !/^([01]\d|2[0-3]):[0-5]\d$/.test(time))
+    throw httpError(400, 'time must be HH:MM');
+  if (date < new Date().toISOString().slice(0, 10))
+    throw httpError(400, 'Cannot schedule a match in the past');
 
-  const setWins = ss.reduce(
-    (acc, s) => {
-      if (s.p1 > s.p2) acc.p1++;
-      else acc.p2++;
-      return acc;
-    },
-    { p1: 0, p2: 0 }
-  );
+  return { date, time, court };
+}
 
-  const pair1Won = setWins.p1 > setWins.p2;
-  const scoreA = pair1Won ? 1 : 0;
+/**
+ * Players of a PROPOSED match who may accept, decline or counter it: the
+ * pair that did not make the latest proposal. Empty for other statuses.
+ */
+function proposalResponderIds(m, pair1, pair2) {
+  const c = cfg();
+  if (m.status !== c.STATUS_PROPOSED) return [];
+  const side1 = uniq([pair1?.player1, pair1?.player2]);
+  const side2 = uniq([pair2?.player1, pair2?.player2]);
+  if (side1.includes(m.proposedBy)) return side2;
+  if (side2.includes(m.proposedBy)) return side1;
+  return [];
+}
 
-  const deltaPair = eloDelta(p1.rating, p2.rating, scoreA, c.ELO_K_PAIR);
-  const newP1Rating = Math.round(p1.rating + deltaPair);
-  const newP2Rating = Math.round(p2.rating - deltaPair);
+async function expandMatches(matchRecs) {
+  const c = cfg();
+  const pairs = await listAll(c.T_PAIRS, { maxRecords: 1000 });
+  const players = await listAll(c.T_PLAYERS, { maxRecords: 1000 });
+  const setScores = await listLinked(
+    c.T_SETSCORES,
+    c.S_MATCH,
+    matchRecs.map(r => r.id)
+  );
 
-  const p1Avg = Math.round(
-    (playersById[p1Players[0]].rating + playersById[p1Players[1]].rating) / 2
+  const pairsById = Object.fromEntries(
+    pairs.map(r => [r.id, normalizePair(r)])
   );
-  const p2Avg = Math.round(
-    (playersById[p2Players[0]].rating + playersById[p2Players[1]].rating) / 2
+  const playersById = Object.fromEntries(
+    players.map(r => [r.id, normalizePlayer(r)])
   );
-  const deltaPlayer = eloDelta(p1Avg, p2Avg, scoreA, c.ELO_K_PLAYER);
-
-  const updPairs = [
-    {
-      id: p1.id,
-      fields: {
-        [c.PR_RATING]: newP1Rating,
-        [c.PR_GP]: p1.gamesPlayed + 1,
-        [c.PR_W]: p1.wins + (pair1Won ? 1 : 0),
-        [c.PR_L]: p1.losses + (pair1Won ? 0 : 1),
-      },
-    },
-    {
-      id: p2.id,
-      fields: {
-        [c.PR_RATING]: newP2Rating,
-        [c.PR_GP]: p2.gamesPlayed + 1,
-        [c.PR_W]: p2.wins + (pair1Won ? 0 : 1),
-        [c.PR_L]: p2.losses + (pair1Won ? 1 : 0),
-      },
-    },
-  ];
+  const setNorm = setScores.map(normalizeSetScore);
+
+  const expandPair = pairId => {
+    const p = pairId ? pairsById[pairId] || null : null;
+    if (!p) return null;
+    return {
+      ...p,
+      player1Obj: p.player1 ? playersById[p.player1] || null : null,
+      player2Obj: p.player2 ? playersById[p.player2] || null : null,
+    };
+  };
 
-  const applyDelta = (r, d) => Math.round(r + d);
+  return matchRecs.map(r => {
+    const m = normalizeMatch(r);
+    const pair1Obj = expandPair(m.pair1);
+    const pair2Obj = expandPair(m.pair2);
+    const ss = setNorm
+      .filter(x => x.match === m.id)
+      .sort((a, b) => a.setNo - b.setNo);
+
+    const opponentPlayerIds = uniq([pair2Obj?.player1, pair2Obj?.player2]);
+    const confirmedBy = uniq(m.confirmedBy);
+
+    return {
+      ...m,
+      pair1Obj,
+      pair2Obj,
+      setScores: ss,
+      opponentPlayerIds,
+      confirmedBy,
+      autoConfirmAt: autoConfirmAt(m),
+      responderPlayerIds: proposalResponderIds(m, pair1Obj, pair2Obj),
+    };
+  });
+}
 
-  const updPlayers = [
-    {
-      id: p1Players[0],
-      fields: {
-        [c.P_INDIV_RATING]: applyDelta(
-          playersById[p1Players[0]].rating,
-          deltaPlayer
-        ),
-        [c.P_GP]: playersById[p1Players[0]].gamesPlayed + 1,
-        [c.P_W]: playersById[p1Players[0]].wins + (pair1Won ? 1 : 0),
-        [c.P_L]: playersById[p1Players[0]].losses + (pair1Won ? 0 : 1),
-      },
-    },
-    {
-      id: p1Players[1],
-      fields: {
-        [c.P_INDIV_RATING]: applyDelta(
-          playersById[p1Players[1]].rating,
-          deltaPlayer
-        ),
-        [c.P_GP]: playersById[p1Players[1]].gamesPlayed + 1,
-        [c.P_W]: playersById[p1Players[1]].wins + (pair1Won ? 1 : 0),
-        [c.P_L]: playersById[p1Players[1]].losses + (pair1Won ? 0 : 1),
-      },
-    },
-    {
-      id: p2Players[0],
-      fields: {
-        [c.P_INDIV_RATING]: applyDelta(
-          playersById[p2Players[0]].rating,
-          -deltaPlayer
-        ),
-        [c.P_GP]: playersById[p2Players[0]].gamesPlayed + 1,
-        [c.P_W]: playersById[p2Players[0]].wins + (pair1Won ? 0 : 1),
-        [c.P_L]: playersById[p2Players[0]].losses + (pair1Won ? 1 : 0),
-      },
-    },
-    {
-      id: p2Players[1],
-      fields: {
-        [c.P_INDIV_RATING]: applyDelta(
-          playersById[p2Players[1]].rating,
-          -deltaPlayer
-        ),
-        [c.P_GP]: playersById[p2Players[1]].gamesPlayed + 1,
-        [c.P_W]: playersById[p2Players[1]].wins + (pair1Won ? 0 : 1),
-        [c.P_L]: playersById[p2Players[1]].losses + (pair1Won ? 1 : 0),
-      },
-    },
-  ];
+// ---------------- Match feed ----------------
 
-  await updateRecords(c.T_PAIRS, updPairs);
-  await updateRecords(c.T_PLAYERS, updPlayers);
+const MATCH_PAGE_SIZE = 20;
 
-  return {
-    pair1Won,
-    deltaPair: Math.round(deltaPair),
-    deltaPlayer: Math.round(deltaPlayer),
+/**
+ * `status` filter of /api/matches: upcoming (PROPOSED, SCHEDULED), played
+ * (everything else), pending, confirmed, disputed (DISPUTED, REJECTED).
+ */
+function matchStatusFilter(name) {
+  const c = cfg();
+  const upcoming = [c.STATUS_PROPOSED, c.STATUS_SCHEDULED];
+  const groups = {
+    upcoming,
+    pending: [c.STATUS_PENDING],
+    confirmed: [c.STATUS_CONFIRMED],
+    disputed: [c.STATUS_DISPUTED, c.STATUS_REJECTED],
   };
+  if (!name) return () => true;
+  if (name === 'played') return m => !upcoming.includes(m.status);
+  return m => groups[name].includes(m.status);
+}
+
+// Newest first: match date, then report time, then id so the order is total.
+const feedKey = m => [m.date || '', m.reportedAt || '', m.id];
+
+function compareFeedKeys(a, b) {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return a[i] < b[i] ? 1 : -1;
+  }
+  return 0;
+}
+
+// The cursor is the feed key of the last match on the previous page.
+function encodeCursor(key) {
+  return Buffer.from(JSON.stringify(key)).toString('base64url');
+}
+
+function decodeCursor(cursor) {
+  try {
+    const key = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    if (
+      Array.isArray(key) &&
+      key.length === 3 &&
+      key.every(k => typeof k === 'string')
+    )
+      return key;
+  } catch {
+    // fall through
+  }
+  throw httpError(400, 'Invalid cursor');
 }
 
 // ---------------- API ----------------
@@ -662,12 +505,15 @@ app.post('/api/me', async (req, res) => {
   try {
     if (!requireEnv(res)) return;
     const initData = getInitDataFromReq(req);
-    const { user, existing } = await getOrCreatePlayerByTelegram(initData);
+    const { data, user, existing } =
+      await getOrCreatePlayerByTelegram(initData);
     res.json({
       ok: true,
       user,
       joined: Boolean(existing),
+      isAdmin: isAdminTelegramId(user.id),
       player: existing ? normalizePlayer(existing) : null,
+      invite: await invitationFor(data, existing?.id),
     });
   } catch (e) {
     console.error('me error:', e?.message, e?.details || '');
@@ -682,7 +528,8 @@ app.post('/api/join', async (req, res) => {
     if (!requireEnv(res)) return;
     const c = cfg();
     const initData = getInitDataFromReq(req);
-    const { user, existing } = await getOrCreatePlayerByTelegram(initData);
+    const { data, user, existing } =
+      await getOrCreatePlayerByTelegram(initData);
 
     const name = displayNameFromTg(user);
     const username = user.username || '';
@@ -698,9 +545,20 @@ app.post('/api/join', async (req, res) => {
         ok: true,
         player: normalizePlayer(updated?.records?.[0]),
         action: 'updated',
+        invite: await invitationFor(data, existing.id),
       });
     }
 
+    // Joined through a friend's invite link: remember who and when.
+    const invite = await invitationFor(data, null);
+    const invitedFields =
+      invite && !invite.expired
+        ? {
+            [c.P_INVITED_BY]: [invite.inviterId],
+            [c.P_INVITE_USED_AT]: new Date().toISOString(),
+          }
+        : {};
+
     const created = await createRecords(c.T_PLAYERS, [
       {
         fields: {
@@ -711,6 +569,7 @@ app.post('/api/join', async (req, res) => {
           [c.P_GP]: 0,
           [c.P_W]: 0,
           [c.P_L]: 0,
+          ...invitedFields,
         },
       },
     ]);
@@ -718,6 +577,7 @@ app.post('/api/join', async (req, res) => {
       ok: true,
       player: normalizePlayer(created?.records?.[0]),
       action: 'created',
+      invite,
     });
   } catch (e) {
     console.error('join error:', e?.message, e?.details || '');
@@ -727,6 +587,27 @@ app.post('/api/join', async (req, res) => {
   }
 });
 
+// A deep link that opens the Mini App with the caller's invite token.
+app.post('/api/invites/create', async (req, res) => {
+  try {
+    if (!requireEnv(res)) return;
+    const { existing } = await getOrCreatePlayerByTelegram(
+      getInitDataFromReq(req)
+    );
+    if (!existing)
+      return res
+        .status(403)
+        .json({ ok: false, error: 'You must Join before inviting friends' });
+
+    res.json({ ok: true, ...(await createInvite(existing.id)) });
+  } catch (e) {
+    console.error('invites/create error:', e?.message, e?.details || '');
+    res
+      .status(e.status || 500)
+      .json({ ok: false, error: e.message, details: e.details || null });
+  }
+});
+
 app.post('/api/players', async (req, res) => {
   try {
     if (!requireEnv(res)) return;
@@ -744,6 +625,22 @@ app.post('/api/players', async (req, res) => {
   }
 });
 
+// W/L, streaks, partners, opponents and recent results of one player.
+app.post('/api/players/profile', async (req, res) => {
+  try {
+    if (!requireEnv(res)) return;
+    validateTelegramInitDataOrThrow(getInitDataFromReq(req));
+
+    const { playerId, recent } = req.body || {};
+    res.json({ ok: true, ...(await playerProfile(playerId, { recent })) });
+  } catch (e) {
+    console.error('players/profile error:', e?.message, e?.details || '');
+    res
+      .status(e.status || 500)
+      .json({ ok: false, error: e.message, details: e.details || null });
+  }
+});
+
 app.post('/api/pairs', async (req, res) => {
   try {
     if (!requireEnv(res)) return;
@@ -755,20 +652,35 @@ app.post('/api/pairs', async (req, res) => {
       players.map(r => [r.id, normalizePlayer(r)])
     );
 
-    const pairs = await listAll(c.T_PAIRS, {
-      sort: [{ field: c.PR_RATING, direction: 'desc' }],
-    });
+    // Standings: ordered by `sort` (rating by default), only pairs with at
+    // least `minGames` ranked games this season, optionally only those of
+    // `playerId`, at most `limit`.
+    const { sort = 'rating', minGames = 0, playerId, limit } = req.body || {};
+    const sortKey = {
+      rating: p => p.rating,
+      winPct: p => (p.gamesPlayed ? p.wins / p.gamesPlayed : 0),
+      wins: p => p.wins,
+      gamesPlayed: p => p.gamesPlayed,
+    }[sort];
+    if (!sortKey) throw httpError(400, `Unknown sort: ${sort}`);
+
+    const pairs = (await listAll(c.T_PAIRS))
+      .map(normalizePair)
+      .filter(
+        p =>
+          p.gamesPlayed >= minGames &&
+          (!playerId || [p.player1, p.player2].includes(playerId))
+      )
+      .sort((a, b) => sortKey(b) - sortKey(a) || b.rating - a.rating);
 
     res.json({
       ok: true,
-      pairs: pairs.map(r => {
-        const p = normalizePair(r);
-        return {
-          ...p,
-          player1Obj: p.player1 ? playersById[p.player1] || null : null,
-          player2Obj: p.player2 ? playersById[p.player2] || null : null,
-        };
-      }),
+      total: pairs.length,
+      pairs: pairs.slice(0, limit || pairs.length).map(p => ({
+        ...p,
+        player1Obj: p.player1 ? playersById[p.player1] || null : null,
+        player2Obj: p.player2 ? playersById[p.player2] || null : null,
+      })),
     });
   } catch (e) {
     console.error('pairs error:', e?.message, e?.details || '');
@@ -778,16 +690,28 @@ app.post('/api/pairs', async (req, res) => {
   }
 });
 
+// Match history and head-to-head of one pair.
+app.post('/api/pairs/profile', async (req, res) => {
+  try {
+    if (!requireEnv(res)) return;
+    validateTelegramInitDataOrThrow(getInitDataFromReq(req));
+
+    const { pairId, recent } = req.body || {};
+    res.json({ ok: true, ...(await pairProfile(pairId, { recent })) });
+  } catch (e) {
+    console.error('pairs/profile error:', e?.message, e?.details || '');
+    res
+      .status(e.status || 500)
+      .json({ ok: false, error: e.message, details: e.details || null });
+  }
+});
+
 app.post('/api/pairs/create', async (req, res) => {
   try {
     if (!requireEnv(res)) return;
     validateTelegramInitDataOrThrow(getInitDataFromReq(req));
 
     const { player1Id, player2Id } = req.body || {};
-    if (!player1Id || !player2Id)
-      return res
-        .status(400)
-        .json({ ok: false, error: 'player1Id and player2Id are required' });
 
     const c = cfg();
     const players = await listAll(c.T_PLAYERS, { maxRecords: 1000 });
@@ -819,418 +743,1546 @@ app.post('/api/pairs/create', async (req, res) => {
   }
 });
 
+/**
+ * Match feed, newest first, in pages of `limit`; pass `nextCursor` back as
+ * `cursor` for the next page. Filters: `status` (see matchStatusFilter),
+ * `playerId` or `pairId`, `from`/`to` dates and `needsAction`: matches
+ * waiting for the caller (a challenge to answer, a result to confirm, a
+ * scheduled match to report).
+ */
 app.post('/api/matches', async (req, res) => {
   try {
     if (!requireEnv(res)) return;
-    validateTelegramInitDataOrThrow(getInitDataFromReq(req));
-
     const c = cfg();
+    const body = req.body || {};
 
-    const matches = await listAll(c.T_MATCHES, {
-      maxRecords: 200,
-      sort: [{ field: c.M_DATE, direction: 'desc' }],
-    });
-    const pairs = await listAll(c.T_PAIRS, { maxRecords: 1000 });
-    const players = await listAll(c.T_PLAYERS, { maxRecords: 1000 });
-    const setScores = await listAll(c.T_SETSCORES, { maxRecords: 2000 });
+    let me = null;
+    if (body.needsAction) {
+      ({ existing: me } = await getOrCreatePlayerByTelegram(
+        getInitDataFromReq(req)
+      ));
+    } else {
+      validateTelegramInitDataOrThrow(getInitDataFromReq(req));
+    }
+
+    const after = body.cursor ? decodeCursor(body.cursor) : null;
+    const limit = body.limit || MATCH_PAGE_SIZE;
+    const byStatus = matchStatusFilter(body.status);
 
+    const pairs = await listAll(c.T_PAIRS, { maxRecords: 1000 });
     const pairsById = Object.fromEntries(
       pairs.map(r => [r.id, normalizePair(r)])
     );
-    const playersById = Object.fromEntries(
-      players.map(r => [r.id, normalizePlayer(r)])
+    const sides = m => [
+      uniq([pairsById[m.pair1]?.player1, pairsById[m.pair1]?.player2]),
+      uniq([pairsById[m.pair2]?.player1, pairsById[m.pair2]?.player2]),
+    ];
+
+    const waitingFor = (m, playerId) => {
+      const [side1, side2] = sides(m);
+      if (m.status === c.STATUS_PENDING) return side2.includes(playerId);
+      if (m.status === c.STATUS_SCHEDULED)
+        return [...side1, ...side2].includes(playerId);
+      return proposalResponderIds(
+        m,
+        pairsById[m.pair1],
+        pairsById[m.pair2]
+      ).includes(playerId);
+    };
+
+    const rows = (await listAll(c.T_MATCHES))
+      .map(rec => ({ rec, m: normalizeMatch(rec) }))
+      .filter(({ m }) => {
+        if (!byStatus(m)) return false;
+        if (body.pairId && m.pair1 !== body.pairId && m.pair2 !== body.pairId)
+          return false;
+        if (body.playerId && !sides(m).flat().includes(body.playerId))
+          return false;
+        if (body.from && (m.date || '') < body.from) return false;
+        if (body.to && (m.date || '') > body.to) return false;
+        if (body.needsAction && !(me && waitingFor(m, me.id))) return false;
+        return !after || compareFeedKeys(feedKey(m), after) > 0;
+      })
+      .sort((a, b) => compareFeedKeys(feedKey(a.m), feedKey(b.m)));
+
+    const page = rows.slice(0, limit);
+    const nextCursor =
+      rows.length > limit
+        ? encodeCursor(feedKey(page[page.length - 1].m))
+        : null;
+
+    res.json({
+      ok: true,
+      matches: await expandMatches(page.map(r => r.rec)),
+      nextCursor,
+    });
+  } catch (e) {
+    console.error('matches error:', e?.message, e?.details || '');
+    res
+      .status(e.status || 500)
+      .json({ ok: false, error: e.message, details: e.details || null });
+  }
+});
+
+// Reports still being saved, by idempotency key: a repeated request waits for
+// the first one instead of creating a second match.
+const reportsInFlight = new Map();
+
+/**
+ * A PENDING or CONFIRMED match between the same two pairs (either order) on
+ * the same date, which most likely is this result reported already. `sets` are
+ * the new report's, seen from myPairId; so is the returned score.
+ */
+async function findDuplicateReport(myPairId, oppPairId, dateISO, sets) {
+  const c = cfg();
+  // Filtered here: a formula comparing Airtable's date field to the ISO
+  // string never matches.
+  const m = (await listAll(c.T_MATCHES))
+    .map(normalizeMatch)
+    .find(
+      x =>
+        x.date === dateISO &&
+        [c.STATUS_PENDING, c.STATUS_CONFIRMED].includes(x.status) &&
+        ((x.pair1 === myPairId && x.pair2 === oppPairId) ||
+          (x.pair1 === oppPairId && x.pair2 === myPairId))
     );
-    const setNorm = setScores.map(normalizeSetScore);
+  if (!m) return null;
+
+  // The caller's pair is Pair 2 of the existing match: they are its opponents.
+  const flipped = m.pair1 === oppPairId;
+  const existingSets = (await loadSetsForMatch(m.id))
+    .map(normalizeSetScore)
+    .sort((a, b) => a.setNo - b.setNo)
+    .map(s => (flipped ? { ...s, p1: s.p2, p2: s.p1 } : s));
+  const sameScore =
+    existingSets.length === sets.length &&
+    existingSets.every((s, i) => s.p1 === sets[i].p1 && s.p2 === sets[i].p2);
+
+  return {
+    match: m,
+    duplicate: {
+      matchId: m.id,
+      status: m.status,
+      date: m.date,
+      score: formatScoreText(parseFormat(m.format), existingSets),
+      sameScore,
+      canConfirm: m.status === c.STATUS_PENDING && flipped,
+    },
+  };
+}
+
+/**
+ * Handles a report that matches an existing result (body.duplicateAction
+ * 'link'): the opponents confirm it when the score agrees, anyone else just
+ * gets the existing match back.
+ */
+async function linkDuplicateReport({ match: m, duplicate }, player) {
+  const c = cfg();
+  if (duplicate.canConfirm) {
+    if (!duplicate.sameScore) {
+      const err = httpError(
+        409,
+        `The existing report says ${duplicate.score}. Dispute it if that score is wrong.`
+      );
+      err.details = { duplicate };
+      throw err;
+    }
+    const confirmed = await confirmMatchAs(m.id, player);
+    return {
+      ok: true,
+      matchId: m.id,
+      status: confirmed.status,
+      ranked: m.ranked,
+      linked: true,
+      message: confirmed.message,
+      ratingDeltaPair: confirmed.ratingDeltaPair,
+      ratingDeltaPlayer: confirmed.ratingDeltaPlayer,
+      ratingMultiplier: confirmed.ratingMultiplier,
+    };
+  }
+  return {
+    ok: true,
+    matchId: m.id,
+    status: m.status,
+    ranked: m.ranked,
+    linked: true,
+    message:
+      m.status === c.STATUS_CONFIRMED
+        ? 'This result was already reported and confirmed.'
+        : 'This result was already reported. Waiting for opponent confirmation.',
+  };
+}
+
+app.post('/api/matches/report', async (req, res) => {
+  try {
+    if (!requireEnv(res)) return;
+    const c = cfg();
+    const initData = getInitDataFromReq(req);
+    const { existing } = await getOrCreatePlayerByTelegram(initData);
+    if (!existing)
+      return res
+        .status(403)
+        .json({ ok: false, error: 'You must Join before reporting matches' });
 
-    const expandPair = pairId => {
-      const p = pairId ? pairsById[pairId] || null : null;
-      if (!p) return null;
+    const body = req.body || {};
+    const key = body.idempotencyKey || '';
+    let saving = key && reportsInFlight.get(key);
+    if (key && !saving) {
+      saving = reportMatchAs(existing, body).finally(() =>
+        reportsInFlight.delete(key)
+      );
+      reportsInFlight.set(key, saving);
+      return res.json(await saving);
+    }
+    // Same key still being saved: once it is, this request replays its match.
+    if (saving) await saving.catch(() => {});
+    res.json(await reportMatchAs(existing, body));
+  } catch (e) {
+    console.error('matches/report error:', e?.message, e?.details || '');
+    res
+      .status(e.status || 500)
+      .json({ ok: false, error: e.message, details: e.details || null });
+  }
+});
+
+/**
+ * Creates the reported result (or fills in a scheduled match) for `player`.
+ * A request repeating an earlier body.idempotencyKey gets the match that key
+ * created back instead. Throws errors with .status for 4xx/5xx.
+ */
+async function reportMatchAs(player, body) {
+  const c = cfg();
+  const key = body.idempotencyKey || '';
+
+  if (key) {
+    const [earlier] = await listAll(c.T_MATCHES, {
+      maxRecords: 1,
+      where: { [c.M_REPORT_KEY]: key },
+    });
+    if (earlier) {
+      const m = normalizeMatch(earlier);
+      if (m.initiatedBy !== player.id)
+        throw httpError(409, 'This report key was already used.');
       return {
-        ...p,
-        player1Obj: p.player1 ? playersById[p.player1] || null : null,
-        player2Obj: p.player2 ? playersById[p.player2] || null : null,
+        ok: true,
+        matchId: m.id,
+        status: m.status,
+        ranked: m.ranked,
+        replayed: true,
+        message: 'This result was already saved.',
       };
+    }
+  }
+
+  let myPairId = body.myPairId;
+  let oppPairId = body.oppPairId;
+  let scheduled = null;
+
+  // Result of a scheduled match: either side may report it, and the
+  // reporter's pair becomes Pair 1 so confirmation works as usual.
+  if (body.matchId) {
+    scheduled = normalizeMatch(await getRecord(c.T_MATCHES, body.matchId));
+    if (scheduled.status !== c.STATUS_SCHEDULED)
+      throw httpError(
+        409,
+        `Match is ${scheduled.status}. Only SCHEDULED matches can be reported.`
+      );
+    const pair1 = normalizePair(await getRecord(c.T_PAIRS, scheduled.pair1));
+    const mineFirst = [pair1.player1, pair1.player2].includes(player.id);
+    myPairId = mineFirst ? scheduled.pair1 : scheduled.pair2;
+    oppPairId = mineFirst ? scheduled.pair2 : scheduled.pair1;
+  }
+
+  const format = parseFormat(body.format || scheduled?.format);
+  const parsedSets = parseMatchSets(body.sets, format);
+  // Friendly unless `ranked` is true; tournament matches keep the tournament's setting.
+  const ranked = scheduled?.tournament
+    ? scheduled.ranked
+    : body.ranked === undefined
+      ? (scheduled?.ranked ?? true)
+      : Boolean(body.ranked);
+
+  await loadOpposingPairs(myPairId, oppPairId, player.id, 'report match');
+
+  const dateISO =
+    scheduled?.date || body.date || new Date().toISOString().slice(0, 10);
+  const scoreText = formatScoreText(format, parsedSets);
+
+  // Both sides reporting the same game. A scheduled match cannot be reported
+  // twice already, so only ad-hoc results are checked. 'create' reports a
+  // second game anyway.
+  if (!scheduled && body.duplicateAction !== 'create') {
+    const found = await findDuplicateReport(
+      myPairId,
+      oppPairId,
+      dateISO,
+      parsedSets
+    );
+    if (found && body.duplicateAction === 'link')
+      return linkDuplicateReport(found, player);
+    if (found) {
+      const err = httpError(
+        409,
+        `This match was already reported for ${dateISO} (${found.duplicate.score}).`
+      );
+      err.details = { duplicate: found.duplicate };
+      throw err;
+    }
+  }
+
+  const season = await activeSeason();
+  const matchFields = {
+    [c.M_SEASON]: season ? [season.id] : [],
+    [c.M_DATE]: dateISO,
+    [c.M_TIME]: scheduled ? scheduled.time : body.time || '',
+    [c.M_PAIR1]: [myPairId],
+    [c.M_PAIR2]: [oppPairId],
+    [c.M_INITIATED_BY]: [player.id],
+    [c.M_SCORE]: scoreText,
+    [c.M_FORMAT]: format.id,
+    [c.M_UNRANKED]: !ranked,
+    [c.M_STATUS]: c.STATUS_PENDING,
+    [c.M_REPORTED_AT]: new Date().toISOString(),
+    [c.M_REPORT_KEY]: key,
+  };
+
+  const matchCreate = scheduled
+    ? await updateRecords(c.T_MATCHES, [
+        { id: scheduled.id, fields: matchFields },
+      ])
+    : await createRecords(c.T_MATCHES, [{ fields: matchFields }]);
+
+  const matchRec = matchCreate?.records?.[0];
+  if (!matchRec?.id) throw new Error('Failed to save match');
+  const matchId = matchRec.id;
+
+  await createRecords(
+    c.T_SETSCORES,
+    setScoreRecords(matchId, myPairId, oppPairId, parsedSets)
+  );
+
+  notifyMatchReported(matchId);
+
+  return {
+    ok: true,
+    matchId,
+    status: c.STATUS_PENDING,
+    ranked,
+    message:
+      `${ranked ? 'Match' : 'Friendly match'} created. ` +
+      'Waiting for opponent confirmation (one player is enough).',
+  };
+}
+
+// --- NEW: one opponent confirmation is enough ---
+const confirmInFlight = new Set();
+
+async function opponentPlayerIdsFor(m) {
+  const c = cfg();
+  if (!m.pair2) throw httpError(500, 'Match missing opponent pair');
+  const oppPair = normalizePair(await getRecord(c.T_PAIRS, m.pair2));
+  return uniq([oppPair.player1, oppPair.player2]);
+}
+
+// " (×1.28 margin of victory: sets +2, games +12)" when it changed the update.
+function marginNote(result) {
+  if (!result.multiplier || result.multiplier === 1) return '';
+  const signed = n => `${n >= 0 ? '+' : ''}${n}`;
+  return (
+    ` (×${result.multiplier} margin of victory: ` +
+    `sets ${signed(result.setDiff)}, games ${signed(result.gameDiff)})`
+  );
+}
+
+/**
+ * Sets the match CONFIRMED (plus any extra `fields`), applies ratings (or the
+ * friendly W/L when the match is unranked), and advances its tournament if it
+ * has one. `newSets` (parsed, from pair 1's side) replace the match's
+ * SetScores first. Throws 409, with nothing written, when by the time the
+ * ratings lock is held the match has left the status `matchRec` had or its
+ * ratings were already planned.
+ */
+async function markConfirmedAndApplyRatings(
+  matchRec,
+  fields = {},
+  { newSets } = {}
+) {
+  const c = cfg();
+  const m = normalizeMatch(matchRec);
+
+  // The rating plan is stored with the status, so an interrupted update is
+  // finished later instead of lost (see the ratings outbox in ratings.js).
+  const result = await withSettledRatings(async () => {
+    const currentRec = await getRecord(c.T_MATCHES, matchRec.id);
+    const current = normalizeMatch(currentRec);
+    if (current.status !== m.status || current.ratingsState)
+      throw httpError(409, `Match is ${current.status} now. Not confirmed.`);
+
+    if (newSets) {
+      const oldSets = await loadSetsForMatch(matchRec.id);
+      if (oldSets.length)
+        await deleteRecords(
+          c.T_SETSCORES,
+          oldSets.map(r => r.id)
+        );
+      await createRecords(
+        c.T_SETSCORES,
+        setScoreRecords(matchRec.id, m.pair1, m.pair2, newSets)
+      );
+    }
+
+    const sets = await loadSetsForMatch(matchRec.id);
+    const { plan, result: summary } = await planMatchRatings(currentRec, sets);
+    await updateRecords(c.T_MATCHES, [
+      {
+        id: matchRec.id,
+        fields: {
+          ...fields,
+          [c.M_STATUS]: c.STATUS_CONFIRMED,
+          [c.M_RATINGS_STATE]: c.RATINGS_PENDING,
+          [c.M_RATINGS_PLAN]: JSON.stringify(plan),
+        },
+      },
+    ]);
+    await applyRatingsPlan(matchRec.id, plan);
+    return summary;
+  });
+
+  if (m.tournament) {
+    try {
+      await syncTournament(m.tournament);
+    } catch (e) {
+      console.error(
+        `tournament ${m.tournament} sync error:`,
+        e?.message,
+        e?.details || ''
+      );
+    }
+  }
+  return result;
+}
+
+/**
+ * Opponent confirmation shared by /api/matches/confirm and the bot's inline
+ * Confirm button. `player` is the caller's Players record. Returns the JSON
+ * body for the client; throws errors with .status for 4xx/5xx.
+ */
+async function confirmMatchAs(matchId, player) {
+  const c = cfg();
+
+  if (confirmInFlight.has(matchId)) {
+    return {
+      ok: true,
+      status: 'PROCESSING',
+      message: 'Confirmation is being processed. Refresh in a moment.',
+    };
+  }
+
+  const matchRec = await getRecord(c.T_MATCHES, matchId);
+  const m = normalizeMatch(matchRec);
+
+  if (m.status === c.STATUS_CONFIRMED) {
+    return {
+      ok: true,
+      status: c.STATUS_CONFIRMED,
+      message: 'Already confirmed',
+    };
+  }
+  if (m.status !== c.STATUS_PENDING) {
+    throw httpError(409, `Match is ${m.status}. Cannot confirm.`);
+  }
+
+  const opponentPlayerIds = await opponentPlayerIdsFor(m);
+  if (!opponentPlayerIds.includes(player.id))
+    throw httpError(403, 'Only opponent pair can confirm this match');
+
+  confirmInFlight.add(matchId);
+  try {
+    const nextConfirmed = uniq([...(m.confirmedBy || []), player.id]);
+
+    // Confirm immediately (one opponent is enough)
+    const ratingResult = await markConfirmedAndApplyRatings(matchRec, {
+      [c.M_CONFIRMED_BY]: nextConfirmed,
+    });
+
+    notifyInitiator(matchId, c.STATUS_CONFIRMED, player.id);
+
+    return {
+      ok: true,
+      status: c.STATUS_CONFIRMED,
+      confirmedBy: nextConfirmed,
+      message: ratingResult.unranked
+        ? 'Friendly match confirmed (one opponent). Ratings unchanged.'
+        : `Match confirmed (one opponent). Ratings updated${marginNote(ratingResult)}.`,
+      ratingDeltaPair: ratingResult.deltaPair,
+      ratingDeltaPlayer: ratingResult.deltaPlayer,
+      ratingMultiplier: ratingResult.multiplier,
     };
+  } finally {
+    confirmInFlight.delete(matchId);
+  }
+}
+
+/**
+ * Opponent reject/dispute shared by the API routes and the bot's inline
+ * Dispute button. `status` is STATUS_REJECTED or STATUS_DISPUTED.
+ */
+// Throws unless `player` may still reject or dispute the match (`verb`).
+async function checkCanContest(matchId, player, verb) {
+  const c = cfg();
+  const m = normalizeMatch(await getRecord(c.T_MATCHES, matchId));
+
+  if (m.status === c.STATUS_CONFIRMED)
+    throw httpError(409, `Already confirmed. Cannot ${verb}.`);
+  if (
+    [
+      c.STATUS_VOIDED,
+      c.STATUS_PROPOSED,
+      c.STATUS_SCHEDULED,
+      c.STATUS_DECLINED,
+    ].includes(m.status)
+  )
+    throw httpError(409, `Match is ${m.status}. Cannot ${verb}.`);
+
+  const opponentPlayerIds = await opponentPlayerIdsFor(m);
+  if (!opponentPlayerIds.includes(player.id))
+    throw httpError(403, `Only opponent pair can ${verb} this match`);
+}
+
+async function contestMatchAs(matchId, player, status, reason) {
+  const c = cfg();
+  const verb = status === c.STATUS_REJECTED ? 'reject' : 'dispute';
+  await checkCanContest(matchId, player, verb);
+
+  await updateRecords(c.T_MATCHES, [
+    {
+      id: matchId,
+      fields: {
+        [c.M_STATUS]: status,
+        [c.M_DISPUTE_REASON]: reason || '',
+      },
+    },
+  ]);
+
+  notifyInitiator(matchId, status, player.id, reason);
+
+  return {
+    ok: true,
+    status,
+    message:
+      status === c.STATUS_REJECTED
+        ? 'Match rejected. No rating changes.'
+        : 'Match disputed. No rating changes.',
+  };
+}
+
+app.post('/api/matches/confirm', async (req, res) => {
+  const initData = getInitDataFromReq(req);
+  const { matchId } = req.body || {};
+
+  try {
+    if (!requireEnv(res)) return;
+
+    const { existing } = await getOrCreatePlayerByTelegram(initData);
+    if (!existing)
+      return res.status(403).json({ ok: false, error: 'You must Join' });
+
+    res.json(await confirmMatchAs(matchId, existing));
+  } catch (e) {
+    console.error('matches/confirm error:', e?.message, e?.details || '');
+    res
+      .status(e.status || 500)
+      .json({ ok: false, error: e.message, details: e.details || null });
+  }
+});
+
+app.post('/api/matches/reject', async (req, res) => {
+  try {
+    if (!requireEnv(res)) return;
+    const c = cfg();
+
+    const initData = getInitDataFromReq(req);
+    const { existing } = await getOrCreatePlayerByTelegram(initData);
+    if (!existing)
+      return res.status(403).json({ ok: false, error: 'You must Join' });
+
+    const { matchId, reason } = req.body || {};
+
+    res.json(
+      await contestMatchAs(matchId, existing, c.STATUS_REJECTED, reason)
+    );
+  } catch (e) {
+    console.error('matches/reject error:', e?.message, e?.details || '');
+    res
+      .status(e.status || 500)
+      .json({ ok: false, error: e.message, details: e.details || null });
+  }
+});
+
+app.post('/api/matches/dispute', async (req, res) => {
+  try {
+    if (!requireEnv(res)) return;
+    const c = cfg();
+
+    const initData = getInitDataFromReq(req);
+    const { existing } = await getOrCreatePlayerByTelegram(initData);
+    if (!existing)
+      return res.status(403).json({ ok: false, error: 'You must Join' });
+
+    const { matchId, reason } = req.body || {};
+
+    res.json(
+      await contestMatchAs(matchId, existing, c.STATUS_DISPUTED, reason)
+    );
+  } catch (e) {
+    console.error('matches/dispute error:', e?.message, e?.details || '');
+    res
+      .status(e.status || 500)
+      .json({ ok: false, error: e.message, details: e.details || null });
+  }
+});
+
+// ---------------- Challenges / scheduled matches ----------------
+
+app.post('/api/matches/challenge', async (req, res) => {
+  try {
+    if (!requireEnv(res)) return;
+    const c = cfg();
+
+    const initData = getInitDataFromReq(req);
+    const { existing } = await getOrCreatePlayerByTelegram(initData);
+    if (!existing)
+      return res.status(403).json({ ok: false, error: 'You must Join' });
+
+    const body = req.body || {};
+    await loadOpposingPairs(
+      body.myPairId,
+      body.oppPairId,
+      existing.id,
+      'challenge'
+    );
+    const { date, time, court } = parseSchedule(body);
+    const format = parseFormat(body.format);
+    const season = await activeSeason();
+
+    const created = await createRecords(c.T_MATCHES, [
+      {
+        fields: {
+          [c.M_SEASON]: season ? [season.id] : [],
+          [c.M_DATE]: date,
+          [c.M_TIME]: time,
+          [c.M_COURT]: court,
+          [c.M_PAIR1]: [body.myPairId],
+          [c.M_PAIR2]: [body.oppPairId],
+          [c.M_PROPOSED_BY]: [existing.id],
+          [c.M_FORMAT]: format.id,
+          [c.M_UNRANKED]: body.ranked !== undefined && !body.ranked,
+          [c.M_STATUS]: c.STATUS_PROPOSED,
+        },
+      },
+    ]);
+    const matchId = created?.records?.[0]?.id;
+    if (!matchId) throw new Error('Failed to create match');
+
+    notifyChallenge(matchId, existing.id, 'challenge');
+
+    res.json({
+      ok: true,
+      matchId,
+      status: c.STATUS_PROPOSED,
+      message: 'Challenge sent. Waiting for the other pair to respond.',
+    });
+  } catch (e) {
+    console.error('matches/challenge error:', e?.message, e?.details || '');
+    res
+      .status(e.status || 500)
+      .json({ ok: false, error: e.message, details: e.details || null });
+  }
+});
+
+/**
+ * Answer to a challenge: `accept`, `decline` or `propose` another
+ * date/time/court. A PROPOSED match is answered by the pair that did not make
+ * the latest proposal; a SCHEDULED match can be re-proposed or declined
+ * (cancelled) by either pair.
+ */
+app.post('/api/matches/respond', async (req, res) => {
+  try {
+    if (!requireEnv(res)) return;
+    const c = cfg();
+
+    const initData = getInitDataFromReq(req);
+    const { existing } = await getOrCreatePlayerByTelegram(initData);
+    if (!existing)
+      return res.status(403).json({ ok: false, error: 'You must Join' });
+
+    const body = req.body || {};
+    const { matchId, action } = body;
+
+    const m = normalizeMatch(await getRecord(c.T_MATCHES, matchId));
+    const pair1 = normalizePair(await getRecord(c.T_PAIRS, m.pair1));
+    const pair2 = normalizePair(await getRecord(c.T_PAIRS, m.pair2));
+    const players = uniq([
+      pair1.player1,
+      pair1.player2,
+      pair2.player1,
+      pair2.player2,
+    ]);
+    if (!players.includes(existing.id))
+      throw httpError(403, 'Only players of this match can respond');
+    if (action === 'decline' && m.tournament)
+      throw httpError(
+        409,
+        'Tournament matches cannot be declined or cancelled'
+      );
+
+    if (m.status === c.STATUS_PROPOSED) {
+      if (!proposalResponderIds(m, pair1, pair2).includes(existing.id))
+        throw httpError(409, 'Waiting for the other pair to respond');
+    } else if (m.status === c.STATUS_SCHEDULED) {
+      if (action === 'accept')
+        throw httpError(409, 'Match is already SCHEDULED');
+    } else {
+      throw httpError(409, `Match is ${m.status}. Nothing to respond to.`);
+    }
+
+    let fields;
+    if (action === 'accept') {
+      fields = { [c.M_STATUS]: c.STATUS_SCHEDULED };
+    } else if (action === 'decline') {
+      fields = { [c.M_STATUS]: c.STATUS_DECLINED };
+    } else {
+      const { date, time, court } = parseSchedule(body);
+      fields = {
+        [c.M_DATE]: date,
+        [c.M_TIME]: time,
+        [c.M_COURT]: court,
+        [c.M_PROPOSED_BY]: [existing.id],
+        [c.M_STATUS]: c.STATUS_PROPOSED,
+      };
+    }
+
+    await updateRecords(c.T_MATCHES, [{ id: matchId, fields }]);
+    notifyChallenge(matchId, existing.id, action);
+
+    res.json({ ok: true, status: fields[c.M_STATUS] });
+  } catch (e) {
+    console.error('matches/respond error:', e?.message, e?.details || '');
+    res
+      .status(e.status || 500)
+      .json({ ok: false, error: e.message, details: e.details || null });
+  }
+});
+
+// ---------------- Telegram bot ----------------
+
+/**
+ * The Dispute button asks for the reason with a force-reply prompt naming the
+ * match; the player's reply to it (handleDisputeReply) disputes the match.
+ */
+const disputePrompt = matchId =>
+  `⚠️ Dispute ${matchId}: reply to this message with what is wrong with the reported score.`;
+const DISPUTE_PROMPT_RE = /^⚠️ Dispute (\S+): reply to this message/;
+
+async function askDisputeReason(chatId, matchId, player) {
+  await checkCanContest(matchId, player, 'dispute');
+  await sendMessage(chatId, disputePrompt(matchId), {
+    force_reply: true,
+    input_field_placeholder: 'What is wrong with the score?',
+  });
+}
+
+// Inline Confirm / Dispute buttons sent by notifyMatchReported.
+async function handleCallbackQuery(cq) {
+  const [action, matchId] = String(cq.data || '').split(':');
+  if (!matchId || (action !== CB_CONFIRM && action !== CB_DISPUTE)) {
+    await answerCallbackQuery(cq.id, 'Unknown action');
+    return;
+  }
+
+  let reply;
+  let prompted = false;
+  try {
+    const player = await findPlayerByTelegramId(cq.from?.id);
+    if (!player) throw httpError(403, 'You must Join in the Mini App first');
+
+    if (action === CB_CONFIRM) {
+      reply = (await confirmMatchAs(matchId, player)).message;
+    } else {
+      const chatId = cq.message?.chat?.id || cq.from.id;
+      await askDisputeReason(chatId, matchId, player);
+      reply = 'Reply to the message below with the reason.';
+      prompted = true;
+    }
+  } catch (e) {
+    reply = e.message;
+    if (!e.status || e.status >= 500)
+      console.error('bot callback error:', e?.message, e?.details || '');
+  }
+
+  await answerCallbackQuery(cq.id, reply);
+  // The report message stays as it is until the reason comes in.
+  if (prompted) return;
+  if (cq.message?.chat?.id && cq.message?.message_id) {
+    await editMessageText(
+      cq.message.chat.id,
+      cq.message.message_id,
+      `${escapeHtml(cq.message.text || '')}\n\n${escapeHtml(reply)}`
+    ).catch(e => console.error('bot edit error:', e?.message));
+  }
+}
+
+function winLoss(p) {
+  return `${p.wins}W/${p.losses}L`;
+}
+
+function friendlyWinLoss(p) {
+  return `${p.friendlyWins}W/${p.friendlyLosses}L`;
+}
+
+async function botTop() {
+  const c = cfg();
+  const players = (
+    await listAll(c.T_PLAYERS, {
+      sort: [{ field: c.P_INDIV_RATING, direction: 'desc' }],
+    })
+  ).map(normalizePlayer);
+  if (!players.length) return { text: 'No players yet.' };
+
+  const lines = players
+    .slice(0, 10)
+    .map(
+      (p, i) =>
+        `${i + 1}. ${escapeHtml(p.name)} — <b>${p.rating}</b>` +
+        `${p.provisional ? '?' : ''} (${winLoss(p)})`
+    );
+  const note = players.slice(0, 10).some(p => p.provisional)
+    ? '\n\n? = provisional rating, still settling'
+    : '';
+  return { text: `🏆 <b>Leaderboard</b>\n\n${lines.join('\n')}${note}` };
+}
+
+async function botMe(playerRec) {
+  const c = cfg();
+  const me = normalizePlayer(playerRec);
+  const players = (
+    await listAll(c.T_PLAYERS, {
+      sort: [{ field: c.P_INDIV_RATING, direction: 'desc' }],
+    })
+  ).map(normalizePlayer);
+  const rank = players.findIndex(p => p.id === me.id) + 1;
+
+  return {
+    text:
+      `👤 <b>${escapeHtml(me.name)}</b>\n` +
+      `Rating: <b>${me.rating}</b>${me.provisional ? ' (provisional)' : ''}\n` +
+      `Rank: #${rank || '—'} of ${players.length}\n` +
+      `Record: ${winLoss(me)} in ${me.gamesPlayed} games` +
+      (me.friendlyWins || me.friendlyLosses
+        ? `\nFriendlies: ${friendlyWinLoss(me)}`
+        : ''),
+  };
+}
+
+// Matches reported against the caller that they can still confirm or dispute.
+async function botPending(playerRec) {
+  const c = cfg();
+  const matches = await listAll(c.T_MATCHES, {
+    where: { [c.M_STATUS]: c.STATUS_PENDING },
+    sort: [{ field: c.M_DATE, direction: 'asc' }],
+  });
+  const views = (await expandMatches(matches)).filter(m =>
+    m.opponentPlayerIds.includes(playerRec.id)
+  );
+  if (!views.length)
+    return { text: 'Nothing is waiting for your confirmation.' };
+
+  const names = p =>
+    [p?.player1Obj?.name, p?.player2Obj?.name]
+      .map(n => escapeHtml(n || '—'))
+      .join(' + ');
+  const lines = views.map(
+    (m, i) =>
+      `${i + 1}. ${escapeHtml(m.date || '')} <b>${names(m.pair1Obj)}</b> vs <b>${names(m.pair2Obj)}</b> — ${escapeHtml(m.score || '—')}`
+  );
+  const keyboard = {
+    inline_keyboard: views.map((m, i) => [
+      { text: `✅ Confirm #${i + 1}`, callback_data: `${CB_CONFIRM}:${m.id}` },
+      { text: `⚠️ Dispute #${i + 1}`, callback_data: `${CB_DISPUTE}:${m.id}` },
+    ]),
+  };
+  return {
+    text: `⏳ <b>Awaiting your confirmation</b>\n\n${lines.join('\n')}`,
+    replyMarkup: keyboard,
+  };
+}
+
+const BOT_HELP =
+  'Commands:\n' +
+  '/top — player leaderboard\n' +
+  '/pending — matches awaiting your confirmation\n' +
+  '/me — your rating, record and rank';
+
+// A reply to the bot's dispute prompt: its text is the reason.
+async function handleDisputeReply(msg, matchId) {
+  const c = cfg();
+  const reason = String(msg.text || '').trim();
+  let reply;
+  try {
+    const player = await findPlayerByTelegramId(msg.from?.id);
+    if (!player) throw httpError(403, 'You must Join in the Mini App first');
+    if (!reason)
+      throw httpError(400, 'Reply with the reason as text to dispute.');
+    reply = (await contestMatchAs(matchId, player, c.STATUS_DISPUTED, reason))
+      .message;
+  } catch (e) {
+    reply = e.message;
+    if (!e.status || e.status >= 500)
+      console.error('bot dispute error:', e?.message, e?.details || '');
+  }
+  await sendMessage(msg.chat.id, escapeHtml(reply));
+}
+
+async function handleMessage(msg) {
+  const text = String(msg.text || '').trim();
+  if (!msg.chat?.id) return;
+
+  const prompt = msg.reply_to_message;
+  const disputed =
+    prompt?.from?.is_bot && DISPUTE_PROMPT_RE.exec(prompt.text || '');
+  if (disputed && !text.startsWith('/'))
+    return handleDisputeReply(msg, disputed[1]);
+  if (!text.startsWith('/')) return;
+
+  // "/top@PadelBot args" -> "top"
+  const command = text.slice(1).split(/\s+/)[0].split('@')[0].toLowerCase();
+
+  let reply;
+  if (command === 'top') {
+    reply = await botTop();
+  } else if (command === 'me' || command === 'pending') {
+    const player = await findPlayerByTelegramId(msg.from?.id);
+    if (!player) {
+      reply = {
+        text: 'You are not in the league yet. Open the Mini App and tap Join.',
+      };
+    } else {
+      reply = command === 'me' ? await botMe(player) : await botPending(player);
+    }
+  } else {
+    reply = { text: BOT_HELP };
+  }
+
+  await sendMessage(msg.chat.id, reply.text, reply.replyMarkup);
+}
+
+// Telegram sends X-Telegram-Bot-Api-Secret-Token when the webhook is set with secret_token.
+app.post('/api/telegram/webhook', async (req, res) => {
+  const c = cfg();
+  if (!c.BOT_TOKEN || !c.TELEGRAM_WEBHOOK_SECRET)
+    return res.status(500).json({
+      ok: false,
+      error: 'Missing env: BOT_TOKEN, TELEGRAM_WEBHOOK_SECRET',
+    });
+  if (
+    req.headers['x-telegram-bot-api-secret-token'] !== c.TELEGRAM_WEBHOOK_SECRET
+  )
+    return res.status(401).json({ ok: false, error: 'Invalid secret token' });
+
+  const update = req.body || {};
+  try {
+    if (update.callback_query) await handleCallbackQuery(update.callback_query);
+    else if (update.message) await handleMessage(update.message);
+  } catch (e) {
+    console.error('telegram/webhook error:', e?.message, e?.details || '');
+  }
+  // Always 200 so Telegram does not redeliver the update.
+  res.json({ ok: true });
+});
+
+app.post('/api/ratings/history', async (req, res) => {
+  try {
+    if (!requireEnv(res)) return;
+    validateTelegramInitDataOrThrow(getInitDataFromReq(req));
+
+    const { playerId, pairId } = req.body || {};
+    if (!playerId === !pairId)
+      return res.status(400).json({
+        ok: false,
+        error: 'Provide exactly one of playerId or pairId',
+      });
+
+    const c = cfg();
+    const entityType = playerId ? 'player' : 'pair';
+    const entityId = playerId || pairId;
+
+    const records = await listAll(c.T_RATING_HISTORY, {
+      where: { [c.RH_ENTITY_TYPE]: entityType, [c.RH_ENTITY_ID]: entityId },
+    });
+
+    const history = records
+      .map(normalizeRatingChange)
+      .sort(
+        (a, b) =>
+          String(a.date || '').localeCompare(String(b.date || '')) ||
+          ledgerOrder(a, b)
+      );
+
+    res.json({ ok: true, entityType, entityId, history });
+  } catch (e) {
+    console.error('ratings/history error:', e?.message, e?.details || '');
+    res
+      .status(e.status || 500)
+      .json({ ok: false, error: e.message, details: e.details || null });
+  }
+});
+
+// ---------------- Seasons ----------------
+
+// All seasons (oldest first) with the champions of the closed ones.
+app.post('/api/seasons', async (req, res) => {
+  try {
+    if (!requireEnv(res)) return;
+    validateTelegramInitDataOrThrow(getInitDataFromReq(req));
+    const c = cfg();
+
+    const seasons = await listSeasons();
+    const out = [];
+    for (const s of seasons) {
+      const top =
+        s.status === c.SEASON_CLOSED
+          ? (await seasonStandings(s.id)).filter(x => x.rank === 1)
+          : [];
+      out.push({
+        ...s,
+        champions: {
+          player: top.find(x => x.entityType === 'player')?.name || null,
+          pair: top.find(x => x.entityType === 'pair')?.name || null,
+        },
+      });
+    }
+
+    res.json({ ok: true, seasons: out });
+  } catch (e) {
+    console.error('seasons error:', e?.message, e?.details || '');
+    res
+      .status(e.status || 500)
+      .json({ ok: false, error: e.message, details: e.details || null });
+  }
+});
+
+// Archived final table of a closed season.
+app.post('/api/seasons/standings', async (req, res) => {
+  try {
+    if (!requireEnv(res)) return;
+    validateTelegramInitDataOrThrow(getInitDataFromReq(req));
+
+    const { seasonId } = req.body || {};
+    const standings = await seasonStandings(seasonId);
+    res.json({
+      ok: true,
+      seasonId,
+      players: standings.filter(s => s.entityType === 'player'),
+      pairs: standings.filter(s => s.entityType === 'pair'),
+    });
+  } catch (e) {
+    console.error('seasons/standings error:', e?.message, e?.details || '');
+    res
+      .status(e.status || 500)
+      .json({ ok: false, error: e.message, details: e.details || null });
+  }
+});
+
+// ---------------- Tournaments ----------------
+
+app.post('/api/tournaments', async (req, res) => {
+  try {
+    if (!requireEnv(res)) return;
+    validateTelegramInitDataOrThrow(getInitDataFromReq(req));
+    res.json({ ok: true, tournaments: await listTournaments() });
+  } catch (e) {
+    console.error('tournaments error:', e?.message, e?.details || '');
+    res
+      .status(e.status || 500)
+      .json({ ok: false, error: e.message, details: e.details || null });
+  }
+});
+
+// Group tables and bracket of one tournament.
+app.post('/api/tournaments/view', async (req, res) => {
+  try {
+    if (!requireEnv(res)) return;
+    validateTelegramInitDataOrThrow(getInitDataFromReq(req));
+
+    const { tournamentId } = req.body || {};
+    res.json({ ok: true, ...(await tournamentView(tournamentId)) });
+  } catch (e) {
+    console.error('tournaments/view error:', e?.message, e?.details || '');
+    res
+      .status(e.status || 500)
+      .json({ ok: false, error: e.message, details: e.details || null });
+  }
+});
+
+// ---------------- Sessions (Americano / Mexicano) ----------------
+
+app.post('/api/sessions', async (req, res) => {
+  try {
+    if (!requireEnv(res)) return;
+    validateTelegramInitDataOrThrow(getInitDataFromReq(req));
+    res.json({ ok: true, sessions: await listSessions() });
+  } catch (e) {
+    console.error('sessions error:', e?.message, e?.details || '');
+    res
+      .status(e.status || 500)
+      .json({ ok: false, error: e.message, details: e.details || null });
+  }
+});
+
+// Rounds, scores and the live leaderboard of one session.
+app.post('/api/sessions/view', async (req, res) => {
+  try {
+    if (!requireEnv(res)) return;
+    validateTelegramInitDataOrThrow(getInitDataFromReq(req));
+
+    const { sessionId } = req.body || {};
+    res.json({ ok: true, ...(await sessionView(sessionId)) });
+  } catch (e) {
+    console.error('sessions/view error:', e?.message, e?.details || '');
+    res
+      .status(e.status || 500)
+      .json({ ok: false, error: e.message, details: e.details || null });
+  }
+});
+
+app.post('/api/sessions/create', async (req, res) => {
+  try {
+    if (!requireEnv(res)) return;
+    const { existing } = await getOrCreatePlayerByTelegram(
+      getInitDataFromReq(req)
+    );
+    if (!existing)
+      return res.status(403).json({ ok: false, error: 'You must Join' });
+
+    const session = await createSession(
+      req.body || {},
+      normalizePlayer(existing)
+    );
+    res.json({ ok: true, session, ...(await sessionView(session.id)) });
+  } catch (e) {
+    console.error('sessions/create error:', e?.message, e?.details || '');
+    res
+      .status(e.status || 500)
+      .json({ ok: false, error: e.message, details: e.details || null });
+  }
+});
+
+app.post('/api/sessions/score', async (req, res) => {
+  try {
+    if (!requireEnv(res)) return;
+    const { user, existing } = await getOrCreatePlayerByTelegram(
+      getInitDataFromReq(req)
+    );
+    if (!existing)
+      return res.status(403).json({ ok: false, error: 'You must Join' });
+
+    const { gameId, points1, points2 } = req.body || {};
+
+    const view = await scoreSessionGame(
+      gameId,
+      { points1, points2 },
+      normalizePlayer(existing),
+      isAdminTelegramId(user.id)
+    );
+    res.json({ ok: true, ...view });
+  } catch (e) {
+    console.error('sessions/score error:', e?.message, e?.details || '');
+    res
+      .status(e.status || 500)
+      .json({ ok: false, error: e.message, details: e.details || null });
+  }
+});
+
+// Ends the session; a rated session updates individual ratings.
+app.post('/api/sessions/finish', async (req, res) => {
+  try {
+    if (!requireEnv(res)) return;
+    const { user, existing } = await getOrCreatePlayerByTelegram(
+      getInitDataFromReq(req)
+    );
+    if (!existing)
+      return res.status(403).json({ ok: false, error: 'You must Join' });
+
+    const { sessionId } = req.body || {};
+    const result = await withSettledRatings(() =>
+      finishSession(
+        sessionId,
+        normalizePlayer(existing),
+        isAdminTelegramId(user.id)
+      )
+    );
+    res.json({ ok: true, ...result });
+  } catch (e) {
+    console.error('sessions/finish error:', e?.message, e?.details || '');
+    res
+      .status(e.status || 500)
+      .json({ ok: false, error: e.message, details: e.details || null });
+  }
+});
 
-    const out = matches.map(r => {
-      const m = normalizeMatch(r);
-      const pair1Obj = expandPair(m.pair1);
-      const pair2Obj = expandPair(m.pair2);
-      const ss = setNorm
-        .filter(x => x.match === m.id)
-        .sort((a, b) => a.setNo - b.setNo);
+// ---------------- Admin ----------------
 
-      const opponentPlayerIds = uniq([pair2Obj?.player1, pair2Obj?.player2]);
-      const confirmedBy = uniq(m.confirmedBy);
+app.post('/api/admin/disputes', async (req, res) => {
+  try {
+    if (!requireEnv(res)) return;
+    await requireAdmin(getInitDataFromReq(req));
+    const c = cfg();
 
-      return {
-        ...m,
-        pair1Obj,
-        pair2Obj,
-        setScores: ss,
-        opponentPlayerIds,
-        confirmedBy,
-      };
+    const matches = await listAll(c.T_MATCHES, {
+      sort: [{ field: c.M_DATE, direction: 'asc' }],
+    });
+    const queue = matches.filter(r => {
+      const status = normalizeMatch(r).status;
+      return status === c.STATUS_DISPUTED || status === c.STATUS_REJECTED;
     });
 
-    res.json({ ok: true, matches: out });
+    res.json({ ok: true, matches: await expandMatches(queue) });
   } catch (e) {
-    console.error('matches error:', e?.message, e?.details || '');
+    console.error('admin/disputes error:', e?.message, e?.details || '');
     res
       .status(e.status || 500)
       .json({ ok: false, error: e.message, details: e.details || null });
   }
 });
 
-app.post('/api/matches/report', async (req, res) => {
+/**
+ * Resolves a DISPUTED/REJECTED match:
+ *   uphold  - confirm the reported score and apply ratings
+ *   correct - replace the set scores with `sets`, then confirm and apply ratings
+ *   void    - mark the match VOIDED, no rating changes
+ * The original dispute reason is kept; the decision goes to Resolution/Resolved By/At.
+ */
+app.post('/api/admin/matches/resolve', async (req, res) => {
   try {
     if (!requireEnv(res)) return;
     const c = cfg();
-    const initData = getInitDataFromReq(req);
-    const { existing } = await getOrCreatePlayerByTelegram(initData);
-    if (!existing)
-      return res
-        .status(403)
-        .json({ ok: false, error: 'You must Join before reporting matches' });
-
-    const body = req.body || {};
-    const myPairId = body.myPairId;
-    const oppPairId = body.oppPairId;
-    const sets = Array.isArray(body.sets) ? body.sets : [];
-
-    if (!myPairId || !oppPairId)
-      return res
-        .status(400)
-        .json({ ok: false, error: 'myPairId and oppPairId are required' });
-    if (myPairId === oppPairId)
-      return res
-        .status(400)
-        .json({ ok: false, error: 'Opponent pair must be different' });
+    const { existing } = await requireAdmin(getInitDataFromReq(req));
 
-    if (sets.length < 2 || sets.length > 3)
-      return res.status(400).json({ ok: false, error: 'Provide 2 or 3 sets' });
+    const { matchId, action, sets, note } = req.body || {};
 
-    const parsedSets = sets.map((s, i) => {
-      const { p1, p2 } = validateSetGames(s.p1, s.p2, i + 1);
-      return { setNo: i + 1, p1, p2 };
-    });
-
-    const first2 = parsedSets.slice(0, 2).reduce(
-      (acc, s) => {
-        if (s.p1 > s.p2) acc.p1++;
-        else acc.p2++;
-        return acc;
-      },
-      { p1: 0, p2: 0 }
-    );
-    if (first2.p1 === 1 && first2.p2 === 1 && parsedSets.length !== 3) {
-      return res
-        .status(400)
-        .json({ ok: false, error: 'First two sets are 1-1. Provide 3rd set.' });
-    }
-    if ((first2.p1 === 2 || first2.p2 === 2) && parsedSets.length === 3) {
-      return res
-        .status(400)
-        .json({
-          ok: false,
-          error: 'Match decided in 2 sets. Do not provide 3rd set.',
-        });
-    }
+    const matchRec = await getRecord(c.T_MATCHES, matchId);
+    const m = normalizeMatch(matchRec);
 
-    const myPairRec = await getRecord(c.T_PAIRS, myPairId);
-    const oppPairRec = await getRecord(c.T_PAIRS, oppPairId);
-    const myPair = normalizePair(myPairRec);
-    const oppPair = normalizePair(oppPairRec);
+    if (m.status !== c.STATUS_DISPUTED && m.status !== c.STATUS_REJECTED)
+      return res.status(409).json({
+        ok: false,
+        error: `Match is ${m.status}. Only disputed or rejected matches can be resolved.`,
+      });
 
-    const myPlayers = [myPair.player1, myPair.player2].filter(Boolean);
-    const oppPlayers = [oppPair.player1, oppPair.player2].filter(Boolean);
+    const decision = {
+      [c.M_RESOLVED_BY]: existing ? [existing.id] : [],
+      [c.M_RESOLVED_AT]: new Date().toISOString(),
+      [c.M_ADMIN_NOTE]: note || '',
+    };
 
-    if (myPlayers.length !== 2 || oppPlayers.length !== 2) {
-      return res
-        .status(400)
-        .json({ ok: false, error: 'Both pairs must have exactly 2 players' });
+    if (action === 'void') {
+      await updateRecords(c.T_MATCHES, [
+        {
+          id: matchId,
+          fields: {
+            ...decision,
+            [c.M_STATUS]: c.STATUS_VOIDED,
+            [c.M_RESOLUTION]: c.RESOLUTION_VOIDED,
+          },
+        },
+      ]);
+      // A voided knockout match is regenerated for its slot.
+      if (m.tournament) await syncTournament(m.tournament);
+      return res.json({
+        ok: true,
+        status: c.STATUS_VOIDED,
+        resolution: c.RESOLUTION_VOIDED,
+        message: 'Match voided. No rating changes.',
+      });
     }
 
-    if (!myPlayers.includes(existing.id)) {
-      return res
-        .status(403)
-        .json({
-          ok: false,
-          error: 'You can only report match for a pair you belong to',
-        });
-    }
+    const fields = {
+      ...decision,
+      [c.M_RESOLUTION]: c.RESOLUTION_UPHELD,
+    };
 
-    if (setIntersection(myPlayers, oppPlayers)) {
-      return res
-        .status(400)
-        .json({ ok: false, error: 'Same player cannot appear in both pairs' });
+    // The corrected sets are written under the ratings lock, once the match
+    // is known to be still unresolved.
+    let newSets;
+    if (action === 'correct') {
+      const format = matchFormat(m.format) || matchFormat();
+      newSets = parseMatchSets(sets, format);
+      fields[c.M_SCORE] = formatScoreText(format, newSets);
+      fields[c.M_RESOLUTION] = c.RESOLUTION_CORRECTED;
     }
 
-    const dateISO = body.date || new Date().toISOString().slice(0, 10);
-    const scoreText = parsedSets.map(s => `${s.p1}-${s.p2}`).join(' ');
-
-    const matchCreate = await createRecords(c.T_MATCHES, [
-      {
-        fields: {
-          [c.M_DATE]: dateISO,
-          [c.M_TIME]: body.time || '',
-          [c.M_PAIR1]: [myPairId],
-          [c.M_PAIR2]: [oppPairId],
-          [c.M_INITIATED_BY]: [existing.id],
-          [c.M_SCORE]: scoreText,
-          [c.M_STATUS]: c.STATUS_PENDING,
-        },
-      },
-    ]);
-
-    const matchRec = matchCreate?.records?.[0];
-    if (!matchRec?.id) throw new Error('Failed to create match');
-    const matchId = matchRec.id;
-
-    const setRecords = parsedSets.map(s => {
-      const winnerPair = s.p1 > s.p2 ? myPairId : oppPairId;
-      return {
-        fields: {
-          [c.S_MATCH]: [matchId],
-          [c.S_SET_NO]: s.setNo,
-          [c.S_P1]: s.p1,
-          [c.S_P2]: s.p2,
-          [c.S_WINNER_PAIR]: [winnerPair],
-        },
-      };
+    const ratingResult = await markConfirmedAndApplyRatings(matchRec, fields, {
+      newSets,
     });
 
-    await createRecords(c.T_SETSCORES, setRecords);
-
     res.json({
       ok: true,
-      matchId,
-      status: c.STATUS_PENDING,
+      status: c.STATUS_CONFIRMED,
+      resolution: fields[c.M_RESOLUTION],
       message:
-        'Match created. Waiting for opponent confirmation (one player is enough).',
+        (action === 'correct'
+          ? 'Score corrected and match confirmed. '
+          : 'Reported score upheld and match confirmed. ') +
+        (ratingResult.unranked
+          ? 'Friendly match, ratings unchanged.'
+          : `Ratings updated${marginNote(ratingResult)}.`),
+      ratingDeltaPair: ratingResult.deltaPair,
+      ratingDeltaPlayer: ratingResult.deltaPlayer,
+      ratingMultiplier: ratingResult.multiplier,
     });
   } catch (e) {
-    console.error('matches/report error:', e?.message, e?.details || '');
+    console.error('admin/matches/resolve error:', e?.message, e?.details || '');
     res
       .status(e.status || 500)
       .json({ ok: false, error: e.message, details: e.details || null });
   }
 });
 
-// --- NEW: one opponent confirmation is enough ---
-const confirmInFlight = new Set();
-
-app.post('/api/matches/confirm', async (req, res) => {
-  const c = cfg();
-  const initData = getInitDataFromReq(req);
-  const { matchId } = req.body || {};
-
+/**
+ * Voids a match in any status but VOIDED. For a ranked CONFIRMED match the
+ * rating, W/L and GP changes it caused are rolled back first, replaying later
+ * matches of the same players and pairs (see rollbackMatchRatings); that is
+ * refused (409) once its season is closed. A confirmed friendly has its
+ * friendly W/L taken back. `dryRun` returns the rating diff only.
+ */
+app.post('/api/admin/matches/void', async (req, res) => {
   try {
     if (!requireEnv(res)) return;
+    const c = cfg();
+    const { existing } = await requireAdmin(getInitDataFromReq(req));
 
-    const { existing } = await getOrCreatePlayerByTelegram(initData);
-    if (!existing)
-      return res.status(403).json({ ok: false, error: 'You must Join' });
-    if (!matchId)
-      return res.status(400).json({ ok: false, error: 'matchId is required' });
-
-    if (confirmInFlight.has(matchId)) {
-      return res.json({
-        ok: true,
-        status: 'PROCESSING',
-        message: 'Confirmation is being processed. Refresh in a moment.',
-      });
-    }
+    const { matchId, note, dryRun } = req.body || {};
 
     const matchRec = await getRecord(c.T_MATCHES, matchId);
     const m = normalizeMatch(matchRec);
-
-    if (m.status === c.STATUS_DISPUTED || m.status === c.STATUS_REJECTED) {
+    if (m.status === c.STATUS_VOIDED)
       return res
         .status(409)
-        .json({ ok: false, error: `Match is ${m.status}. Cannot confirm.` });
-    }
-    if (m.status === c.STATUS_CONFIRMED) {
-      return res.json({
-        ok: true,
-        status: c.STATUS_CONFIRMED,
-        message: 'Already confirmed',
-      });
-    }
-    if (!m.pair2)
-      return res
-        .status(500)
-        .json({ ok: false, error: 'Match missing opponent pair' });
-
-    const oppPairRec = await getRecord(c.T_PAIRS, m.pair2);
-    const oppPair = normalizePair(oppPairRec);
-    const opponentPlayerIds = uniq([oppPair.player1, oppPair.player2]);
-
-    if (!opponentPlayerIds.includes(existing.id)) {
-      return res
-        .status(403)
-        .json({
-          ok: false,
-          error: 'Only opponent pair can confirm this match',
+        .json({ ok: false, error: 'Match is already VOIDED' });
+
+    // Under the rating lock so a pending rating plan is applied before it is undone
+    const rollback = await withSettledRatings(async () => {
+      let result = null;
+      if (m.status === c.STATUS_CONFIRMED && m.ranked) {
+        // Closed seasons are archived and their soft-reset already applied.
+        const rankOf = seasonRanker(await listSeasons());
+        const closed = rankOf.seasons.find(
+          s =>
+            s.status === c.SEASON_CLOSED && rankOf.rankById[s.id] >= rankOf(m)
+        );
+        if (closed)
+          throw httpError(
+            409,
+            `Season "${closed.name}" is closed. Its matches cannot be voided.`
+          );
+
+        result = await rollbackMatchRatings(matchId, {
+          dryRun: Boolean(dryRun),
         });
-    }
+        if (result.needsRecompute && !dryRun)
+          console.warn(
+            `void ${matchId}: no rating history, run recompute-ratings to fix ratings`
+          );
+      }
+      if (dryRun) return result;
 
-    confirmInFlight.add(matchId);
-    try {
-      const nextConfirmed = uniq([...(m.confirmedBy || []), existing.id]);
+      if (m.status === c.STATUS_CONFIRMED && !m.ranked)
+        await applyFriendlyResult(matchRec, await loadSetsForMatch(matchId), {
+          undo: true,
+        });
 
-      // Confirm immediately (one opponent is enough)
       await updateRecords(c.T_MATCHES, [
         {
           id: matchId,
           fields: {
-            [c.M_STATUS]: c.STATUS_CONFIRMED,
-            [c.M_CONFIRMED_BY]: nextConfirmed,
+            [c.M_STATUS]: c.STATUS_VOIDED,
+            [c.M_RESOLUTION]: c.RESOLUTION_VOIDED,
+            [c.M_RESOLVED_BY]: existing ? [existing.id] : [],
+            [c.M_RESOLVED_AT]: new Date().toISOString(),
+            [c.M_ADMIN_NOTE]: note || '',
           },
         },
       ]);
+      return result;
+    });
+    if (dryRun) return res.json({ ok: true, dryRun: true, rollback });
 
-      const allSets = await listAll(c.T_SETSCORES, { maxRecords: 2000 });
-      const setsForMatch = allSets.filter(
-        r => normalizeSetScore(r).match === matchId
-      );
-
-      const ratingResult = await applyRatingsForMatch(matchRec, setsForMatch);
+    if (m.tournament) await syncTournament(m.tournament);
 
-      return res.json({
-        ok: true,
-        status: c.STATUS_CONFIRMED,
-        confirmedBy: nextConfirmed,
-        message: 'Match confirmed (one opponent). Ratings updated.',
-        ratingDeltaPair: ratingResult.deltaPair,
-        ratingDeltaPlayer: ratingResult.deltaPlayer,
-      });
-    } finally {
-      confirmInFlight.delete(matchId);
-    }
+    res.json({
+      ok: true,
+      status: c.STATUS_VOIDED,
+      rollback,
+      message: !rollback
+        ? 'Match voided. No rating changes.'
+        : rollback.needsRecompute
+          ? 'Match voided. It has no rating history, so ratings were not rolled back. Run a rating recompute.'
+          : `Match voided. Ratings rolled back, ${rollback.replayedMatches.length} later match(es) replayed.`,
+    });
   } catch (e) {
-    console.error('matches/confirm error:', e?.message, e?.details || '');
+    console.error('admin/matches/void error:', e?.message, e?.details || '');
     res
       .status(e.status || 500)
       .json({ ok: false, error: e.message, details: e.details || null });
   }
 });
 
-app.post('/api/matches/reject', async (req, res) => {
+// Organizer actions: create, register pairs, start (generates matches).
+app.post('/api/admin/tournaments/create', async (req, res) => {
   try {
     if (!requireEnv(res)) return;
-    const c = cfg();
-
-    const initData = getInitDataFromReq(req);
-    const { existing } = await getOrCreatePlayerByTelegram(initData);
-    if (!existing)
-      return res.status(403).json({ ok: false, error: 'You must Join' });
-
-    const { matchId, reason } = req.body || {};
-    if (!matchId)
-      return res.status(400).json({ ok: false, error: 'matchId is required' });
-
-    const matchRec = await getRecord(c.T_MATCHES, matchId);
-    const m = normalizeMatch(matchRec);
-
-    if (m.status === c.STATUS_CONFIRMED)
-      return res
-        .status(409)
-        .json({ ok: false, error: 'Already confirmed. Cannot reject.' });
-    if (!m.pair2)
-      return res
-        .status(500)
-        .json({ ok: false, error: 'Match missing opponent pair' });
-
-    const oppPairRec = await getRecord(c.T_PAIRS, m.pair2);
-    const oppPair = normalizePair(oppPairRec);
-    const opponentPlayerIds = uniq([oppPair.player1, oppPair.player2]);
+    await requireAdmin(getInitDataFromReq(req));
+    res.json({ ok: true, tournament: await createTournament(req.body || {}) });
+  } catch (e) {
+    console.error(
+      'admin/tournaments/create error:',
+      e?.message,
+      e?.details || ''
+    );
+    res
+      .status(e.status || 500)
+      .json({ ok: false, error: e.message, details: e.details || null });
+  }
+});
 
-    if (!opponentPlayerIds.includes(existing.id)) {
-      return res
-        .status(403)
-        .json({ ok: false, error: 'Only opponent pair can reject this match' });
-    }
+app.post('/api/admin/tournaments/register', async (req, res) => {
+  try {
+    if (!requireEnv(res)) return;
+    await requireAdmin(getInitDataFromReq(req));
 
-    await updateRecords(c.T_MATCHES, [
-      {
-        id: matchId,
-        fields: {
-          [c.M_STATUS]: c.STATUS_REJECTED,
-          [c.M_DISPUTE_REASON]: reason || '',
-        },
-      },
-    ]);
+    const { tournamentId, pairIds } = req.body || {};
 
     res.json({
       ok: true,
-      status: c.STATUS_REJECTED,
-      message: 'Match rejected. No rating changes.',
+      tournament: await registerPairs(tournamentId, pairIds),
     });
   } catch (e) {
-    console.error('matches/reject error:', e?.message, e?.details || '');
+    console.error(
+      'admin/tournaments/register error:',
+      e?.message,
+      e?.details || ''
+    );
     res
       .status(e.status || 500)
       .json({ ok: false, error: e.message, details: e.details || null });
   }
 });
 
-app.post('/api/matches/dispute', async (req, res) => {
+app.post('/api/admin/tournaments/start', async (req, res) => {
   try {
     if (!requireEnv(res)) return;
-    const c = cfg();
+    await requireAdmin(getInitDataFromReq(req));
 
-    const initData = getInitDataFromReq(req);
-    const { existing } = await getOrCreatePlayerByTelegram(initData);
-    if (!existing)
-      return res.status(403).json({ ok: false, error: 'You must Join' });
+    const { tournamentId } = req.body || {};
+    res.json({ ok: true, tournament: await startTournament(tournamentId) });
+  } catch (e) {
+    console.error(
+      'admin/tournaments/start error:',
+      e?.message,
+      e?.details || ''
+    );
+    res
+      .status(e.status || 500)
+      .json({ ok: false, error: e.message, details: e.details || null });
+  }
+});
 
-    const { matchId, reason } = req.body || {};
-    if (!matchId)
-      return res.status(400).json({ ok: false, error: 'matchId is required' });
+app.post('/api/admin/seasons/create', async (req, res) => {
+  try {
+    if (!requireEnv(res)) return;
+    await requireAdmin(getInitDataFromReq(req));
 
-    const matchRec = await getRecord(c.T_MATCHES, matchId);
-    const m = normalizeMatch(matchRec);
+    const { name, startDate, endDate } = req.body || {};
+    const season = await createSeason({ name, startDate, endDate });
+    res.json({ ok: true, season });
+  } catch (e) {
+    console.error('admin/seasons/create error:', e?.message, e?.details || '');
+    res
+      .status(e.status || 500)
+      .json({ ok: false, error: e.message, details: e.details || null });
+  }
+});
 
-    if (m.status === c.STATUS_CONFIRMED)
-      return res
-        .status(409)
-        .json({ ok: false, error: 'Already confirmed. Cannot dispute.' });
-    if (!m.pair2)
-      return res
-        .status(500)
-        .json({ ok: false, error: 'Match missing opponent pair' });
+/**
+ * Closes the active season: archives standings, then soft-resets ratings by
+ * `softReset` (0..1) and zeroes W/L/GP (see closeSeason). `dryRun` returns
+ * the summary only.
+ */
+app.post('/api/admin/seasons/close', async (req, res) => {
+  try {
+    if (!requireEnv(res)) return;
+    await requireAdmin(getInitDataFromReq(req));
 
-    const oppPairRec = await getRecord(c.T_PAIRS, m.pair2);
-    const oppPair = normalizePair(oppPairRec);
-    const opponentPlayerIds = uniq([oppPair.player1, oppPair.player2]);
+    const { seasonId, softReset, dryRun } = req.body || {};
 
-    if (!opponentPlayerIds.includes(existing.id)) {
-      return res
-        .status(403)
-        .json({
-          ok: false,
-          error: 'Only opponent pair can dispute this match',
-        });
-    }
+    const summary = await withSettledRatings(() =>
+      closeSeason(seasonId, {
+        softReset: softReset ?? 0,
+        dryRun: Boolean(dryRun),
+      })
+    );
+    res.json({ ok: true, ...summary });
+  } catch (e) {
+    console.error('admin/seasons/close error:', e?.message, e?.details || '');
+    res
+      .status(e.status || 500)
+      .json({ ok: false, error: e.message, details: e.details || null });
+  }
+});
 
-    await updateRecords(c.T_MATCHES, [
-      {
-        id: matchId,
-        fields: {
-          [c.M_STATUS]: c.STATUS_DISPUTED,
-          [c.M_DISPUTE_REASON]: reason || '',
-        },
-      },
-    ]);
+/**
+ * Rebuilds every rating from the confirmed matches and rated sessions (see
+ * recomputeAllRatings). Runs after the pending rating writes, and reloads the
+ * read model first so hand edits made in Airtable are part of the replay.
+ * `dryRun` (the default) returns the diff only.
+ */
+app.post('/api/admin/ratings/recompute', async (req, res) => {
+  try {
+    if (!requireEnv(res)) return;
+    await requireAdmin(getInitDataFromReq(req));
 
-    res.json({
-      ok: true,
-      status: c.STATUS_DISPUTED,
-      message: 'Match disputed. No rating changes.',
+    const { dryRun } = req.body || {};
+    const summary = await withSettledRatings(async () => {
+      await resyncReadModel();
+      return recomputeAllRatings({ dryRun: dryRun ?? true });
     });
+    res.json({ ok: true, ...summary });
   } catch (e) {
-    console.error('matches/dispute error:', e?.message, e?.details || '');
+    console.error(
+      'admin/ratings/recompute error:',
+      e?.message,
+      e?.details || ''
+    );
+    res
+      .status(e.status || 500)
+      .json({ ok: false, error: e.message, details: e.details || null });
+  }
+});
+
+/**
+ * Read model status; `resync` reloads the cached tables first (after editing
+ * Airtable by hand).
+ */
+app.post('/api/admin/cache', async (req, res) => {
+  try {
+    if (!requireEnv(res)) return;
+    await requireAdmin(getInitDataFromReq(req));
+
+    const { resync } = req.body || {};
+    const resynced = resync ? await resyncReadModel() : [];
+    res.json({ ok: true, resynced, cache: readModelStatus() });
+  } catch (e) {
+    console.error('admin/cache error:', e?.message, e?.details || '');
     res
       .status(e.status || 500)
       .json({ ok: false, error: e.message, details: e.details || null });
@@ -1241,6 +2293,98 @@ app.use('/api', (_req, res) =>
   res.status(404).json({ ok: false, error: 'Not found' })
 );
 
+// ---------------- Background jobs ----------------
+
+let autoConfirmRunning = false;
+
+/**
+ * Confirms PENDING_CONFIRMATION matches whose opponents did not respond
+ * within AUTO_CONFIRM_HOURS, applying ratings like a normal confirmation.
+ */
+async function autoConfirmDueMatches() {
+  const c = cfg();
+  if (autoConfirmRunning) return;
+  autoConfirmRunning = true;
+  try {
+    const pending = await listAll(c.T_MATCHES, {
+      where: { [c.M_STATUS]: c.STATUS_PENDING },
+    });
+    const now = Date.now();
+
+    for (const { id } of pending) {
+      if (confirmInFlight.has(id)) continue;
+
+      confirmInFlight.add(id);
+      try {
+        // Earlier matches of this run took time: the opponents may have
+        // responded to this one meanwhile.
+        const rec = await getRecord(c.T_MATCHES, id);
+        const m = normalizeMatch(rec);
+        const due = autoConfirmAt(m);
+        if (m.status !== c.STATUS_PENDING || !due || Date.parse(due) > now)
+          continue;
+
+        const r = await markConfirmedAndApplyRatings(rec, {
+          [c.M_AUTO_CONFIRMED]: true,
+        });
+        console.log(
+          `auto-confirmed match ${m.id} (pair delta ${Math.round(r.deltaPair)})`
+        );
+        notifyInitiator(
+          m.id,
+          c.STATUS_CONFIRMED,
+          null,
+          `Automatically confirmed: no response within ${c.AUTO_CONFIRM_HOURS}h.`
+        );
+      } catch (e) {
+        console.error(
+          `auto-confirm ${id} error:`,
+          e?.message,
+          e?.details || ''
+        );
+      } finally {
+        confirmInFlight.delete(id);
+      }
+    }
+  } catch (e) {
+    console.error('auto-confirm error:', e?.message, e?.details || '');
+  } finally {
+    autoConfirmRunning = false;
+  }
+}
+
+async function resyncReadCache() {
+  try {
+    await resyncReadModel();
+  } catch (e) {
+    console.error('read cache resync error:', e?.message, e?.details || '');
+  }
+}
+
+// Confirmed matches whose rating update was cut short (crash, Airtable error).
+async function recoverPendingRatings() {
+  try {
+    await withSettledRatings(() => {});
+  } catch (e) {
+    console.error('ratings recovery error:', e?.message, e?.details || '');
+  }
+}
+
+function startBackgroundJobs() {
+  const c = cfg();
+  if (storageMissingEnv().length === 0) {
+    setInterval(recoverPendingRatings, c.RATINGS_RECOVERY_INTERVAL_MS);
+    recoverPendingRatings();
+  }
+  if (c.AUTO_CONFIRM_HOURS > 0 && storageMissingEnv().length === 0) {
+    setInterval(autoConfirmDueMatches, c.AUTO_CONFIRM_INTERVAL_MS);
+    autoConfirmDueMatches();
+  }
+  if (c.READ_CACHE && c.READ_CACHE_RESYNC_MS > 0) {
+    setInterval(resyncReadCache, c.READ_CACHE_RESYNC_MS);
+  }
+}
+
 // Frontend
 const distPath = path.join(__dirname, 'web', 'dist');
 app.use(express.static(distPath));
@@ -1250,5 +2394,10 @@ app.get('/*splat', (_req, res) =>
   res.sendFile(path.join(distPath, 'index.html'))
 );
 
+if (cfg().READ_CACHE) enableReadCache();
+
 const port = process.env.PORT || 8080;
-app.listen(port, '0.0.0.0', () => console.log(`Server listening on ${port}`));
+app.listen(port, '0.0.0.0', () => {
+  console.log(`Server listening on ${port}`);
+  startBackgroundJobs();
+});
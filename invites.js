@@ -0,0 +1,64 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { cfg } from './config.js';
+import { getBotUsername } from './telegram.js';
+
+/**
+ * ---- Invite links ----
+ * A player's invite is a Mini App deep link whose start_param is a token
+ * naming the inviter and when it was issued, signed with a key derived from
+ * BOT_TOKEN so nobody can make one up for someone else. Telegram hands the
+ * start_param back inside the signed initData when the friend opens the link.
+ * Tokens only use the characters start_param allows: A-Z a-z 0-9 _ -.
+ */
+const TOKEN_RE = /^inv_([A-Za-z0-9]+)_([0-9a-z]+)_([A-Za-z0-9_-]+)$/;
+
+function signature(inviterId, issued) {
+  return createHmac('sha256', `invite:${cfg().BOT_TOKEN}`)
+    .update(`${inviterId}.${issued}`)
+    .digest('base64url')
+    .slice(0, 22);
+}
+
+function expiresAt(issuedAtMs) {
+  const c = cfg();
+  return c.INVITE_TTL_DAYS
+    ? new Date(issuedAtMs + c.INVITE_TTL_DAYS * 86400_000).toISOString()
+    : null;
+}
+
+/** Token, deep link and expiry (null = never) of a new invite from `inviterId`. */
+export async function createInvite(inviterId, now = Date.now()) {
+  const c = cfg();
+  const issued = Math.floor(now / 1000).toString(36);
+  const token = `inv_${inviterId}_${issued}_${signature(inviterId, issued)}`;
+  const app = c.MINI_APP_SHORT_NAME ? `/${c.MINI_APP_SHORT_NAME}` : '';
+  return {
+    token,
+    link: `https://t.me/${await getBotUsername()}${app}?startapp=${token}`,
+    expiresAt: expiresAt(parseInt(issued, 36) * 1000),
+  };
+}
+
+/**
+ * { inviterId, issuedAt, expired } when `startParam` is an invite token with
+ * a valid signature, otherwise null.
+ */
+export function readInvite(startParam, now = Date.now()) {
+  const m = TOKEN_RE.exec(startParam || '');
+  if (!m) return null;
+  const [, inviterId, issued, given] = m;
+  const expected = signature(inviterId, issued);
+  if (
+    given.length !== expected.length ||
+    !timingSafeEqual(Buffer.from(given), Buffer.from(expected))
+  )
+    return null;
+
+  const issuedAtMs = parseInt(issued, 36) * 1000;
+  const expires = expiresAt(issuedAtMs);
+  return {
+    inviterId,
+    issuedAt: new Date(issuedAtMs).toISOString(),
+    expired: Boolean(expires) && now > Date.parse(expires),
+  };
+}
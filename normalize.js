@@ -0,0 +1,226 @@
+import { cfg } from './config.js';
+import { ratingEngine } from './rating-engines.js';
+import { DEFAULT_MATCH_FORMAT } from './shared/match-formats.js';
+
+export function toNum(v, fallback = 0) {
+  if (typeof v === 'number') return v;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : fallback;
+}
+
+export function normalizePlayer(rec) {
+  const c = cfg();
+  const f = rec.fields || {};
+  const p = {
+    id: rec.id,
+    name: f[c.P_NAME] || '',
+    telegramId: f[c.P_TG_ID] ?? null,
+    telegramUsername: f[c.P_TG_USERNAME] || '',
+    rating: toNum(f[c.P_INDIV_RATING], c.DEFAULT_RATING),
+    rd: toNum(f[c.P_RD], c.DEFAULT_RD),
+    volatility: toNum(f[c.P_VOL], c.DEFAULT_VOLATILITY),
+    gamesPlayed: toNum(f[c.P_GP], 0),
+    wins: toNum(f[c.P_W], 0),
+    losses: toNum(f[c.P_L], 0),
+    friendlyWins: toNum(f[c.P_FRIENDLY_W], 0),
+    friendlyLosses: toNum(f[c.P_FRIENDLY_L], 0),
+    invitedBy: Array.isArray(f[c.P_INVITED_BY])
+      ? f[c.P_INVITED_BY][0] || null
+      : null,
+    inviteUsedAt: f[c.P_INVITE_USED_AT] || null,
+  };
+  return { ...p, provisional: ratingEngine().isProvisional(p) };
+}
+
+export function normalizePair(rec) {
+  const c = cfg();
+  const f = rec.fields || {};
+  const p = {
+    id: rec.id,
+    player1: Array.isArray(f[c.PR_PLAYER1]) ? f[c.PR_PLAYER1][0] : null,
+    player2: Array.isArray(f[c.PR_PLAYER2]) ? f[c.PR_PLAYER2][0] : null,
+    rating: toNum(f[c.PR_RATING], c.DEFAULT_RATING),
+    rd: toNum(f[c.PR_RD], c.DEFAULT_RD),
+    volatility: toNum(f[c.PR_VOL], c.DEFAULT_VOLATILITY),
+    gamesPlayed: toNum(f[c.PR_GP], 0),
+    wins: toNum(f[c.PR_W], 0),
+    losses: toNum(f[c.PR_L], 0),
+    friendlyWins: toNum(f[c.PR_FRIENDLY_W], 0),
+    friendlyLosses: toNum(f[c.PR_FRIENDLY_L], 0),
+  };
+  return { ...p, provisional: ratingEngine().isProvisional(p) };
+}
+
+export function normalizeMatch(rec) {
+  const c = cfg();
+  const f = rec.fields || {};
+  return {
+    id: rec.id,
+    date: f[c.M_DATE] || null,
+    time: f[c.M_TIME] || '',
+    status: f[c.M_STATUS] || '',
+    pair1: Array.isArray(f[c.M_PAIR1]) ? f[c.M_PAIR1][0] : null,
+    pair2: Array.isArray(f[c.M_PAIR2]) ? f[c.M_PAIR2][0] : null,
+    initiatedBy: Array.isArray(f[c.M_INITIATED_BY])
+      ? f[c.M_INITIATED_BY][0]
+      : null,
+    confirmedBy: Array.isArray(f[c.M_CONFIRMED_BY]) ? f[c.M_CONFIRMED_BY] : [],
+    score: f[c.M_SCORE] || '',
+    disputeReason: f[c.M_DISPUTE_REASON] || '',
+    resolution: f[c.M_RESOLUTION] || '',
+    resolvedBy: Array.isArray(f[c.M_RESOLVED_BY])
+      ? f[c.M_RESOLVED_BY][0] || null
+      : null,
+    resolvedAt: f[c.M_RESOLVED_AT] || null,
+    adminNote: f[c.M_ADMIN_NOTE] || '',
+    reportedAt: f[c.M_REPORTED_AT] || rec.createdTime || null,
+    autoConfirmed: Boolean(f[c.M_AUTO_CONFIRMED]),
+    court: f[c.M_COURT] || '',
+    proposedBy: Array.isArray(f[c.M_PROPOSED_BY])
+      ? f[c.M_PROPOSED_BY][0]
+      : null,
+    season: Array.isArray(f[c.M_SEASON]) ? f[c.M_SEASON][0] || null : null,
+    ranked: !f[c.M_UNRANKED],
+    tournament: Array.isArray(f[c.M_TOURNAMENT]) ? f[c.M_TOURNAMENT][0] : null,
+    stage: f[c.M_STAGE] || '',
+    group: f[c.M_GROUP] || '',
+    round: toNum(f[c.M_ROUND], 0),
+    slot: toNum(f[c.M_SLOT], 0),
+    format: f[c.M_FORMAT] || DEFAULT_MATCH_FORMAT,
+    ratingsState: f[c.M_RATINGS_STATE] || '',
+  };
+}
+
+export function normalizeSetScore(rec) {
+  const c = cfg();
+  const f = rec.fields || {};
+  return {
+    id: rec.id,
+    match: Array.isArray(f[c.S_MATCH]) ? f[c.S_MATCH][0] : null,
+    setNo: toNum(f[c.S_SET_NO], 0),
+    p1: toNum(f[c.S_P1], 0),
+    p2: toNum(f[c.S_P2], 0),
+    winnerPair: Array.isArray(f[c.S_WINNER_PAIR])
+      ? f[c.S_WINNER_PAIR][0]
+      : null,
+  };
+}
+
+export function normalizeRatingChange(rec) {
+  const c = cfg();
+  const f = rec.fields || {};
+  // Deviation/volatility are missing on entries written before Glicko-2.
+  const optional = v =>
+    v === undefined || v === null || v === '' ? null : toNum(v, 0);
+  return {
+    id: rec.id,
+    match: Array.isArray(f[c.RH_MATCH]) ? f[c.RH_MATCH][0] : null,
+    entityType: f[c.RH_ENTITY_TYPE] || '',
+    entityId: f[c.RH_ENTITY_ID] || '',
+    date: f[c.RH_DATE] || null,
+    oldRating: toNum(f[c.RH_OLD_RATING], c.DEFAULT_RATING),
+    newRating: toNum(f[c.RH_NEW_RATING], c.DEFAULT_RATING),
+    delta: toNum(f[c.RH_DELTA], 0),
+    k: toNum(f[c.RH_K], 0),
+    oldRd: optional(f[c.RH_OLD_RD]),
+    newRd: optional(f[c.RH_NEW_RD]),
+    oldVolatility: optional(f[c.RH_OLD_VOL]),
+    newVolatility: optional(f[c.RH_NEW_VOL]),
+    season: Array.isArray(f[c.RH_SEASON]) ? f[c.RH_SEASON][0] : null,
+    session: Array.isArray(f[c.RH_SESSION]) ? f[c.RH_SESSION][0] : null,
+    seq: toNum(f[c.RH_SEQ], 0), // 0 on entries written before it existed
+    createdTime: rec.createdTime || null,
+  };
+}
+
+export function normalizeSeason(rec) {
+  const c = cfg();
+  const f = rec.fields || {};
+  return {
+    id: rec.id,
+    name: f[c.SE_NAME] || '',
+    startDate: f[c.SE_START] || null,
+    endDate: f[c.SE_END] || null,
+    status: f[c.SE_STATUS] || '',
+    closedAt: f[c.SE_CLOSED_AT] || null,
+    softReset: toNum(f[c.SE_SOFT_RESET], 0),
+  };
+}
+
+export function normalizeTournament(rec) {
+  const c = cfg();
+  const f = rec.fields || {};
+  let seeds = [];
+  try {
+    seeds = f[c.TO_SEEDS] ? JSON.parse(f[c.TO_SEEDS]) : [];
+  } catch {
+    seeds = [];
+  }
+  return {
+    id: rec.id,
+    name: f[c.TO_NAME] || '',
+    date: f[c.TO_DATE] || null,
+    format: f[c.TO_FORMAT] || '',
+    status: f[c.TO_STATUS] || '',
+    pairs: Array.isArray(f[c.TO_PAIRS]) ? f[c.TO_PAIRS] : [],
+    groups: toNum(f[c.TO_GROUPS], 1),
+    advance: toNum(f[c.TO_ADVANCE], 2),
+    ranked: Boolean(f[c.TO_RANKED]),
+    seeds: Array.isArray(seeds) ? seeds : [],
+    winner: Array.isArray(f[c.TO_WINNER]) ? f[c.TO_WINNER][0] : null,
+  };
+}
+
+export function normalizeSession(rec) {
+  const c = cfg();
+  const f = rec.fields || {};
+  return {
+    id: rec.id,
+    name: f[c.SN_NAME] || '',
+    date: f[c.SN_DATE] || null,
+    mode: f[c.SN_MODE] || '',
+    status: f[c.SN_STATUS] || '',
+    players: Array.isArray(f[c.SN_PLAYERS]) ? f[c.SN_PLAYERS] : [],
+    rounds: toNum(f[c.SN_ROUNDS], 0),
+    pointsPerGame: toNum(f[c.SN_POINTS], 0),
+    rated: Boolean(f[c.SN_RATED]),
+    createdBy: Array.isArray(f[c.SN_CREATED_BY]) ? f[c.SN_CREATED_BY][0] : null,
+    finishedAt: f[c.SN_FINISHED_AT] || null,
+    ratingsState: f[c.SN_RATINGS_STATE] || '',
+    createdTime: rec.createdTime || null,
+  };
+}
+
+export function normalizeSessionGame(rec) {
+  const c = cfg();
+  const f = rec.fields || {};
+  const points = v =>
+    v === undefined || v === null || v === '' ? null : toNum(v, 0);
+  return {
+    id: rec.id,
+    session: Array.isArray(f[c.SG_SESSION]) ? f[c.SG_SESSION][0] : null,
+    round: toNum(f[c.SG_ROUND], 0),
+    court: toNum(f[c.SG_COURT], 0),
+    team1: Array.isArray(f[c.SG_TEAM1]) ? f[c.SG_TEAM1] : [],
+    team2: Array.isArray(f[c.SG_TEAM2]) ? f[c.SG_TEAM2] : [],
+    points1: points(f[c.SG_POINTS1]),
+    points2: points(f[c.SG_POINTS2]),
+  };
+}
+
+export function normalizeStanding(rec) {
+  const c = cfg();
+  const f = rec.fields || {};
+  return {
+    id: rec.id,
+    season: Array.isArray(f[c.ST_SEASON]) ? f[c.ST_SEASON][0] : null,
+    entityType: f[c.ST_ENTITY_TYPE] || '',
+    entityId: f[c.ST_ENTITY_ID] || '',
+    name: f[c.ST_NAME] || '',
+    rank: toNum(f[c.ST_RANK], 0),
+    rating: toNum(f[c.ST_RATING], c.DEFAULT_RATING),
+    gamesPlayed: toNum(f[c.ST_GP], 0),
+    wins: toNum(f[c.ST_W], 0),
+    losses: toNum(f[c.ST_L], 0),
+  };
+}
@@ -0,0 +1,157 @@
+import { cfg } from './config.js';
+import { normalizeMatch, normalizePair, normalizePlayer } from './normalize.js';
+import { getRecord } from './storage/index.js';
+import { sendMessage, escapeHtml } from './telegram.js';
+
+/**
+ * ---- Bot notifications ----
+ * Fire-and-forget: a failed Telegram call is logged and never fails the API
+ * request that triggered it. Players only receive messages if they have
+ * started the bot, otherwise Telegram answers 403 and we just log it.
+ */
+export const CB_CONFIRM = 'confirm';
+export const CB_DISPUTE = 'dispute';
+
+async function loadMatchContext(matchId) {
+  const c = cfg();
+  const m = normalizeMatch(await getRecord(c.T_MATCHES, matchId));
+  const pair1 = m.pair1
+    ? normalizePair(await getRecord(c.T_PAIRS, m.pair1))
+    : null;
+  const pair2 = m.pair2
+    ? normalizePair(await getRecord(c.T_PAIRS, m.pair2))
+    : null;
+
+  const playerIds = [
+    pair1?.player1,
+    pair1?.player2,
+    pair2?.player1,
+    pair2?.player2,
+    m.initiatedBy,
+  ].filter(Boolean);
+  const playersById = {};
+  for (const id of new Set(playerIds)) {
+    playersById[id] = normalizePlayer(await getRecord(c.T_PLAYERS, id));
+  }
+
+  const pairName = p =>
+    p
+      ? [p.player1, p.player2]
+          .map(id => escapeHtml(playersById[id]?.name || '—'))
+          .join(' + ')
+      : '—';
+
+  return { m, pair1, pair2, playersById, pairName };
+}
+
+function matchSummary(ctx) {
+  const { m, pair1, pair2, pairName } = ctx;
+  const when = [m.date, m.time].filter(Boolean).join(' ');
+  return (
+    `<b>${pairName(pair1)}</b> vs <b>${pairName(pair2)}</b>` +
+    (m.score ? `\nScore: <b>${escapeHtml(m.score)}</b>` : '') +
+    (when ? `\nDate: ${escapeHtml(when)}` : '') +
+    (m.court ? `\nCourt: ${escapeHtml(m.court)}` : '') +
+    (m.ranked ? '' : '\nFriendly (unranked)')
+  );
+}
+
+function run(label, fn) {
+  const c = cfg();
+  if (!c.BOT_TOKEN || !c.BOT_NOTIFICATIONS) return;
+  Promise.resolve()
+    .then(fn)
+    .catch(e =>
+      console.error(`notify ${label} error:`, e?.message, e?.details || '')
+    );
+}
+
+async function sendSafe(chatId, text, replyMarkup) {
+  try {
+    await sendMessage(chatId, text, replyMarkup);
+  } catch (e) {
+    console.error(`notify: cannot message ${chatId}:`, e?.message);
+  }
+}
+
+// Asks both opponent players to confirm or dispute a freshly reported match.
+export function notifyMatchReported(matchId) {
+  run('reported', async () => {
+    const ctx = await loadMatchContext(matchId);
+    const reporter = ctx.playersById[ctx.m.initiatedBy];
+    const text =
+      `🎾 ${escapeHtml(reporter?.name || 'Someone')} reported a match against you:\n\n` +
+      `${matchSummary(ctx)}\n\nIs this result correct?`;
+    const keyboard = {
+      inline_keyboard: [
+        [
+          { text: '✅ Confirm', callback_data: `${CB_CONFIRM}:${matchId}` },
+          { text: '⚠️ Dispute', callback_data: `${CB_DISPUTE}:${matchId}` },
+        ],
+      ],
+    };
+
+    for (const id of [ctx.pair2?.player1, ctx.pair2?.player2]) {
+      const tgId = ctx.playersById[id]?.telegramId;
+      if (tgId) await sendSafe(tgId, text, keyboard);
+    }
+  });
+}
+
+// Tells the player who reported the match what the opponents decided.
+export function notifyInitiator(matchId, status, byPlayerId, reason) {
+  run('initiator', async () => {
+    const c = cfg();
+    const ctx = await loadMatchContext(matchId);
+    const initiator = ctx.playersById[ctx.m.initiatedBy];
+    if (!initiator?.telegramId) return;
+
+    const by = byPlayerId
+      ? ctx.playersById[byPlayerId]?.name ||
+        normalizePlayer(await getRecord(c.T_PLAYERS, byPlayerId)).name
+      : '';
+    const verb =
+      status === c.STATUS_CONFIRMED
+        ? '✅ confirmed'
+        : status === c.STATUS_REJECTED
+          ? '❌ rejected'
+          : '⚠️ disputed';
+
+    const text =
+      `Your match was ${verb}${by ? ` by ${escapeHtml(by)}` : ''}:\n\n` +
+      matchSummary(ctx) +
+      (reason ? `\n\nReason: ${escapeHtml(reason)}` : '');
+
+    await sendSafe(initiator.telegramId, text);
+  });
+}
+
+/**
+ * Challenge updates (`challenge`, `accept`, `decline`, `propose`) go to the
+ * players of the pair on the other side from `byPlayerId`.
+ */
+export function notifyChallenge(matchId, byPlayerId, action) {
+  run('challenge', async () => {
+    const ctx = await loadMatchContext(matchId);
+    const by = escapeHtml(ctx.playersById[byPlayerId]?.name || 'Someone');
+    const headline = {
+      challenge: `📅 ${by} challenged you to a match:`,
+      propose: `📅 ${by} proposed another time:`,
+      accept: `✅ ${by} accepted the match:`,
+      decline: `❌ ${by} declined the match:`,
+    }[action];
+    const footer =
+      action === 'challenge' || action === 'propose'
+        ? '\n\nOpen the app to accept, decline or propose another time.'
+        : '';
+
+    const mine = [ctx.pair1?.player1, ctx.pair1?.player2].includes(byPlayerId);
+    const other = mine ? ctx.pair2 : ctx.pair1;
+    const text = `${headline}\n\n${matchSummary(ctx)}${footer}`;
+
+    for (const id of [other?.player1, other?.player2]) {
+      const tgId = ctx.playersById[id]?.telegramId;
+      if (tgId) await sendSafe(tgId, text);
+    }
+  });
+}
@@ -0,0 +1,155 @@
+import { cfg } from './config.js';
+
+/**
+ * ---- Rating engines ----
+ * An engine turns one result between two teams into the next rating state of
+ * every team member. A team is one pair, or the two players of a pair (or of
+ * a session game). State is { rating, rd, volatility }; ratings come back
+ * unrounded so callers can chain several games before rounding.
+ *
+ *   rateTeams(teamA, teamB, scoreA, kind, weight) -> { a, b, deltaA }
+ *     scoreA is team A's result in 0..1, kind is 'pair' | 'player', weight
+ *     scales the rating change (margin of victory, default 1) and deltaA is
+ *     the average rating change of team A.
+ *   k(kind)             K factor written to the RatingHistory ledger
+ *   isProvisional(e)    rating not settled yet (shown as such in tables)
+ *   tracksDeviation     rd and volatility change, so they are stored
+ *
+ * RATING_ENGINE picks the engine: 'elo' (default) or 'glicko2'.
+ */
+export function eloDelta(rA, rB, scoreA, k) {
+  const expectedA = 1 / (1 + Math.pow(10, (rB - rA) / 400));
+  return k * (scoreA - expectedA);
+}
+
+const average = list => list.reduce((sum, x) => sum + x, 0) / list.length;
+
+// Fixed-K Elo on the team averages; deviation and volatility pass through.
+const elo = {
+  name: 'elo',
+  tracksDeviation: false,
+  k(kind) {
+    const c = cfg();
+    return kind === 'pair' ? c.ELO_K_PAIR : c.ELO_K_PLAYER;
+  },
+  rateTeams(teamA, teamB, scoreA, kind, weight = 1) {
+    const rA = Math.round(average(teamA.map(e => e.rating)));
+    const rB = Math.round(average(teamB.map(e => e.rating)));
+    const delta = weight * eloDelta(rA, rB, scoreA, this.k(kind));
+    const step = d => e => ({
+      rating: e.rating + d,
+      rd: e.rd,
+      volatility: e.volatility,
+    });
+    return {
+      a: teamA.map(step(delta)),
+      b: teamB.map(step(-delta)),
+      deltaA: delta,
+    };
+  },
+  isProvisional() {
+    return false;
+  },
+};
+
+// Glicko-2 (Glickman, 2012) with every match as its own rating period.
+const GLICKO_SCALE = 173.7178;
+const GLICKO_EPSILON = 0.000001;
+
+function glickoStep(e, opp, score, weight) {
+  const c = cfg();
+  const tau = c.GLICKO_TAU;
+  const mu = (e.rating - c.DEFAULT_RATING) / GLICKO_SCALE;
+  const phi = e.rd / GLICKO_SCALE;
+  const muJ = (opp.rating - c.DEFAULT_RATING) / GLICKO_SCALE;
+  const phiJ = opp.rd / GLICKO_SCALE;
+
+  const g = 1 / Math.sqrt(1 + (3 * phiJ * phiJ) / (Math.PI * Math.PI));
+  const expected = 1 / (1 + Math.exp(-g * (mu - muJ)));
+  const v = 1 / (g * g * expected * (1 - expected));
+  const delta = v * g * (score - expected);
+
+  // New volatility: root of f(x) by the Illinois algorithm.
+  const a = Math.log(e.volatility * e.volatility);
+  const f = x => {
+    const ex = Math.exp(x);
+    const d = phi * phi + v + ex;
+    return (
+      (ex * (delta * delta - phi * phi - v - ex)) / (2 * d * d) -
+      (x - a) / (tau * tau)
+    );
+  };
+  let A = a;
+  let B;
+  if (delta * delta > phi * phi + v) {
+    B = Math.log(delta * delta - phi * phi - v);
+  } else {
+    let k = 1;
+    while (f(a - k * tau) < 0) k++;
+    B = a - k * tau;
+  }
+  let fA = f(A);
+  let fB = f(B);
+  while (Math.abs(B - A) > GLICKO_EPSILON) {
+    const C = A + ((A - B) * fA) / (fB - fA);
+    const fC = f(C);
+    if (fC * fB <= 0) {
+      A = B;
+      fA = fB;
+    } else {
+      fA /= 2;
+    }
+    B = C;
+    fB = fC;
+  }
+  const volatility = Math.exp(A / 2);
+
+  const phiStar = Math.sqrt(phi * phi + volatility * volatility);
+  const phiNew = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v);
+  const muNew = mu + weight * phiNew * phiNew * g * (score - expected);
+
+  // Rounded as stored, so live updates and a full recompute agree.
+  return {
+    rating: c.DEFAULT_RATING + GLICKO_SCALE * muNew,
+    rd: Math.round(Math.min(c.DEFAULT_RD, GLICKO_SCALE * phiNew) * 100) / 100,
+    volatility: Math.round(volatility * 1e6) / 1e6,
+  };
+}
+
+// Each member plays the other team as one opponent: mean rating, RMS deviation.
+function composite(team) {
+  return {
+    rating: average(team.map(e => e.rating)),
+    rd: Math.sqrt(average(team.map(e => e.rd * e.rd))),
+  };
+}
+
+const glicko2 = {
+  name: 'glicko2',
+  tracksDeviation: true,
+  k() {
+    return 0;
+  },
+  rateTeams(teamA, teamB, scoreA, kind, weight = 1) {
+    const a = teamA.map(e => glickoStep(e, composite(teamB), scoreA, weight));
+    const b = teamB.map(e =>
+      glickoStep(e, composite(teamA), 1 - scoreA, weight)
+    );
+    return {
+      a,
+      b,
+      deltaA: average(a.map((s, i) => s.rating - teamA[i].rating)),
+    };
+  },
+  isProvisional(e) {
+    return e.rd > cfg().PROVISIONAL_RD;
+  },
+};
+
+const ENGINES = { elo, glicko2 };
+
+export function ratingEngine(name = cfg().RATING_ENGINE) {
+  const engine = ENGINES[name];
+  if (!engine) throw new Error(`Unknown RATING_ENGINE: ${name}`);
+  return engine;
+}
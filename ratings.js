@@ -0,0 +1,1289 @@
+import { cfg } from './config.js';
+import {
+  normalizeMatch,
+  normalizePair,
+  normalizePlayer,
+  normalizeSetScore,
+  normalizeRatingChange,
+  normalizeSeason,
+  normalizeSession,
+  normalizeSessionGame,
+} from './normalize.js';
+import {
+  listAll,
+  createRecords,
+  updateRecords,
+  deleteRecords,
+} from './storage/index.js';
+import { ratingEngine } from './rating-engines.js';
+import { matchFormat, superTiebreakIndex } from './shared/match-formats.js';
+
+export { eloDelta } from './rating-engines.js';
+
+/**
+ * Margin-of-victory weight of a match from the winner's point of view: set
+ * and game differences, and the multiplier applied to the rating change
+ * (always 1 unless MARGIN_OF_VICTORY is on). Super tie-break points are not
+ * games and only count as a set.
+ */
+export function marginOfVictory(sets, pair1Won, format = matchFormat()) {
+  const c = cfg();
+  const sign = pair1Won ? 1 : -1;
+  const tiebreak = superTiebreakIndex(format) + 1;
+  const setDiff =
+    sign * sets.reduce((sum, s) => sum + (s.p1 > s.p2 ? 1 : -1), 0);
+  const gameDiff =
+    sign *
+    sets
+      .filter(s => s.setNo !== tiebreak)
+      .reduce((sum, s) => sum + s.p1 - s.p2, 0);
+  const raw =
+    c.MOV_BASE + c.MOV_SET_WEIGHT * setDiff + c.MOV_GAME_WEIGHT * gameDiff;
+  const multiplier = c.MARGIN_OF_VICTORY
+    ? Math.min(c.MOV_MAX, Math.max(c.MOV_MIN, raw))
+    : 1;
+  return { setDiff, gameDiff, multiplier };
+}
+
+// Checks a match's pairs/players/sets and finds the winner; throws if incomplete.
+function matchParticipants(m, sets, pairsById, playersById) {
+  if (!m.pair1 || !m.pair2) throw new Error('Match missing Pair 1/Pair 2');
+  if (!Array.isArray(sets) || !sets.length)
+    throw new Error('Match missing SetScores');
+
+  const p1 = pairsById[m.pair1];
+  const p2 = pairsById[m.pair2];
+  if (!p1 || !p2) throw new Error('Pair records not found for match');
+
+  const p1Players = [p1.player1, p1.player2].filter(Boolean);
+  const p2Players = [p2.player1, p2.player2].filter(Boolean);
+  if (p1Players.length !== 2 || p2Players.length !== 2)
+    throw new Error('Pair must have exactly 2 players');
+  if ([...p1Players, ...p2Players].some(id => !playersById[id]))
+    throw new Error('Player records not found for match');
+
+  const ss = [...sets].sort((a, b) => a.setNo - b.setNo);
+
+  const setWins = ss.reduce(
+    (acc, s) => {
+      if (s.p1 > s.p2) acc.p1++;
+      else acc.p2++;
+      return acc;
+    },
+    { p1: 0, p2: 0 }
+  );
+
+  return {
+    p1,
+    p2,
+    team1: p1Players.map(id => playersById[id]),
+    team2: p2Players.map(id => playersById[id]),
+    sets: ss,
+    pair1Won: setWins.p1 > setWins.p2,
+  };
+}
+
+/**
+ * Pure rating step for one match through the configured engine. Takes
+ * normalized match/sets and the current normalized pairs/players, returns the
+ * next rating state + W/L/GP of the two pairs and four players. Shared by live
+ * confirmation and the full recompute.
+ */
+export function computeMatchRatings(m, sets, pairsById, playersById) {
+  const engine = ratingEngine();
+  const {
+    p1,
+    p2,
+    team1,
+    team2,
+    sets: ss,
+    pair1Won,
+  } = matchParticipants(m, sets, pairsById, playersById);
+  const scoreA = pair1Won ? 1 : 0;
+
+  const margin = marginOfVictory(
+    ss,
+    pair1Won,
+    matchFormat(m.format) || matchFormat()
+  );
+  const pairStep = engine.rateTeams(
+    [p1],
+    [p2],
+    scoreA,
+    'pair',
+    margin.multiplier
+  );
+  const playerStep = engine.rateTeams(
+    team1,
+    team2,
+    scoreA,
+    'player',
+    margin.multiplier
+  );
+
+  const next = (entity, state, won) => ({
+    entity,
+    rating: Math.round(state.rating),
+    rd: state.rd,
+    volatility: state.volatility,
+    gamesPlayed: entity.gamesPlayed + 1,
+    wins: entity.wins + (won ? 1 : 0),
+    losses: entity.losses + (won ? 0 : 1),
+  });
+
+  return {
+    pair1Won,
+    margin,
+    deltaPair: pairStep.deltaA,
+    deltaPlayer: playerStep.deltaA,
+    pairs: [
+      next(p1, pairStep.a[0], pair1Won),
+      next(p2, pairStep.b[0], !pair1Won),
+    ],
+    players: [
+      ...team1.map((e, i) => next(e, playerStep.a[i], pair1Won)),
+      ...team2.map((e, i) => next(e, playerStep.b[i], !pair1Won)),
+    ],
+  };
+}
+
+/**
+ * Friendly W/L step for an unranked match: both pairs and all four players get
+ * a friendly win or loss (`sign` -1 takes it back). Ratings, GP and the ranked
+ * W/L are left alone.
+ */
+export function computeFriendlyResult(
+  m,
+  sets,
+  pairsById,
+  playersById,
+  sign = 1
+) {
+  const { p1, p2, team1, team2, pair1Won } = matchParticipants(
+    m,
+    sets,
+    pairsById,
+    playersById
+  );
+  const next = (entity, won) => ({
+    entity,
+    friendlyWins: entity.friendlyWins + (won ? sign : 0),
+    friendlyLosses: entity.friendlyLosses + (won ? 0 : sign),
+  });
+  return {
+    pair1Won,
+    pairs: [next(p1, pair1Won), next(p2, !pair1Won)],
+    players: [
+      ...team1.map(e => next(e, pair1Won)),
+      ...team2.map(e => next(e, !pair1Won)),
+    ],
+  };
+}
+
+// Rating Deviation and Volatility are only written by an engine that tracks
+// them, so an Elo league needs no such columns.
+function deviationFields(rdField, volField, u) {
+  if (!ratingEngine().tracksDeviation) return {};
+  return { [rdField]: u.rd, [volField]: u.volatility };
+}
+
+function pairUpdate(id, u) {
+  const c = cfg();
+  return {
+    id,
+    fields: {
+      [c.PR_RATING]: u.rating,
+      ...deviationFields(c.PR_RD, c.PR_VOL, u),
+      [c.PR_GP]: u.gamesPlayed,
+      [c.PR_W]: u.wins,
+      [c.PR_L]: u.losses,
+    },
+  };
+}
+
+function playerUpdate(id, u) {
+  const c = cfg();
+  return {
+    id,
+    fields: {
+      [c.P_INDIV_RATING]: u.rating,
+      ...deviationFields(c.P_RD, c.P_VOL, u),
+      [c.P_GP]: u.gamesPlayed,
+      [c.P_W]: u.wins,
+      [c.P_L]: u.losses,
+    },
+  };
+}
+
+function friendlyUpdate(type, id, u) {
+  const c = cfg();
+  return {
+    id,
+    fields:
+      type === 'pair'
+        ? {
+            [c.PR_FRIENDLY_W]: u.friendlyWins,
+            [c.PR_FRIENDLY_L]: u.friendlyLosses,
+          }
+        : {
+            [c.P_FRIENDLY_W]: u.friendlyWins,
+            [c.P_FRIENDLY_L]: u.friendlyLosses,
+          },
+  };
+}
+
+// Ledger fields for one rating step: rating, deviation and volatility before/after.
+function ledgerFields(entityType, u) {
+  const c = cfg();
+  return {
+    [c.RH_ENTITY_TYPE]: entityType,
+    [c.RH_ENTITY_ID]: u.entity.id,
+    [c.RH_OLD_RATING]: u.entity.rating,
+    [c.RH_NEW_RATING]: u.rating,
+    [c.RH_DELTA]: u.rating - u.entity.rating,
+    [c.RH_K]: ratingEngine().k(entityType),
+    ...deviationFields(c.RH_OLD_RD, c.RH_OLD_VOL, u.entity),
+    ...deviationFields(c.RH_NEW_RD, c.RH_NEW_VOL, u),
+  };
+}
+
+/**
+ * RatingHistory write order. createdTime only has second precision in
+ * Airtable and a season's soft-reset has no match or session to order it by,
+ * so every batch of entries gets the number after the highest stored one.
+ * Call it under withSettledRatings so no other batch can take the same number.
+ */
+export async function nextLedgerSeq() {
+  const c = cfg();
+  const [last] = await listAll(c.T_RATING_HISTORY, {
+    sort: [{ field: c.RH_SEQ, direction: 'desc' }],
+    maxRecords: 1,
+  });
+  return (last ? normalizeRatingChange(last).seq : 0) + 1;
+}
+
+/** Sort comparator putting ledger entries in the order they were written. */
+export function ledgerOrder(a, b) {
+  return (
+    a.seq - b.seq ||
+    String(a.createdTime || '').localeCompare(String(b.createdTime || ''))
+  );
+}
+
+function historyEntries(m, result, seq) {
+  const c = cfg();
+  const entry = (entityType, u) => ({
+    fields: {
+      [c.RH_MATCH]: [m.id],
+      [c.RH_SEQ]: seq,
+      [c.RH_DATE]: m.date || new Date().toISOString().slice(0, 10),
+      ...ledgerFields(entityType, u),
+    },
+  });
+  return [
+    ...result.pairs.map(u => entry('pair', u)),
+    ...result.players.map(u => entry('player', u)),
+  ];
+}
+
+/**
+ * ---- Ratings outbox ----
+ * Confirming a match writes CONFIRMED together with a rating plan (Ratings
+ * Plan: the pair/player updates and ledger entries computed from the current
+ * ratings) and Ratings State PENDING in one update, then applies the plan and
+ * sets APPLIED. If the server stops or Airtable fails part-way, the match
+ * stays PENDING and finishPendingRatings() completes it (startup, background
+ * job, and before any other rating change).
+ *
+ * Applying a plan is idempotent: each update names the games-played count it
+ * starts from and is skipped when the record already shows the target count;
+ * on recovery, ledger entries already written for the match are kept. An
+ * update that matches neither (the record moved on some other way) is left
+ * alone and the match is marked CONFLICT for a recompute. Rating writes in
+ * this process run one at a time (withSettledRatings).
+ *
+ * Finishing a rated session goes the same way, with the plan and its state on
+ * the session.
+ */
+
+let ratingsQueue = Promise.resolve();
+
+/** Runs `fn` after every earlier rating write in this process and with no plan left pending. */
+export function withSettledRatings(fn) {
+  const run = ratingsQueue.then(async () => {
+    await finishPendingRatings();
+    return fn();
+  });
+  ratingsQueue = run.catch(() => {});
+  return run;
+}
+
+function planUpdate(type, update, checkFields) {
+  return {
+    type,
+    id: update.id,
+    check: Object.fromEntries(checkFields.map(([f, v]) => [f, v || 0])),
+    fields: update.fields,
+  };
+}
+
+/**
+ * Rating plan of a match about to be confirmed: ratings, W/L/GP and ledger
+ * entries for a ranked match, friendly W/L for an unranked one. Returns the
+ * plan and the summary the confirm routes report.
+ */
+export async function planMatchRatings(matchRec, setScoresForMatch) {
+  const c = cfg();
+  const m = normalizeMatch(matchRec);
+
+  if (!m.pair1 || !m.pair2) throw new Error('Match missing Pair 1/Pair 2');
+  if (!Array.isArray(setScoresForMatch) || !setScoresForMatch.length)
+    throw new Error('Match missing SetScores');
+
+  const playersById = Object.fromEntries(
+    (await listAll(c.T_PLAYERS, { maxRecords: 1000 }))
+      .map(normalizePlayer)
+      .map(p => [p.id, p])
+  );
+  const pairsById = Object.fromEntries(
+    (await listAll(c.T_PAIRS, { maxRecords: 1000 }))
+      .map(normalizePair)
+      .map(p => [p.id, p])
+  );
+  const sets = setScoresForMatch.map(normalizeSetScore);
+
+  if (!m.ranked) {
+    const result = computeFriendlyResult(m, sets, pairsById, playersById);
+    const update = (type, u) =>
+      planUpdate(
+        type,
+        friendlyUpdate(type, u.entity.id, u),
+        type === 'pair'
+          ? [
+              [c.PR_FRIENDLY_W, u.entity.friendlyWins],
+              [c.PR_FRIENDLY_L, u.entity.friendlyLosses],
+            ]
+          : [
+              [c.P_FRIENDLY_W, u.entity.friendlyWins],
+              [c.P_FRIENDLY_L, u.entity.friendlyLosses],
+            ]
+      );
+    return {
+      plan: {
+        updates: [
+          ...result.pairs.map(u => update('pair', u)),
+          ...result.players.map(u => update('player', u)),
+        ],
+        history: [],
+      },
+      result: {
+        pair1Won: result.pair1Won,
+        deltaPair: 0,
+        deltaPlayer: 0,
+        multiplier: 1,
+        unranked: true,
+      },
+    };
+  }
+
+  const result = computeMatchRatings(m, sets, pairsById, playersById);
+  return {
+    plan: {
+      updates: [
+        ...result.pairs.map(u =>
+          planUpdate('pair', pairUpdate(u.entity.id, u), [
+            [c.PR_GP, u.entity.gamesPlayed],
+          ])
+        ),
+        ...result.players.map(u =>
+          planUpdate('player', playerUpdate(u.entity.id, u), [
+            [c.P_GP, u.entity.gamesPlayed],
+          ])
+        ),
+      ],
+      history: historyEntries(m, result, await nextLedgerSeq()).map(
+        h => h.fields
+      ),
+    },
+    result: {
+      pair1Won: result.pair1Won,
+      deltaPair: Math.round(result.deltaPair),
+      deltaPlayer: Math.round(result.deltaPlayer),
+      multiplier: Math.round(result.margin.multiplier * 100) / 100,
+      setDiff: result.margin.setDiff,
+      gameDiff: result.margin.gameDiff,
+    },
+  };
+}
+
+// Where a match's or a session's plan and its state are stored.
+function planOwner(session) {
+  const c = cfg();
+  return session
+    ? {
+        table: c.T_SESSIONS,
+        state: c.SN_RATINGS_STATE,
+        plan: c.SN_RATINGS_PLAN,
+        link: 'session',
+      }
+    : {
+        table: c.T_MATCHES,
+        state: c.M_RATINGS_STATE,
+        plan: c.M_RATINGS_PLAN,
+        link: 'match',
+      };
+}
+
+/**
+ * Applies a plan written by a confirmation (or, with `session`, by finishing
+ * a session) and marks its record APPLIED (or CONFLICT). `recovering` also
+ * checks for ledger entries written by an earlier, interrupted attempt.
+ */
+export async function applyRatingsPlan(
+  id,
+  plan,
+  { recovering = false, session = false } = {}
+) {
+  const c = cfg();
+  const owner = planOwner(session);
+  const conflicts = [];
+
+  for (const [type, table] of [
+    ['pair', c.T_PAIRS],
+    ['player', c.T_PLAYERS],
+  ]) {
+    const updates = plan.updates.filter(u => u.type === type);
+    if (!updates.length) continue;
+    const current = Object.fromEntries(
+      (await listAll(table, { maxRecords: 1000 })).map(r => [r.id, r.fields])
+    );
+    const at = (f, target) =>
+      Object.keys(target).every(k => Number(f[k] || 0) === Number(target[k]));
+
+    const writes = [];
+    for (const u of updates) {
+      const f = current[u.id] || {};
+      if (at(f, u.check)) writes.push({ id: u.id, fields: u.fields });
+      else if (!at(f, pick(u.fields, Object.keys(u.check))))
+        conflicts.push(`${type} ${u.id}`);
+    }
+    await updateRecords(table, writes);
+  }
+
+  let history = plan.history;
+  if (recovering && history.length) {
+    const written = new Set(
+      (await listAll(c.T_RATING_HISTORY))
+        .map(normalizeRatingChange)
+        .filter(h => h[owner.link] === id)
+        .map(h => `${h.entityType}:${h.entityId}`)
+    );
+    history = history.filter(
+      h => !written.has(`${h[c.RH_ENTITY_TYPE]}:${h[c.RH_ENTITY_ID]}`)
+    );
+  }
+  await createRecords(
+    c.T_RATING_HISTORY,
+    history.map(fields => ({ fields }))
+  );
+
+  if (conflicts.length)
+    console.error(
+      `${owner.link} ${id}: ratings of ${conflicts.join(', ')} changed since the plan was made; run recompute-ratings`
+    );
+  await updateRecords(owner.table, [
+    {
+      id,
+      fields: {
+        [owner.state]: conflicts.length
+          ? c.RATINGS_CONFLICT
+          : c.RATINGS_APPLIED,
+        [owner.plan]: '',
+      },
+    },
+  ]);
+  return { conflicts };
+}
+
+function pick(obj, keys) {
+  return Object.fromEntries(keys.map(k => [k, obj[k]]));
+}
+
+/**
+ * Completes every confirmed match and finished session whose plan is still
+ * PENDING and returns how many were found. A plan left on a match that is no
+ * longer CONFIRMED is dropped.
+ */
+export async function finishPendingRatings() {
+  const c = cfg();
+  const pending = await listAll(c.T_MATCHES, {
+    where: { [c.M_RATINGS_STATE]: c.RATINGS_PENDING },
+  });
+  const pendingSessions = await listAll(c.T_SESSIONS, {
+    where: { [c.SN_RATINGS_STATE]: c.RATINGS_PENDING },
+  });
+
+  for (const rec of pending) {
+    const m = normalizeMatch(rec);
+    if (m.status !== c.STATUS_CONFIRMED) {
+      console.warn(`match ${m.id} is ${m.status}: dropping its rating plan`);
+      await updateRecords(c.T_MATCHES, [
+        {
+          id: m.id,
+          fields: { [c.M_RATINGS_STATE]: '', [c.M_RATINGS_PLAN]: '' },
+        },
+      ]);
+      continue;
+    }
+    console.log(`match ${m.id}: finishing interrupted rating update`);
+    try {
+      await applyRatingsPlan(m.id, JSON.parse(rec.fields[c.M_RATINGS_PLAN]), {
+        recovering: true,
+      });
+    } catch (e) {
+      // Left PENDING for the next run; other matches still go ahead.
+      console.error(
+        `match ${m.id} rating recovery error:`,
+        e?.message,
+        e?.details || ''
+      );
+    }
+  }
+
+  for (const rec of pendingSessions) {
+    console.log(`session ${rec.id}: finishing interrupted rating update`);
+    try {
+      await applyRatingsPlan(
+        rec.id,
+        JSON.parse(rec.fields[c.SN_RATINGS_PLAN]),
+        { recovering: true, session: true }
+      );
+    } catch (e) {
+      console.error(
+        `session ${rec.id} rating recovery error:`,
+        e?.message,
+        e?.details || ''
+      );
+    }
+  }
+  return pending.length + pendingSessions.length;
+}
+
+/**
+ * Records the friendly result of a confirmed unranked match (or takes it back
+ * with `undo`, when the match is voided). Nothing goes to the rating ledger.
+ */
+export async function applyFriendlyResult(
+  matchRec,
+  setScoresForMatch,
+  { undo = false } = {}
+) {
+  const c = cfg();
+  const m = normalizeMatch(matchRec);
+
+  const playersById = Object.fromEntries(
+    (await listAll(c.T_PLAYERS, { maxRecords: 1000 }))
+      .map(normalizePlayer)
+      .map(p => [p.id, p])
+  );
+  const pairsById = Object.fromEntries(
+    (await listAll(c.T_PAIRS, { maxRecords: 1000 }))
+      .map(normalizePair)
+      .map(p => [p.id, p])
+  );
+
+  const result = computeFriendlyResult(
+    m,
+    (setScoresForMatch || []).map(normalizeSetScore),
+    pairsById,
+    playersById,
+    undo ? -1 : 1
+  );
+
+  await updateRecords(
+    c.T_PAIRS,
+    result.pairs.map(u => friendlyUpdate('pair', u.entity.id, u))
+  );
+  await updateRecords(
+    c.T_PLAYERS,
+    result.players.map(u => friendlyUpdate('player', u.entity.id, u))
+  );
+  return { pair1Won: result.pair1Won };
+}
+
+/**
+ * Individual ratings for a points-scored session (Americano / Mexicano) through
+ * the configured engine. Games are replayed in round/court order with the
+ * share of points won as the score; ratings stay unrounded until the end.
+ * Returns the next rating state of every player who played; W/L/GP are left
+ * alone.
+ */
+export function computeSessionRatings(games, playersById) {
+  const c = cfg();
+  const engine = ratingEngine();
+  const states = {};
+  const state = id =>
+    states[id] ||
+    (playersById[id]
+      ? {
+          rating: playersById[id].rating,
+          rd: playersById[id].rd,
+          volatility: playersById[id].volatility,
+        }
+      : {
+          rating: c.DEFAULT_RATING,
+          rd: c.DEFAULT_RD,
+          volatility: c.DEFAULT_VOLATILITY,
+        });
+
+  const scored = games
+    .filter(
+      g => g.points1 != null && g.points2 != null && g.points1 + g.points2 > 0
+    )
+    .sort((a, b) => a.round - b.round || a.court - b.court);
+  for (const g of scored) {
+    const share = g.points1 / (g.points1 + g.points2);
+    const step = engine.rateTeams(
+      g.team1.map(state),
+      g.team2.map(state),
+      share,
+      'player'
+    );
+    g.team1.forEach((id, i) => (states[id] = step.a[i]));
+    g.team2.forEach((id, i) => (states[id] = step.b[i]));
+  }
+
+  return Object.entries(states)
+    .filter(([id]) => playersById[id])
+    .map(([id, s]) => ({
+      entity: playersById[id],
+      rating: Math.round(s.rating),
+      rd: s.rd,
+      volatility: s.volatility,
+    }));
+}
+
+function sessionHistoryEntries(session, result, seq) {
+  const c = cfg();
+  return result.map(u => ({
+    fields: {
+      [c.RH_SESSION]: [session.id],
+      [c.RH_SEQ]: seq,
+      [c.RH_DATE]: session.date || new Date().toISOString().slice(0, 10),
+      ...ledgerFields('player', u),
+    },
+  }));
+}
+
+/**
+ * Rating plan of a session about to be finished: every player's rating after
+ * replaying its scored games (computeSessionRatings), checked against the
+ * stored rating, and one ledger entry per player. Returns the plan and the
+ * per-player changes the finish route reports.
+ */
+export async function planSessionRatings(session, games) {
+  const c = cfg();
+  const players = await listAll(c.T_PLAYERS, { maxRecords: 1000 });
+  const storedRating = Object.fromEntries(
+    players.map(r => [r.id, r.fields[c.P_INDIV_RATING]])
+  );
+  const playersById = Object.fromEntries(
+    players.map(r => [r.id, normalizePlayer(r)])
+  );
+
+  const result = computeSessionRatings(games, playersById);
+  const updates = result.map(u =>
+    planUpdate(
+      'player',
+      {
+        id: u.entity.id,
+        fields: {
+          [c.P_INDIV_RATING]: u.rating,
+          ...deviationFields(c.P_RD, c.P_VOL, u),
+        },
+      },
+      [[c.P_INDIV_RATING, storedRating[u.entity.id]]]
+    )
+  );
+  const history = sessionHistoryEntries(
+    session,
+    result,
+    await nextLedgerSeq()
+  ).map(h => h.fields);
+
+  return {
+    plan: { updates, history },
+    ratings: result.map(u => ({
+      id: u.entity.id,
+      name: u.entity.name,
+      oldRating: u.entity.rating,
+      newRating: u.rating,
+      delta: u.rating - u.entity.rating,
+    })),
+  };
+}
+
+export function ratingDiff(oldPlayers, oldPairs, playersById, pairsById) {
+  const pairName = p =>
+    [p.player1, p.player2].map(id => oldPlayers[id]?.name || '—').join(' + ');
+  const diffRow = (type, before, after) => ({
+    type,
+    id: before.id,
+    name: type === 'pair' ? pairName(before) : before.name,
+    oldRating: before.rating,
+    newRating: after.rating,
+    delta: after.rating - before.rating,
+    old: {
+      gamesPlayed: before.gamesPlayed,
+      wins: before.wins,
+      losses: before.losses,
+      friendlyWins: before.friendlyWins,
+      friendlyLosses: before.friendlyLosses,
+    },
+    new: {
+      gamesPlayed: after.gamesPlayed,
+      wins: after.wins,
+      losses: after.losses,
+      friendlyWins: after.friendlyWins,
+      friendlyLosses: after.friendlyLosses,
+    },
+  });
+  const changed = (a, b) =>
+    a.rating !== b.rating ||
+    a.rd !== b.rd ||
+    a.volatility !== b.volatility ||
+    a.gamesPlayed !== b.gamesPlayed ||
+    a.wins !== b.wins ||
+    a.losses !== b.losses ||
+    a.friendlyWins !== b.friendlyWins ||
+    a.friendlyLosses !== b.friendlyLosses;
+
+  const players = Object.values(oldPlayers)
+    .filter(p => changed(p, playersById[p.id]))
+    .map(p => diffRow('player', p, playersById[p.id]));
+  const pairs = Object.values(oldPairs)
+    .filter(p => changed(p, pairsById[p.id]))
+    .map(p => diffRow('pair', p, pairsById[p.id]));
+  return { players, pairs };
+}
+
+export async function saveRatingDiff(diff, playersById, pairsById) {
+  const c = cfg();
+  const withFriendly = (type, update, u) => ({
+    id: update.id,
+    fields: { ...update.fields, ...friendlyUpdate(type, update.id, u).fields },
+  });
+  const pairUpdates = diff.pairs.map(d =>
+    withFriendly('pair', pairUpdate(d.id, pairsById[d.id]), pairsById[d.id])
+  );
+  const playerUpdates = diff.players.map(d =>
+    withFriendly(
+      'player',
+      playerUpdate(d.id, playersById[d.id]),
+      playersById[d.id]
+    )
+  );
+  await updateRecords(c.T_PAIRS, pairUpdates);
+  await updateRecords(c.T_PLAYERS, playerUpdates);
+}
+
+function matchOrderKey(m) {
+  return `${m.date || ''} ${m.time || ''} ${m.createdTime || ''}`;
+}
+
+/**
+ * Orders seasons by start date and returns a function giving a match's
+ * position in that order: its tagged season, otherwise the latest season that
+ * started on or before the match date (0 = before the first season).
+ */
+export function seasonRanker(seasons) {
+  const sorted = [...seasons].sort((a, b) =>
+    String(a.startDate || '').localeCompare(String(b.startDate || ''))
+  );
+  const rankById = Object.fromEntries(sorted.map((s, i) => [s.id, i + 1]));
+  const rankOf = m => {
+    if (m.season && rankById[m.season]) return rankById[m.season];
+    let rank = 0;
+    sorted.forEach((s, i) => {
+      if (m.date && s.startDate && m.date >= s.startDate) rank = i + 1;
+    });
+    return rank;
+  };
+  rankOf.seasons = sorted;
+  rankOf.rankById = rankById;
+  return rankOf;
+}
+
+// Moves a rating `factor` (0..1) of the way back to DEFAULT_RATING.
+export function softResetRating(rating, factor) {
+  const c = cfg();
+  return Math.round(rating - (rating - c.DEFAULT_RATING) * factor);
+}
+
+/**
+ * End-of-season step on in-memory state: soft-resets every rating by
+ * `factor` and zeroes W/L/GP. Mutates playersById/pairsById and returns the
+ * RatingHistory entries (no match, tagged with the season, ledger number
+ * `seq`) for ratings that moved.
+ */
+export function applySeasonReset(season, factor, playersById, pairsById, seq) {
+  const c = cfg();
+  const date = (season.closedAt || new Date().toISOString()).slice(0, 10);
+  const entries = [];
+  for (const [type, byId] of [
+    ['pair', pairsById],
+    ['player', playersById],
+  ]) {
+    for (const e of Object.values(byId)) {
+      const rating = softResetRating(e.rating, factor);
+      if (rating !== e.rating) {
+        entries.push({
+          fields: {
+            [c.RH_SEASON]: [season.id],
+            [c.RH_SEQ]: seq,
+            [c.RH_ENTITY_TYPE]: type,
+            [c.RH_ENTITY_ID]: e.id,
+            [c.RH_DATE]: date,
+            [c.RH_OLD_RATING]: e.rating,
+            [c.RH_NEW_RATING]: rating,
+            [c.RH_DELTA]: rating - e.rating,
+            [c.RH_K]: 0,
+          },
+        });
+      }
+      byId[e.id] = { ...e, rating, gamesPlayed: 0, wins: 0, losses: 0 };
+    }
+  }
+  return entries;
+}
+
+/**
+ * Rebuilds every player and pair rating from scratch: resets everyone to
+ * DEFAULT_RATING with zero W/L/GP, then replays all ranked CONFIRMED matches
+ * and rated FINISHED sessions season by season (date order within a season)
+ * through computeMatchRatings / computeSessionRatings. After each CLOSED
+ * season its soft-reset is applied again. Friendly W/L is tallied again from
+ * the unranked CONFIRMED matches. With dryRun nothing is written and
+ * only the diff is returned. Otherwise ratings are saved and the RatingHistory
+ * ledger is replaced with the replayed entries.
+ */
+export async function recomputeAllRatings({ dryRun = true } = {}) {
+  const c = cfg();
+
+  const [
+    playerRecs,
+    pairRecs,
+    matchRecs,
+    setRecs,
+    historyRecs,
+    seasonRecs,
+    sessionRecs,
+    sessionGameRecs,
+  ] = await Promise.all([
+    listAll(c.T_PLAYERS),
+    listAll(c.T_PAIRS),
+    listAll(c.T_MATCHES),
+    listAll(c.T_SETSCORES),
+    listAll(c.T_RATING_HISTORY),
+    listAll(c.T_SEASONS),
+    listAll(c.T_SESSIONS),
+    listAll(c.T_SESSION_GAMES),
+  ]);
+
+  const oldPlayers = Object.fromEntries(
+    playerRecs.map(r => [r.id, normalizePlayer(r)])
+  );
+  const oldPairs = Object.fromEntries(
+    pairRecs.map(r => [r.id, normalizePair(r)])
+  );
+
+  const rankOf = seasonRanker(seasonRecs.map(normalizeSeason));
+  const closedSeasons = rankOf.seasons.filter(
+    s => s.status === c.SEASON_CLOSED
+  );
+
+  const reset = x => ({
+    ...x,
+    rating: c.DEFAULT_RATING,
+    rd: c.DEFAULT_RD,
+    volatility: c.DEFAULT_VOLATILITY,
+    gamesPlayed: 0,
+    wins: 0,
+    losses: 0,
+    friendlyWins: 0,
+    friendlyLosses: 0,
+  });
+  const playersById = Object.fromEntries(
+    Object.values(oldPlayers).map(p => [p.id, reset(p)])
+  );
+  const pairsById = Object.fromEntries(
+    Object.values(oldPairs).map(p => [p.id, reset(p)])
+  );
+
+  const setsByMatch = {};
+  for (const r of setRecs) {
+    const s = normalizeSetScore(r);
+    if (!s.match) continue;
+    (setsByMatch[s.match] ||= []).push(s);
+  }
+
+  const allConfirmed = matchRecs
+    .map(r => ({ ...normalizeMatch(r), createdTime: r.createdTime || '' }))
+    .filter(m => m.status === c.STATUS_CONFIRMED);
+  const confirmed = allConfirmed.filter(m => m.ranked);
+  const friendlies = allConfirmed.filter(m => !m.ranked);
+
+  const gamesBySession = {};
+  for (const r of sessionGameRecs) {
+    const g = normalizeSessionGame(r);
+    if (g.session) (gamesBySession[g.session] ||= []).push(g);
+  }
+  const sessions = sessionRecs
+    .map(normalizeSession)
+    .filter(s => s.rated && s.status === c.SESSION_FINISHED)
+    .map(s => ({ ...s, time: '', createdTime: s.finishedAt || '' }));
+
+  const events = [
+    ...confirmed.map(m => ({ m })),
+    ...sessions.map(session => ({ session })),
+  ].sort((a, b) => {
+    const x = a.m || a.session;
+    const y = b.m || b.session;
+    return (
+      rankOf(x) - rankOf(y) || matchOrderKey(x).localeCompare(matchOrderKey(y))
+    );
+  });
+
+  const history = [];
+  const skipped = [];
+  // The ledger is replaced, so its write order starts over.
+  let seq = 0;
+
+  // Soft-resets of closed seasons that end before the given rank.
+  const resetsBefore = rank => {
+    while (
+      closedSeasons.length &&
+      rankOf.rankById[closedSeasons[0].id] < rank
+    ) {
+      const s = closedSeasons.shift();
+      history.push(
+        ...applySeasonReset(s, s.softReset, playersById, pairsById, ++seq)
+      );
+    }
+  };
+
+  for (const { m, session } of events) {
+    resetsBefore(rankOf(m || session));
+    if (session) {
+      const result = computeSessionRatings(
+        gamesBySession[session.id] || [],
+        playersById
+      );
+      history.push(...sessionHistoryEntries(session, result, ++seq));
+      for (const u of result)
+        playersById[u.entity.id] = {
+          ...u.entity,
+          rating: u.rating,
+          rd: u.rd,
+          volatility: u.volatility,
+        };
+      continue;
+    }
+
+    let result;
+    try {
+      result = computeMatchRatings(
+        m,
+        setsByMatch[m.id] || [],
+        pairsById,
+        playersById
+      );
+    } catch (e) {
+      skipped.push({ matchId: m.id, date: m.date, error: e.message });
+      continue;
+    }
+    history.push(...historyEntries(m, result, ++seq));
+    const applied = u => ({
+      ...u.entity,
+      rating: u.rating,
+      rd: u.rd,
+      volatility: u.volatility,
+      gamesPlayed: u.gamesPlayed,
+      wins: u.wins,
+      losses: u.losses,
+    });
+    for (const u of result.pairs) pairsById[u.entity.id] = applied(u);
+    for (const u of result.players) playersById[u.entity.id] = applied(u);
+  }
+  resetsBefore(Infinity);
+
+  // Friendly W/L does not depend on order or ratings: a plain tally.
+  for (const m of friendlies) {
+    let result;
+    try {
+      result = computeFriendlyResult(
+        m,
+        setsByMatch[m.id] || [],
+        pairsById,
+        playersById
+      );
+    } catch (e) {
+      skipped.push({ matchId: m.id, date: m.date, error: e.message });
+      continue;
+    }
+    const applied = u => ({
+      ...u.entity,
+      friendlyWins: u.friendlyWins,
+      friendlyLosses: u.friendlyLosses,
+    });
+    for (const u of result.pairs) pairsById[u.entity.id] = applied(u);
+    for (const u of result.players) playersById[u.entity.id] = applied(u);
+  }
+
+  const { players: playerDiff, pairs: pairDiff } = ratingDiff(
+    oldPlayers,
+    oldPairs,
+    playersById,
+    pairsById
+  );
+
+  const summary = {
+    dryRun,
+    replayedMatches: allConfirmed.length - skipped.length,
+    replayedSessions: sessions.length,
+    skipped,
+    players: playerDiff,
+    pairs: pairDiff,
+  };
+  if (dryRun) return summary;
+
+  await saveRatingDiff(
+    { players: playerDiff, pairs: pairDiff },
+    playersById,
+    pairsById
+  );
+
+  const oldHistoryIds = historyRecs.map(r => normalizeRatingChange(r).id);
+  await deleteRecords(c.T_RATING_HISTORY, oldHistoryIds);
+  await createRecords(c.T_RATING_HISTORY, history);
+
+  // The replay covers every confirmed match, so no rating plan is left open.
+  const open = [c.RATINGS_PENDING, c.RATINGS_CONFLICT];
+  await updateRecords(
+    c.T_MATCHES,
+    matchRecs
+      .map(normalizeMatch)
+      .filter(m => open.includes(m.ratingsState))
+      .map(m => ({
+        id: m.id,
+        fields: {
+          [c.M_RATINGS_STATE]:
+            m.status === c.STATUS_CONFIRMED ? c.RATINGS_APPLIED : '',
+          [c.M_RATINGS_PLAN]: '',
+        },
+      }))
+  );
+
+  return summary;
+}
+
+/**
+ * Undoes the rating, W/L and GP changes of one confirmed match.
+ *
+ * The RatingHistory ledger gives each participant's rating before the match.
+ * Every later match (in the order ratings were applied) that involves an
+ * affected player or pair is replayed from those ratings through
+ * computeMatchRatings, and its participants become affected in turn. Only the
+ * voided match's participants lose a game from W/L/GP; replayed matches keep
+ * their result and only their rating deltas change; later rated sessions are
+ * replayed the same way through computeSessionRatings. The ledger is updated
+ * to match. If the match has no ledger entries (confirmed before the
+ * ledger existed) nothing is changed and `needsRecompute` is returned instead.
+ */
+export async function rollbackMatchRatings(matchId, { dryRun = false } = {}) {
+  const c = cfg();
+
+  const [playerRecs, pairRecs, matchRecs, setRecs, historyRecs, gameRecs] =
+    await Promise.all([
+      listAll(c.T_PLAYERS),
+      listAll(c.T_PAIRS),
+      listAll(c.T_MATCHES),
+      listAll(c.T_SETSCORES),
+      listAll(c.T_RATING_HISTORY),
+      listAll(c.T_SESSION_GAMES),
+    ]);
+
+  const oldPlayers = Object.fromEntries(
+    playerRecs.map(r => [r.id, normalizePlayer(r)])
+  );
+  const oldPairs = Object.fromEntries(
+    pairRecs.map(r => [r.id, normalizePair(r)])
+  );
+  const matchesById = Object.fromEntries(
+    matchRecs.map(r => [r.id, normalizeMatch(r)])
+  );
+
+  const history = historyRecs.map(normalizeRatingChange);
+  const voidedEntries = history.filter(h => h.match === matchId);
+  if (!voidedEntries.length) {
+    return {
+      dryRun,
+      needsRecompute: true,
+      replayedMatches: [],
+      players: [],
+      pairs: [],
+    };
+  }
+
+  // Ledger entries grouped per match, in the order ratings were applied.
+  const groups = new Map();
+  for (const h of [...history].sort(ledgerOrder)) {
+    const key = h.match || (h.session ? `session:${h.session}` : null);
+    if (!key) continue;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key).push(h);
+  }
+  const order = [...groups.keys()];
+  const later = order.slice(order.indexOf(matchId) + 1);
+
+  const setsByMatch = {};
+  for (const r of setRecs) {
+    const s = normalizeSetScore(r);
+    if (!s.match) continue;
+    (setsByMatch[s.match] ||= []).push(s);
+  }
+
+  const gamesBySession = {};
+  for (const r of gameRecs) {
+    const g = normalizeSessionGame(r);
+    if (g.session) (gamesBySession[`session:${g.session}`] ||= []).push(g);
+  }
+
+  const playersById = Object.fromEntries(
+    Object.values(oldPlayers).map(p => [p.id, { ...p }])
+  );
+  const pairsById = Object.fromEntries(
+    Object.values(oldPairs).map(p => [p.id, { ...p }])
+  );
+  const stateFor = type => (type === 'pair' ? pairsById : playersById);
+
+  // Participants go back to their pre-match rating and lose this game.
+  const voided = matchesById[matchId];
+  const voidedSets = setsByMatch[matchId] || [];
+  const setWins = voidedSets.reduce(
+    (acc, s) => {
+      if (s.p1 > s.p2) acc.p1++;
+      else acc.p2++;
+      return acc;
+    },
+    { p1: 0, p2: 0 }
+  );
+  const pair1Won = setWins.p1 > setWins.p2;
+  const pair1Side = new Set(
+    [
+      voided?.pair1,
+      oldPairs[voided?.pair1]?.player1,
+      oldPairs[voided?.pair1]?.player2,
+    ].filter(Boolean)
+  );
+
+  const affected = new Set();
+  for (const h of voidedEntries) {
+    const entity = stateFor(h.entityType)[h.entityId];
+    if (!entity) continue;
+    const won = pair1Side.has(h.entityId) ? pair1Won : !pair1Won;
+    entity.rating = h.oldRating;
+    entity.rd = h.oldRd ?? entity.rd;
+    entity.volatility = h.oldVolatility ?? entity.volatility;
+    entity.gamesPlayed = Math.max(0, entity.gamesPlayed - 1);
+    if (won) entity.wins = Math.max(0, entity.wins - 1);
+    else entity.losses = Math.max(0, entity.losses - 1);
+    affected.add(h.entityId);
+  }
+
+  const ledgerUpdates = [];
+  const replayedMatches = [];
+
+  for (const laterId of later) {
+    const entries = groups.get(laterId);
+    if (!entries.some(h => affected.has(h.entityId))) continue;
+
+    const isSession = laterId.startsWith('session:');
+    const m = matchesById[laterId];
+    if (!isSession && (!m || m.status !== c.STATUS_CONFIRMED)) continue;
+
+    // Pre-match ratings: replayed state for affected entities, ledger otherwise.
+    const before = {};
+    for (const h of entries) {
+      const entity = stateFor(h.entityType)[h.entityId];
+      if (!entity) continue;
+      before[h.entityId] = affected.has(h.entityId)
+        ? { ...entity }
+        : {
+            ...entity,
+            rating: h.oldRating,
+            rd: h.oldRd ?? entity.rd,
+            volatility: h.oldVolatility ?? entity.volatility,
+          };
+    }
+    const pick = type =>
+      Object.fromEntries(
+        entries
+          .filter(h => h.entityType === type && before[h.entityId])
+          .map(h => [h.entityId, before[h.entityId]])
+      );
+
+    let result;
+    try {
+      result = isSession
+        ? {
+            pairs: [],
+            players: computeSessionRatings(
+              gamesBySession[laterId] || [],
+              pick('player')
+            ),
+          }
+        : computeMatchRatings(
+            m,
+            setsByMatch[laterId] || [],
+            pick('pair'),
+            pick('player')
+          );
+    } catch (e) {
+      console.error(`rollback: cannot replay match ${laterId}:`, e.message);
+      continue;
+    }
+
+    const entryById = Object.fromEntries(entries.map(h => [h.entityId, h]));
+    for (const [type, list] of [
+      ['pair', result.pairs],
+      ['player', result.players],
+    ]) {
+      for (const u of list) {
+        const id = u.entity.id;
+        const current = stateFor(type)[id];
+        // The ledger delta of this match is replaced, W/L/GP stay as they are.
+        current.rating = u.rating;
+        current.rd = u.rd;
+        current.volatility = u.volatility;
+        affected.add(id);
+        const h = entryById[id];
+        if (h) ledgerUpdates.push({ id: h.id, fields: ledgerFields(type, u) });
+      }
+    }
+    if (!isSession) replayedMatches.push(laterId);
+  }
+
+  const diff = ratingDiff(oldPlayers, oldPairs, playersById, pairsById);
+  const summary = { dryRun, needsRecompute: false, replayedMatches, ...diff };
+  if (dryRun) return summary;
+
+  await saveRatingDiff(diff, playersById, pairsById);
+  await updateRecords(c.T_RATING_HISTORY, ledgerUpdates);
+  await deleteRecords(
+    c.T_RATING_HISTORY,
+    voidedEntries.map(h => h.id)
+  );
+
+  return summary;
+}
@@ -0,0 +1,87 @@
+/**
+ * Rebuilds all ratings by replaying CONFIRMED matches and rated sessions in
+ * date order.
+ *
+ *   npm run recompute-ratings             # dry run: print the diff only
+ *   npm run recompute-ratings -- --apply  # write ratings + rebuild RatingHistory
+ *
+ * Uses the same env as the server (STORAGE_BACKEND, AIRTABLE_*, DEFAULT_RATING,
+ * ELO_K_PAIR, ELO_K_PLAYER, RATING_ENGINE, DEFAULT_RD, DEFAULT_VOLATILITY,
+ * GLICKO_TAU). --apply is for a stopped server: the script writes outside
+ * the server's rating lock and read cache, so it refuses while a server
+ * answers on PORT. Use POST /api/admin/ratings/recompute on a running one.
+ */
+import { storageMissingEnv } from '../storage/index.js';
+import { recomputeAllRatings } from '../ratings.js';
+
+function fmtRecord(r) {
+  const friendly =
+    r.friendlyWins || r.friendlyLosses
+      ? ` (friendly ${r.friendlyWins}W/${r.friendlyLosses}L)`
+      : '';
+  return `${r.gamesPlayed} GP ${r.wins}W/${r.losses}L${friendly}`;
+}
+
+function printDiff(title, rows) {
+  console.log(`\n${title}: ${rows.length} changed`);
+  for (const d of rows) {
+    const sign = d.delta > 0 ? '+' : '';
+    console.log(
+      `  ${(d.name || d.id).padEnd(28)} ${String(d.oldRating).padStart(5)} -> ${String(
+        d.newRating
+      ).padStart(5)} (${sign}${d.delta})  ${fmtRecord(d.old)} -> ${fmtRecord(
+        d.new
+      )}`
+    );
+  }
+}
+
+// True when a server answers its health check on PORT (default 8080).
+async function serverRunning() {
+  const port = process.env.PORT || 8080;
+  try {
+    const res = await fetch(`http://127.0.0.1:${port}/api/health`, {
+      signal: AbortSignal.timeout(2000),
+    });
+    return res.ok;
+  } catch {
+    return false;
+  }
+}
+
+async function main() {
+  const apply = process.argv.includes('--apply');
+
+  const missing = storageMissingEnv();
+  if (missing.length) {
+    console.error(`Missing env: ${missing.join(', ')}`);
+    process.exit(1);
+  }
+
+  if (apply && (await serverRunning())) {
+    console.error(
+      'The server is running: stop it first, or recompute through POST /api/admin/ratings/recompute with {"dryRun": false}.'
+    );
+    process.exit(1);
+  }
+
+  const summary = await recomputeAllRatings({ dryRun: !apply });
+
+  console.log(
+    `${apply ? 'APPLIED' : 'DRY RUN'}: replayed ${summary.replayedMatches} confirmed matches and ${summary.replayedSessions} rated sessions`
+  );
+  for (const s of summary.skipped) {
+    console.log(
+      `  skipped match ${s.matchId} (${s.date || 'no date'}): ${s.error}`
+    );
+  }
+  printDiff('Players', summary.players);
+  printDiff('Pairs', summary.pairs);
+
+  if (!apply) console.log('\nNothing written. Re-run with --apply to save.');
+}
+
+main().catch(e => {
+  console.error('recompute failed:', e?.message || e, e?.details || '');
+  process.exit(1);
+});
@@ -0,0 +1,207 @@
+import { cfg } from './config.js';
+import {
+  normalizeMatch,
+  normalizePair,
+  normalizePlayer,
+  normalizeSeason,
+  normalizeStanding,
+} from './normalize.js';
+import { listAll, createRecords, updateRecords } from './storage/index.js';
+import {
+  applySeasonReset,
+  nextLedgerSeq,
+  ratingDiff,
+  saveRatingDiff,
+  seasonRanker,
+} from './ratings.js';
+
+/**
+ * ---- Seasons ----
+ * At most one season is ACTIVE; new matches are tagged with it. Closing a
+ * season archives the final player and pair tables into Standings, then
+ * soft-resets ratings toward DEFAULT_RATING and zeroes W/L/GP for the next
+ * season.
+ */
+function seasonError(status, message) {
+  const err = new Error(message);
+  err.status = status;
+  return err;
+}
+
+export async function listSeasons() {
+  const c = cfg();
+  const recs = await listAll(c.T_SEASONS);
+  return seasonRanker(recs.map(normalizeSeason)).seasons;
+}
+
+export async function activeSeason() {
+  const c = cfg();
+  const found = await listAll(c.T_SEASONS, {
+    maxRecords: 1,
+    where: { [c.SE_STATUS]: c.SEASON_ACTIVE },
+  });
+  return found[0] ? normalizeSeason(found[0]) : null;
+}
+
+export async function seasonStandings(seasonId) {
+  const c = cfg();
+  // Linked-record fields cannot be matched by id in Airtable formulas.
+  const recs = await listAll(c.T_STANDINGS);
+  return recs
+    .map(normalizeStanding)
+    .filter(s => s.season === seasonId)
+    .sort((a, b) => a.rank - b.rank);
+}
+
+export async function createSeason({ name, startDate, endDate }) {
+  const c = cfg();
+  if (!name) throw seasonError(400, 'name is required');
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(startDate || ''))
+    throw seasonError(400, 'startDate must be YYYY-MM-DD');
+  if (endDate && !/^\d{4}-\d{2}-\d{2}$/.test(endDate))
+    throw seasonError(400, 'endDate must be YYYY-MM-DD');
+  if (endDate && endDate < startDate)
+    throw seasonError(400, 'endDate must not be before startDate');
+
+  const current = await activeSeason();
+  if (current) throw seasonError(409, `Close season "${current.name}" first`);
+
+  const seasons = await listSeasons();
+  const last = seasons[seasons.length - 1];
+  if (last && startDate < (last.endDate || last.startDate))
+    throw seasonError(409, `Season must start after "${last.name}"`);
+
+  const created = await createRecords(c.T_SEASONS, [
+    {
+      fields: {
+        [c.SE_NAME]: name,
+        [c.SE_START]: startDate,
+        [c.SE_END]: endDate || '',
+        [c.SE_STATUS]: c.SEASON_ACTIVE,
+      },
+    },
+  ]);
+  return normalizeSeason(created.records[0]);
+}
+
+function standingRows(season, byId, type, nameOf) {
+  const c = cfg();
+  return Object.values(byId)
+    .filter(e => e.gamesPlayed > 0)
+    .sort((a, b) => b.rating - a.rating || b.wins - a.wins)
+    .map((e, i) => ({
+      fields: {
+        [c.ST_SEASON]: [season.id],
+        [c.ST_ENTITY_TYPE]: type,
+        [c.ST_ENTITY_ID]: e.id,
+        [c.ST_NAME]: nameOf(e),
+        [c.ST_RANK]: i + 1,
+        [c.ST_RATING]: e.rating,
+        [c.ST_GP]: e.gamesPlayed,
+        [c.ST_W]: e.wins,
+        [c.ST_L]: e.losses,
+      },
+    }));
+}
+
+/**
+ * Closes the ACTIVE season `seasonId`. Refuses while any of its matches still
+ * waits for confirmation or an admin decision. `softReset` (0..1) is how much
+ * of each rating's distance to DEFAULT_RATING is removed; 0 keeps ratings and
+ * only zeroes W/L/GP. With dryRun nothing is written.
+ */
+export async function closeSeason(
+  seasonId,
+  { softReset = 0, dryRun = false } = {}
+) {
+  const c = cfg();
+  const factor = Number(softReset);
+  if (!Number.isFinite(factor) || factor < 0 || factor > 1)
+    throw seasonError(400, 'softReset must be between 0 and 1');
+
+  const [seasonRecs, playerRecs, pairRecs, matchRecs] = await Promise.all([
+    listAll(c.T_SEASONS),
+    listAll(c.T_PLAYERS),
+    listAll(c.T_PAIRS),
+    listAll(c.T_MATCHES),
+  ]);
+  const seasons = seasonRecs.map(normalizeSeason);
+  const season = seasons.find(s => s.id === seasonId);
+  if (!season) throw seasonError(404, 'Season not found');
+  if (season.status !== c.SEASON_ACTIVE)
+    throw seasonError(409, `Season is ${season.status || 'not active'}`);
+
+  const rankOf = seasonRanker(seasons);
+  const unresolved = matchRecs
+    .map(normalizeMatch)
+    .filter(
+      m =>
+        [c.STATUS_PENDING, c.STATUS_DISPUTED, c.STATUS_REJECTED].includes(
+          m.status
+        ) && rankOf(m) === rankOf.rankById[season.id]
+    );
+  if (unresolved.length)
+    throw seasonError(
+      409,
+      `${unresolved.length} match(es) of this season are still pending or disputed`
+    );
+
+  const oldPlayers = Object.fromEntries(
+    playerRecs.map(r => [r.id, normalizePlayer(r)])
+  );
+  const oldPairs = Object.fromEntries(
+    pairRecs.map(r => [r.id, normalizePair(r)])
+  );
+
+  const pairName = p =>
+    [p.player1, p.player2].map(id => oldPlayers[id]?.name || '—').join(' + ');
+  const standings = [
+    ...standingRows(season, oldPlayers, 'player', p => p.name),
+    ...standingRows(season, oldPairs, 'pair', pairName),
+  ];
+
+  const playersById = Object.fromEntries(
+    Object.values(oldPlayers).map(p => [p.id, { ...p }])
+  );
+  const pairsById = Object.fromEntries(
+    Object.values(oldPairs).map(p => [p.id, { ...p }])
+  );
+  const history = applySeasonReset(
+    season,
+    factor,
+    playersById,
+    pairsById,
+    await nextLedgerSeq()
+  );
+  const diff = ratingDiff(oldPlayers, oldPairs, playersById, pairsById);
+
+  const champion = type =>
+    standings.find(
+      r => r.fields[c.ST_ENTITY_TYPE] === type && r.fields[c.ST_RANK] === 1
+    )?.fields[c.ST_NAME] || null;
+  const summary = {
+    dryRun,
+    season: season.name,
+    softReset: factor,
+    champions: { player: champion('player'), pair: champion('pair') },
+    archived: standings.length,
+    ...diff,
+  };
+  if (dryRun) return summary;
+
+  await createRecords(c.T_STANDINGS, standings);
+  await saveRatingDiff(diff, playersById, pairsById);
+  await createRecords(c.T_RATING_HISTORY, history);
+  await updateRecords(c.T_SEASONS, [
+    {
+      id: season.id,
+      fields: {
+        [c.SE_STATUS]: c.SEASON_CLOSED,
+        [c.SE_CLOSED_AT]: new Date().toISOString(),
+        [c.SE_SOFT_RESET]: factor,
+      },
+    },
+  ]);
+
+  return summary;
+}
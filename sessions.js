@@ -0,0 +1,438 @@
+import { cfg } from './config.js';
+import {
+  normalizePlayer,
+  normalizeSession,
+  normalizeSessionGame,
+} from './normalize.js';
+import {
+  listAll,
+  getRecord,
+  createRecords,
+  updateRecords,
+} from './storage/index.js';
+import { applyRatingsPlan, planSessionRatings } from './ratings.js';
+
+/**
+ * ---- Sessions (Americano / Mexicano) ----
+ * A social format for one evening: N individual players, partners rotate
+ * every round and each game is scored in points (e.g. to 24). Players collect
+ * the points their team won, which gives the individual leaderboard.
+ *
+ *   AMERICANO  the whole rotation is drawn up front, spreading partners and
+ *              opponents as evenly as possible
+ *   MEXICANO   round 1 is random; every next round is generated from the
+ *              current standings once the previous round is fully scored:
+ *              1st + 4th vs 2nd + 3rd on the top court, and so on
+ *
+ * With more players than court places, the ones who have sat out the least
+ * sit out next. Finishing a rated session feeds individual ratings only.
+ */
+const SHUFFLE_TRIES = 50;
+
+function sessionError(status, message) {
+  const err = new Error(message);
+  err.status = status;
+  return err;
+}
+
+function shuffle(list) {
+  const out = [...list];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
+
+const pairKey = (a, b) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+// Players left out of a round: fewest sit-outs so far, ties broken at random.
+function pickSitters(playerIds, count, sitOuts) {
+  return shuffle(playerIds)
+    .sort((a, b) => (sitOuts[a] || 0) - (sitOuts[b] || 0))
+    .slice(0, count);
+}
+
+function rotationStats(rounds) {
+  const partners = {};
+  const opponents = {};
+  const sitOuts = {};
+  for (const { games, sitters } of rounds) {
+    for (const [t1, t2] of games) {
+      for (const team of [t1, t2]) {
+        const k = pairKey(team[0], team[1]);
+        partners[k] = (partners[k] || 0) + 1;
+      }
+      for (const a of t1) {
+        for (const b of t2) {
+          const k = pairKey(a, b);
+          opponents[k] = (opponents[k] || 0) + 1;
+        }
+      }
+    }
+    for (const id of sitters) sitOuts[id] = (sitOuts[id] || 0) + 1;
+  }
+  return { partners, opponents, sitOuts };
+}
+
+// Courts of 4 in list order: [a, b] vs [c, d].
+function courtsInOrder(playing) {
+  const games = [];
+  for (let i = 0; i + 3 < playing.length; i += 4) {
+    games.push([
+      [playing[i], playing[i + 1]],
+      [playing[i + 2], playing[i + 3]],
+    ]);
+  }
+  return games;
+}
+
+function americanoRound(playerIds, previous) {
+  const stats = rotationStats(previous);
+  const sitters = pickSitters(playerIds, playerIds.length % 4, stats.sitOuts);
+  const playing = playerIds.filter(id => !sitters.includes(id));
+
+  // Repeated partners weigh more than repeated opponents.
+  const cost = games =>
+    games.reduce((sum, [t1, t2]) => {
+      let s = 0;
+      for (const team of [t1, t2])
+        s += 10 * (stats.partners[pairKey(team[0], team[1])] || 0);
+      for (const a of t1)
+        for (const b of t2) s += stats.opponents[pairKey(a, b)] || 0;
+      return sum + s;
+    }, 0);
+
+  let best = null;
+  for (let i = 0; i < SHUFFLE_TRIES; i++) {
+    const games = courtsInOrder(shuffle(playing));
+    const score = cost(games);
+    if (!best || score < best.score) best = { games, score };
+    if (score === 0) break;
+  }
+  return { games: best.games, sitters };
+}
+
+export function americanoSchedule(playerIds, roundCount) {
+  const rounds = [];
+  for (let r = 0; r < roundCount; r++)
+    rounds.push(americanoRound(playerIds, rounds));
+  return rounds.map(r => r.games);
+}
+
+// Standings order in, courts of 4 out: 1 + 4 vs 2 + 3, 5 + 8 vs 6 + 7, ...
+export function mexicanoRound(rankedIds, previous) {
+  const { sitOuts } = rotationStats(previous);
+  const sitters = pickSitters(rankedIds, rankedIds.length % 4, sitOuts);
+  const playing = rankedIds.filter(id => !sitters.includes(id));
+  const games = [];
+  for (let i = 0; i + 3 < playing.length; i += 4) {
+    const [a, b, c, d] = playing.slice(i, i + 4);
+    games.push([
+      [a, d],
+      [b, c],
+    ]);
+  }
+  return games;
+}
+
+/**
+ * Individual standings: points won, games played and games won, sorted by
+ * points then wins. Unscored games do not count.
+ */
+export function sessionLeaderboard(session, games, playersById = {}) {
+  const rows = Object.fromEntries(
+    session.players.map(id => [
+      id,
+      {
+        playerId: id,
+        name: playersById[id]?.name || '—',
+        points: 0,
+        games: 0,
+        wins: 0,
+      },
+    ])
+  );
+  for (const g of games) {
+    if (g.points1 == null || g.points2 == null) continue;
+    for (const [team, mine, theirs] of [
+      [g.team1, g.points1, g.points2],
+      [g.team2, g.points2, g.points1],
+    ]) {
+      for (const id of team) {
+        const row = rows[id];
+        if (!row) continue;
+        row.points += mine;
+        row.games += 1;
+        if (mine > theirs) row.wins += 1;
+      }
+    }
+  }
+  return Object.values(rows).sort(
+    (a, b) => b.points - a.points || b.wins - a.wins
+  );
+}
+
+function roundsPlayed(games) {
+  return games.reduce((max, g) => Math.max(max, g.round), 0);
+}
+
+// Stored games back in the { games, sitters } shape used for rotation stats.
+function previousRounds(playerIds, games) {
+  const byRound = {};
+  for (const g of games) (byRound[g.round] ||= []).push(g);
+  return Object.values(byRound).map(list => {
+    const playing = new Set(list.flatMap(g => [...g.team1, ...g.team2]));
+    return {
+      games: list.map(g => [g.team1, g.team2]),
+      sitters: playerIds.filter(id => !playing.has(id)),
+    };
+  });
+}
+
+function gameRecords(sessionId, round, games) {
+  const c = cfg();
+  return games.map(([team1, team2], i) => ({
+    fields: {
+      [c.SG_SESSION]: [sessionId],
+      [c.SG_ROUND]: round,
+      [c.SG_COURT]: i + 1,
+      [c.SG_TEAM1]: team1,
+      [c.SG_TEAM2]: team2,
+    },
+  }));
+}
+
+async function loadSessionState(sessionId) {
+  const c = cfg();
+  const session = normalizeSession(await getRecord(c.T_SESSIONS, sessionId));
+  // Linked-record fields cannot be matched by id in Airtable formulas.
+  const [gameRecs, playerRecs] = await Promise.all([
+    listAll(c.T_SESSION_GAMES),
+    listAll(c.T_PLAYERS),
+  ]);
+  const games = gameRecs
+    .map(normalizeSessionGame)
+    .filter(g => g.session === session.id)
+    .sort((a, b) => a.round - b.round || a.court - b.court);
+  const playersById = Object.fromEntries(
+    playerRecs.map(r => [r.id, normalizePlayer(r)])
+  );
+  return { session, games, playersById };
+}
+
+function canManage(session, player, isAdmin) {
+  return isAdmin || session.createdBy === player.id;
+}
+
+export async function listSessions() {
+  const c = cfg();
+  const recs = await listAll(c.T_SESSIONS, {
+    sort: [{ field: c.SN_DATE, direction: 'desc' }],
+  });
+  return recs.map(normalizeSession);
+}
+
+/**
+ * Creates an ACTIVE session for `playerIds` (at least 4). Americano draws
+ * every round now; Mexicano only the first. `rounds` defaults to enough for
+ * everyone to partner everyone once (N - 1, or N when players sit out).
+ */
+export async function createSession(body, creator) {
+  const c = cfg();
+  const mode = body.mode || c.MODE_AMERICANO;
+  if (![c.MODE_AMERICANO, c.MODE_MEXICANO].includes(mode))
+    throw sessionError(400, `Unknown mode: ${mode}`);
+  if (!body.name) throw sessionError(400, 'name is required');
+  if (body.date && !/^\d{4}-\d{2}-\d{2}$/.test(body.date))
+    throw sessionError(400, 'date must be YYYY-MM-DD');
+
+  const playerIds = [...new Set((body.playerIds || []).filter(Boolean))];
+  if (playerIds.length < 4)
+    throw sessionError(400, 'At least 4 players are required');
+  for (const id of playerIds) await getRecord(c.T_PLAYERS, id);
+
+  const defaultRounds =
+    playerIds.length % 4 === 0 ? playerIds.length - 1 : playerIds.length;
+  const rounds = Number(body.rounds || defaultRounds);
+  if (!Number.isInteger(rounds) || rounds < 1 || rounds > 50)
+    throw sessionError(400, 'rounds must be between 1 and 50');
+  const pointsPerGame = Number(body.pointsPerGame || 0);
+  if (!Number.isInteger(pointsPerGame) || pointsPerGame < 0)
+    throw sessionError(400, 'pointsPerGame must be a non-negative integer');
+
+  const created = await createRecords(c.T_SESSIONS, [
+    {
+      fields: {
+        [c.SN_NAME]: body.name,
+        [c.SN_DATE]: body.date || new Date().toISOString().slice(0, 10),
+        [c.SN_MODE]: mode,
+        [c.SN_STATUS]: c.SESSION_ACTIVE,
+        [c.SN_PLAYERS]: playerIds,
+        [c.SN_ROUNDS]: rounds,
+        [c.SN_POINTS]: pointsPerGame,
+        [c.SN_RATED]: Boolean(body.rated),
+        [c.SN_CREATED_BY]: [creator.id],
+      },
+    },
+  ]);
+  const session = normalizeSession(created.records[0]);
+
+  const schedule =
+    mode === c.MODE_AMERICANO
+      ? americanoSchedule(playerIds, rounds)
+      : [americanoRound(playerIds, []).games];
+  const creates = schedule.flatMap((games, r) =>
+    gameRecords(session.id, r + 1, games)
+  );
+  await createRecords(c.T_SESSION_GAMES, creates);
+
+  return session;
+}
+
+// Score and finish writes of one session run one at a time, so the score
+// completing a Mexicano round sees every other score of it and the next round
+// is drawn exactly once.
+const sessionQueues = new Map();
+
+function withSessionLock(sessionId, fn) {
+  const run = (sessionQueues.get(sessionId) || Promise.resolve()).then(fn);
+  const tail = run.catch(() => {});
+  sessionQueues.set(sessionId, tail);
+  tail.then(() => {
+    if (sessionQueues.get(sessionId) === tail) sessionQueues.delete(sessionId);
+  });
+  return run;
+}
+
+/**
+ * Records the points of one game. Any player of the session (or an admin) may
+ * enter or correct a score while the session is ACTIVE. In Mexicano, scoring
+ * the last game of a round generates the next one, after which the finished
+ * round can no longer be changed.
+ */
+export async function scoreSessionGame(gameId, points, player, isAdmin) {
+  const c = cfg();
+  const game = normalizeSessionGame(await getRecord(c.T_SESSION_GAMES, gameId));
+  return withSessionLock(game.session, () =>
+    recordGameScore(gameId, points, player, isAdmin)
+  );
+}
+
+async function recordGameScore(gameId, { points1, points2 }, player, isAdmin) {
+  const c = cfg();
+  const game = normalizeSessionGame(await getRecord(c.T_SESSION_GAMES, gameId));
+  const { session, games, playersById } = await loadSessionState(game.session);
+  if (session.status !== c.SESSION_ACTIVE)
+    throw sessionError(409, 'Session is finished');
+  if (!isAdmin && !session.players.includes(player.id))
+    throw sessionError(403, 'Only players of this session can enter scores');
+
+  const p1 = Number(points1);
+  const p2 = Number(points2);
+  if (![p1, p2].every(n => Number.isInteger(n) && n >= 0))
+    throw sessionError(400, 'Points must be non-negative integers');
+  if (session.pointsPerGame && p1 + p2 !== session.pointsPerGame)
+    throw sessionError(
+      400,
+      `Points must add up to ${session.pointsPerGame} (got ${p1 + p2})`
+    );
+  if (session.mode === c.MODE_MEXICANO && game.round < roundsPlayed(games))
+    throw sessionError(409, 'The next round has already been drawn');
+
+  await updateRecords(c.T_SESSION_GAMES, [
+    { id: game.id, fields: { [c.SG_POINTS1]: p1, [c.SG_POINTS2]: p2 } },
+  ]);
+  const scored = games.map(g =>
+    g.id === game.id ? { ...g, points1: p1, points2: p2 } : g
+  );
+
+  const last = roundsPlayed(scored);
+  const roundDone = scored
+    .filter(g => g.round === last)
+    .every(g => g.points1 != null && g.points2 != null);
+  if (session.mode === c.MODE_MEXICANO && roundDone && last < session.rounds) {
+    // Ties on points go to the higher-rated player.
+    const ranked = sessionLeaderboard(session, scored, playersById)
+      .sort(
+        (a, b) =>
+          b.points - a.points ||
+          (playersById[b.playerId]?.rating ?? 0) -
+            (playersById[a.playerId]?.rating ?? 0)
+      )
+      .map(r => r.playerId);
+    const next = mexicanoRound(ranked, previousRounds(session.players, scored));
+    await createRecords(
+      c.T_SESSION_GAMES,
+      gameRecords(session.id, last + 1, next)
+    );
+  }
+
+  return sessionView(session.id);
+}
+
+/**
+ * Ends the session (creator or admin only). A rated session replays its
+ * scored games in order through the rating engine and saves where each
+ * player ends up, with one ledger entry per player; the plan is stored with
+ * FINISHED and applied like a match confirmation (see ratings.js).
+ */
+export function finishSession(sessionId, player, isAdmin) {
+  return withSessionLock(sessionId, () =>
+    endSession(sessionId, player, isAdmin)
+  );
+}
+
+async function endSession(sessionId, player, isAdmin) {
+  const c = cfg();
+  const { session, games } = await loadSessionState(sessionId);
+  if (!canManage(session, player, isAdmin))
+    throw sessionError(403, 'Only the organiser or an admin can finish it');
+  if (session.status !== c.SESSION_ACTIVE)
+    throw sessionError(409, 'Session is already finished');
+
+  const finishedAt = new Date().toISOString();
+  const { plan, ratings } = session.rated
+    ? await planSessionRatings(session, games)
+    : { plan: null, ratings: [] };
+  const updated = await updateRecords(c.T_SESSIONS, [
+    {
+      id: session.id,
+      fields: {
+        [c.SN_STATUS]: c.SESSION_FINISHED,
+        [c.SN_FINISHED_AT]: finishedAt,
+        ...(plan
+          ? {
+              [c.SN_RATINGS_STATE]: c.RATINGS_PENDING,
+              [c.SN_RATINGS_PLAN]: JSON.stringify(plan),
+            }
+          : {}),
+      },
+    },
+  ]);
+  const finished = normalizeSession(updated.records[0]);
+  if (plan) {
+    const { conflicts } = await applyRatingsPlan(session.id, plan, {
+      session: true,
+    });
+    finished.ratingsState = conflicts.length
+      ? c.RATINGS_CONFLICT
+      : c.RATINGS_APPLIED;
+  }
+
+  return { session: finished, ratings };
+}
+
+// Session, its games by round, the leaderboard and player names.
+export async function sessionView(sessionId) {
+  const { session, games, playersById } = await loadSessionState(sessionId);
+  const playerNames = Object.fromEntries(
+    session.players.map(id => [id, playersById[id]?.name || '—'])
+  );
+  return {
+    session,
+    games,
+    leaderboard: sessionLeaderboard(session, games, playersById),
+    playerNames,
+  };
+}
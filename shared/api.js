@@ -0,0 +1,752 @@
+/**
+ * ---- API contract ----
+ * Request and response of every /api route the web app calls. The server
+ * checks request bodies against `request` before the route runs (400 with
+ * field errors, see index.js); the web app's client takes its types from both
+ * (ApiRequest / ApiResponse). Responses are the `ok: true` body without `ok`;
+ * every route answers failures with ErrorResponse.
+ *
+ * initData is added by the client to every body and is not part of the
+ * requests below. Objects keep unknown keys.
+ */
+import {
+  array,
+  boolean,
+  date,
+  id,
+  nullable,
+  number,
+  object,
+  oneOf,
+  optional,
+  record,
+  string,
+} from './schema.js';
+import { MATCH_FORMATS } from './match-formats.js';
+
+// ---- Records as the server sends them (see normalize.js) ----
+
+const ratingFields = {
+  rating: number(),
+  rd: number(),
+  volatility: number(),
+  provisional: boolean(),
+  gamesPlayed: number(),
+  wins: number(),
+  losses: number(),
+  friendlyWins: number(),
+  friendlyLosses: number(),
+};
+
+export const PlayerSchema = object({
+  id: id(),
+  name: string(),
+  telegramId: nullable(number()),
+  telegramUsername: string(),
+  ...ratingFields,
+  invitedBy: nullable(string()),
+  inviteUsedAt: nullable(string()),
+});
+
+const pairFields = {
+  id: id(),
+  player1: nullable(string()),
+  player2: nullable(string()),
+  ...ratingFields,
+};
+
+export const PairSchema = object({
+  ...pairFields,
+  player1Obj: nullable(PlayerSchema),
+  player2Obj: nullable(PlayerSchema),
+});
+
+export const SetScoreSchema = object({
+  id: id(),
+  match: nullable(string()),
+  setNo: number(),
+  p1: number(),
+  p2: number(),
+  winnerPair: nullable(string()),
+});
+
+const matchFields = {
+  id: id(),
+  date: nullable(string()),
+  time: string(),
+  status: string(),
+  pair1: nullable(string()),
+  pair2: nullable(string()),
+  initiatedBy: nullable(string()),
+  confirmedBy: array(string()),
+  score: string(),
+  disputeReason: string(),
+  resolution: string(),
+  resolvedBy: nullable(string()),
+  resolvedAt: nullable(string()),
+  adminNote: string(),
+  reportedAt: nullable(string()),
+  autoConfirmed: boolean(),
+  court: string(),
+  proposedBy: nullable(string()),
+  season: nullable(string()),
+  ranked: boolean(),
+  tournament: nullable(string()),
+  stage: string(),
+  group: string(),
+  round: number(),
+  slot: number(),
+  format: string(),
+  ratingsState: string(),
+};
+
+// A match with its pairs, set scores and who may act on it (expandMatches).
+export const MatchSchema = object({
+  ...matchFields,
+  pair1Obj: nullable(PairSchema),
+  pair2Obj: nullable(PairSchema),
+  setScores: array(SetScoreSchema),
+  opponentPlayerIds: array(string()),
+  responderPlayerIds: array(string()),
+  autoConfirmAt: nullable(string()),
+});
+
+export const RatingChangeSchema = object({
+  id: id(),
+  match: nullable(string()),
+  entityType: string(),
+  entityId: string(),
+  date: nullable(string()),
+  oldRating: number(),
+  newRating: number(),
+  delta: number(),
+  k: number(),
+  oldRd: nullable(number()),
+  newRd: nullable(number()),
+  oldVolatility: nullable(number()),
+  newVolatility: nullable(number()),
+  season: nullable(string()),
+  session: nullable(string()),
+  seq: number(),
+  createdTime: nullable(string()),
+});
+
+const championsSchema = object({
+  player: nullable(string()),
+  pair: nullable(string()),
+});
+
+export const SeasonSchema = object({
+  id: id(),
+  name: string(),
+  startDate: nullable(string()),
+  endDate: nullable(string()),
+  status: string(),
+  closedAt: nullable(string()),
+  softReset: number(),
+});
+
+export const StandingSchema = object({
+  id: id(),
+  season: nullable(string()),
+  entityType: string(),
+  entityId: string(),
+  name: string(),
+  rank: number(),
+  rating: number(),
+  gamesPlayed: number(),
+  wins: number(),
+  losses: number(),
+});
+
+export const TournamentSchema = object({
+  id: id(),
+  name: string(),
+  date: nullable(string()),
+  format: string(),
+  status: string(),
+  pairs: array(string()),
+  groups: number(),
+  advance: number(),
+  ranked: boolean(),
+  seeds: array(nullable(string())),
+  winner: nullable(string()),
+});
+
+export const GroupRowSchema = object({
+  pairId: string(),
+  played: number(),
+  wins: number(),
+  losses: number(),
+  setsFor: number(),
+  setsAgainst: number(),
+  gamesFor: number(),
+  gamesAgainst: number(),
+});
+
+export const BracketSlotSchema = object({
+  round: number(),
+  slot: number(),
+  pair1: nullable(string()),
+  pair2: nullable(string()),
+  matchId: nullable(string()),
+  winner: nullable(string()),
+});
+
+const tournamentViewSchema = object({
+  tournament: TournamentSchema,
+  pairNames: record(string()),
+  groups: array(object({ name: string(), rows: array(GroupRowSchema) })),
+  rounds: array(array(BracketSlotSchema)),
+  matches: array(
+    object({
+      id: id(),
+      stage: string(),
+      group: string(),
+      round: number(),
+      slot: number(),
+      pair1: nullable(string()),
+      pair2: nullable(string()),
+      status: string(),
+      score: string(),
+    })
+  ),
+});
+
+export const SessionSchema = object({
+  id: id(),
+  name: string(),
+  date: nullable(string()),
+  mode: string(),
+  status: string(),
+  players: array(string()),
+  rounds: number(),
+  pointsPerGame: number(),
+  rated: boolean(),
+  createdBy: nullable(string()),
+  finishedAt: nullable(string()),
+  ratingsState: string(),
+  createdTime: nullable(string()),
+});
+
+export const SessionGameSchema = object({
+  id: id(),
+  session: nullable(string()),
+  round: number(),
+  court: number(),
+  team1: array(string()),
+  team2: array(string()),
+  points1: nullable(number()),
+  points2: nullable(number()),
+});
+
+const sessionViewSchema = object({
+  session: SessionSchema,
+  games: array(SessionGameSchema),
+  leaderboard: array(
+    object({
+      playerId: string(),
+      name: string(),
+      points: number(),
+      games: number(),
+      wins: number(),
+    })
+  ),
+  playerNames: record(string()),
+});
+
+// One row of a rating diff (recompute, rollback, season close).
+const recordSchema = object({
+  gamesPlayed: number(),
+  wins: number(),
+  losses: number(),
+  friendlyWins: number(),
+  friendlyLosses: number(),
+});
+export const RatingDiffRowSchema = object({
+  type: oneOf(['player', 'pair']),
+  id: id(),
+  name: string(),
+  oldRating: number(),
+  newRating: number(),
+  delta: number(),
+  old: recordSchema,
+  new: recordSchema,
+});
+
+// Played / won / lost against or with one player or pair (stats.js).
+const headToHeadFields = {
+  name: string(),
+  played: number(),
+  wins: number(),
+  losses: number(),
+  winPct: number(),
+};
+const wonLost = object({ won: number(), lost: number(), winPct: number() });
+
+// W/L, streaks (currentStreak > 0 wins in a row, < 0 losses) and set / game
+// ratios over confirmed matches of all seasons, friendlies included.
+const profileStats = {
+  played: number(),
+  wins: number(),
+  losses: number(),
+  winPct: number(),
+  currentStreak: number(),
+  longestWinStreak: number(),
+  longestLossStreak: number(),
+  sets: wonLost,
+  games: wonLost,
+  opponentPairs: array(object({ pairId: id(), ...headToHeadFields })),
+};
+const recentResult = {
+  matchId: id(),
+  date: nullable(string()),
+  won: boolean(),
+  ranked: boolean(),
+  score: string(), // from this side
+  opponentPairId: id(),
+  opponentNames: string(),
+};
+const partnerSchema = object({
+  playerId: id(),
+  pairId: id(),
+  ...headToHeadFields,
+});
+
+export const PlayerProfileSchema = object({
+  player: PlayerSchema,
+  ...profileStats,
+  partners: array(partnerSchema),
+  bestPartnership: nullable(partnerSchema),
+  opponents: array(object({ playerId: id(), ...headToHeadFields })),
+  recent: array(
+    object({ ...recentResult, partnerId: id(), partnerName: string() })
+  ),
+});
+
+export const PairProfileSchema = object({
+  pair: PairSchema,
+  ...profileStats,
+  recent: array(object(recentResult)),
+});
+
+// The invite link the Mini App was opened with (start_param), seen by the
+// invited player; pairId is their pair with the inviter if there is one.
+export const InviteSchema = object({
+  inviterId: id(),
+  inviterName: string(),
+  issuedAt: string(),
+  expired: boolean(),
+  pairId: nullable(string()),
+});
+
+// The 409 details of /api/matches/report when the result looks reported
+// already; score is from the reporter's side.
+export const DuplicateReportSchema = object({
+  matchId: id(),
+  status: string(),
+  date: nullable(string()),
+  score: string(),
+  sameScore: boolean(),
+  canConfirm: boolean(),
+});
+
+// Rating changes reported by confirm / resolve.
+const ratingResultFields = {
+  ratingDeltaPair: optional(number()),
+  ratingDeltaPlayer: optional(number()),
+  ratingMultiplier: optional(number()),
+};
+
+// ---- Request pieces ----
+
+const setInput = object({
+  p1: number({ integer: true, min: 0 }),
+  p2: number({ integer: true, min: 0 }),
+});
+const formatId = oneOf(
+  /** @type {(keyof typeof MATCH_FORMATS)[]} */ (Object.keys(MATCH_FORMATS))
+);
+const schedule = {
+  date: date(),
+  time: optional(
+    string({ pattern: /^\d{2}:\d{2}$/, message: 'must be HH:MM' })
+  ),
+  court: optional(string()),
+};
+
+const empty = object({});
+const matchIdOnly = object({ matchId: id() });
+
+// ---- Routes ----
+
+export const API = {
+  '/api/me': {
+    request: empty,
+    response: object({
+      user: object({ id: number() }),
+      joined: boolean(),
+      isAdmin: boolean(),
+      player: nullable(PlayerSchema),
+      invite: nullable(InviteSchema),
+    }),
+  },
+  '/api/join': {
+    request: empty,
+    response: object({
+      player: PlayerSchema,
+      action: oneOf(['created', 'updated']),
+      invite: nullable(InviteSchema),
+    }),
+  },
+  '/api/invites/create': {
+    request: empty,
+    // expiresAt: null when invites never expire
+    response: object({
+      token: string(),
+      link: string(),
+      expiresAt: nullable(string()),
+    }),
+  },
+  '/api/players': {
+    request: empty,
+    response: object({ players: array(PlayerSchema) }),
+  },
+  '/api/players/profile': {
+    request: object({
+      playerId: id(),
+      recent: optional(number({ integer: true, min: 1, max: 50 })),
+    }),
+    response: PlayerProfileSchema,
+  },
+  '/api/pairs': {
+    // Without options: every pair, best rating first.
+    request: object({
+      sort: optional(oneOf(['rating', 'winPct', 'wins', 'gamesPlayed'])),
+      minGames: optional(number({ integer: true, min: 0 })),
+      playerId: optional(id()),
+      limit: optional(number({ integer: true, min: 1 })),
+    }),
+    // total: pairs passing the filters before `limit`
+    response: object({ total: number(), pairs: array(PairSchema) }),
+  },
+  '/api/pairs/profile': {
+    request: object({
+      pairId: id(),
+      recent: optional(number({ integer: true, min: 1, max: 50 })),
+    }),
+    response: PairProfileSchema,
+  },
+  '/api/pairs/create': {
+    request: object({ player1Id: id(), player2Id: id() }),
+    response: object({ created: boolean(), pair: PairSchema }),
+  },
+  '/api/matches': {
+    request: object({
+      cursor: optional(string()),
+      limit: optional(number({ integer: true, min: 1, max: 100 })),
+      status: optional(
+        oneOf(['upcoming', 'played', 'pending', 'confirmed', 'disputed'])
+      ),
+      playerId: optional(id()),
+      pairId: optional(id()),
+      from: optional(date()),
+      to: optional(date()),
+      needsAction: optional(boolean()),
+    }),
+    response: object({
+      matches: array(MatchSchema),
+      nextCursor: nullable(string()),
+    }),
+  },
+  '/api/matches/report': {
+    // Either myPairId + oppPairId, or matchId of a SCHEDULED match.
+    request: object({
+      myPairId: optional(id()),
+      oppPairId: optional(id()),
+      matchId: optional(id()),
+      sets: array(setInput, { min: 1 }),
+      format: optional(formatId),
+      ranked: optional(boolean()),
+      date: optional(date()),
+      time: optional(string()),
+      // Generated by the client per result; a retry with the same key gets
+      // the match it created back (replayed) instead of a second one.
+      idempotencyKey: optional(string()),
+      // Answer to a 409 with details.duplicate: 'link' confirms or returns
+      // the existing match, 'create' reports another game anyway.
+      duplicateAction: optional(oneOf(['link', 'create'])),
+    }),
+    response: object({
+      matchId: id(),
+      status: string(),
+      ranked: boolean(),
+      message: string(),
+      replayed: optional(boolean()),
+      linked: optional(boolean()),
+      ...ratingResultFields,
+    }),
+  },
+  '/api/matches/confirm': {
+    request: matchIdOnly,
+    response: object({
+      status: string(),
+      message: string(),
+      confirmedBy: optional(array(string())),
+      ...ratingResultFields,
+    }),
+  },
+  '/api/matches/reject': {
+    request: object({ matchId: id(), reason: optional(string()) }),
+    response: object({ status: string(), message: string() }),
+  },
+  '/api/matches/dispute': {
+    request: object({ matchId: id(), reason: optional(string()) }),
+    response: object({ status: string(), message: string() }),
+  },
+  '/api/matches/challenge': {
+    request: object({
+      myPairId: id(),
+      oppPairId: id(),
+      ...schedule,
+      format: optional(formatId),
+      ranked: optional(boolean()),
+    }),
+    response: object({ matchId: id(), status: string(), message: string() }),
+  },
+  '/api/matches/respond': {
+    // date/time/court only for `propose`.
+    request: object({
+      matchId: id(),
+      action: oneOf(['accept', 'decline', 'propose']),
+      date: optional(date()),
+      time: schedule.time,
+      court: schedule.court,
+    }),
+    response: object({ status: string() }),
+  },
+  '/api/ratings/history': {
+    // Exactly one of playerId / pairId.
+    request: object({ playerId: optional(id()), pairId: optional(id()) }),
+    response: object({
+      entityType: oneOf(['player', 'pair']),
+      entityId: id(),
+      history: array(RatingChangeSchema),
+    }),
+  },
+  '/api/seasons': {
+    request: empty,
+    response: object({
+      seasons: array(
+        object({ ...SeasonSchema.shape, champions: championsSchema })
+      ),
+    }),
+  },
+  '/api/seasons/standings': {
+    request: object({ seasonId: id() }),
+    response: object({
+      seasonId: id(),
+      players: array(StandingSchema),
+      pairs: array(StandingSchema),
+    }),
+  },
+  '/api/tournaments': {
+    request: empty,
+    response: object({ tournaments: array(TournamentSchema) }),
+  },
+  '/api/tournaments/view': {
+    request: object({ tournamentId: id() }),
+    response: tournamentViewSchema,
+  },
+  '/api/sessions': {
+    request: empty,
+    response: object({ sessions: array(SessionSchema) }),
+  },
+  '/api/sessions/view': {
+    request: object({ sessionId: id() }),
+    response: sessionViewSchema,
+  },
+  '/api/sessions/create': {
+    request: object({
+      name: string({ min: 1 }),
+      date: optional(date()),
+      mode: optional(oneOf(['AMERICANO', 'MEXICANO'])),
+      playerIds: array(id()),
+      rounds: optional(number({ integer: true, min: 1, max: 50 })),
+      pointsPerGame: optional(number({ integer: true, min: 0 })),
+      rated: optional(boolean()),
+    }),
+    response: sessionViewSchema,
+  },
+  '/api/sessions/score': {
+    request: object({
+      gameId: id(),
+      points1: number({ integer: true, min: 0 }),
+      points2: number({ integer: true, min: 0 }),
+    }),
+    response: sessionViewSchema,
+  },
+  '/api/sessions/finish': {
+    request: object({ sessionId: id() }),
+    response: object({
+      session: SessionSchema,
+      ratings: array(
+        object({
+          id: id(),
+          name: string(),
+          oldRating: number(),
+          newRating: number(),
+          delta: number(),
+        })
+      ),
+    }),
+  },
+  '/api/admin/disputes': {
+    request: empty,
+    response: object({ matches: array(MatchSchema) }),
+  },
+  '/api/admin/matches/resolve': {
+    // sets only for `correct`.
+    request: object({
+      matchId: id(),
+      action: oneOf(['uphold', 'correct', 'void']),
+      sets: optional(array(setInput, { min: 1 })),
+      note: optional(string()),
+    }),
+    response: object({
+      status: string(),
+      resolution: string(),
+      message: string(),
+      ...ratingResultFields,
+    }),
+  },
+  '/api/admin/matches/void': {
+    request: object({
+      matchId: id(),
+      note: optional(string()),
+      dryRun: optional(boolean()),
+    }),
+    response: object({
+      dryRun: optional(boolean()),
+      status: optional(string()),
+      message: optional(string()),
+      rollback: nullable(
+        object({
+          dryRun: boolean(),
+          needsRecompute: boolean(),
+          replayedMatches: array(string()),
+          players: array(RatingDiffRowSchema),
+          pairs: array(RatingDiffRowSchema),
+        })
+      ),
+    }),
+  },
+  '/api/admin/tournaments/create': {
+    request: object({
+      name: string({ min: 1 }),
+      date: optional(date()),
+      format: optional(oneOf(['ROUND_ROBIN', 'KNOCKOUT', 'GROUPS_KNOCKOUT'])),
+      groups: optional(number({ integer: true, min: 1 })),
+      advance: optional(number({ integer: true, min: 1 })),
+      ranked: optional(boolean()),
+    }),
+    response: object({ tournament: TournamentSchema }),
+  },
+  '/api/admin/tournaments/register': {
+    request: object({ tournamentId: id(), pairIds: array(id()) }),
+    response: object({ tournament: TournamentSchema }),
+  },
+  '/api/admin/tournaments/start': {
+    request: object({ tournamentId: id() }),
+    response: object({ tournament: TournamentSchema }),
+  },
+  '/api/admin/seasons/create': {
+    request: object({
+      name: string({ min: 1 }),
+      startDate: date(),
+      endDate: optional(date()),
+    }),
+    response: object({ season: SeasonSchema }),
+  },
+  '/api/admin/seasons/close': {
+    request: object({
+      seasonId: id(),
+      softReset: optional(number({ min: 0, max: 1 })),
+      dryRun: optional(boolean()),
+    }),
+    response: object({
+      dryRun: boolean(),
+      season: string(),
+      softReset: number(),
+      champions: championsSchema,
+      archived: number(),
+      players: array(RatingDiffRowSchema),
+      pairs: array(RatingDiffRowSchema),
+    }),
+  },
+  '/api/admin/ratings/recompute': {
+    request: object({ dryRun: optional(boolean()) }),
+    response: object({
+      dryRun: boolean(),
+      replayedMatches: number(),
+      replayedSessions: number(),
+      skipped: array(
+        object({ matchId: id(), date: nullable(string()), error: string() })
+      ),
+      players: array(RatingDiffRowSchema),
+      pairs: array(RatingDiffRowSchema),
+    }),
+  },
+  '/api/admin/cache': {
+    request: object({ resync: optional(boolean()) }),
+    response: object({
+      resynced: array(string()),
+      cache: object({
+        enabled: boolean(),
+        tables: array(
+          object({
+            table: string(),
+            loaded: boolean(),
+            records: number(),
+            loadedAt: nullable(string()),
+            loading: boolean(),
+          })
+        ),
+        hits: number(),
+        loads: number(),
+        lastError: nullable(string()),
+        lastErrorAt: nullable(string()),
+      }),
+    }),
+  },
+};
+
+/** @typedef {keyof typeof API} ApiPath */
+/**
+ * @template {ApiPath} P
+ * @typedef {import('./schema.js').Infer<(typeof API)[P]['request']>} ApiRequest
+ */
+/**
+ * @template {ApiPath} P
+ * @typedef {import('./schema.js').Infer<(typeof API)[P]['response']>} ApiResponse
+ */
+/** @typedef {{ ok: false, error: string, details?: unknown }} ErrorResponse */
+
+/** @typedef {import('./schema.js').Infer<typeof PlayerSchema>} Player */
+/** @typedef {import('./schema.js').Infer<typeof PairSchema>} Pair */
+/** @typedef {import('./schema.js').Infer<typeof SetScoreSchema>} SetScore */
+/** @typedef {import('./schema.js').Infer<typeof MatchSchema>} Match */
+/** @typedef {import('./schema.js').Infer<typeof RatingChangeSchema>} RatingChange */
+/** @typedef {import('./schema.js').Infer<typeof DuplicateReportSchema>} DuplicateReport */
+/** @typedef {import('./schema.js').Infer<typeof InviteSchema>} Invite */
+/** @typedef {import('./schema.js').Infer<typeof PlayerProfileSchema>} PlayerProfile */
+/** @typedef {import('./schema.js').Infer<typeof PairProfileSchema>} PairProfile */
+/** @typedef {ApiResponse<'/api/seasons'>['seasons'][number]} Season */
+/** @typedef {import('./schema.js').Infer<typeof StandingSchema>} Standing */
+/** @typedef {import('./schema.js').Infer<typeof TournamentSchema>} Tournament */
+/** @typedef {import('./schema.js').Infer<typeof GroupRowSchema>} GroupRow */
+/** @typedef {import('./schema.js').Infer<typeof BracketSlotSchema>} BracketSlot */
+/** @typedef {ApiResponse<'/api/tournaments/view'>} TournamentView */
+/** @typedef {import('./schema.js').Infer<typeof SessionSchema>} Session */
+/** @typedef {import('./schema.js').Infer<typeof SessionGameSchema>} SessionGame */
+/** @typedef {ApiResponse<'/api/sessions/view'>} SessionView */
@@ -0,0 +1,157 @@
+/**
+ * ---- Match formats ----
+ * Shared by the server (report validation) and the web app (score inputs), so
+ * both accept exactly the same scores. Plain ESM without dependencies.
+ *
+ * A format is a best-of-`sets` match. Every set is played to `games` with a
+ * tie-break at `tiebreakAt` all (6 -> 7-6, pro-set to 9 -> 9-8). When
+ * `superTiebreak` is set, the deciding set is replaced by a match tie-break to
+ * that many points, won by 2 and written as "[10-8]". `goldenPoint` (no
+ * advantage at deuce) only changes how games are played, not valid scores.
+ */
+
+/**
+ * @typedef {{
+ *   id: string,
+ *   label: string,
+ *   sets: number,
+ *   games: number,
+ *   tiebreakAt: number,
+ *   superTiebreak: number,
+ *   goldenPoint: boolean,
+ * }} MatchFormat
+ */
+
+/** @type {Record<string, MatchFormat>} */
+export const MATCH_FORMATS = {
+  BEST_OF_3: {
+    id: 'BEST_OF_3',
+    label: 'Best of 3 sets',
+    sets: 3,
+    games: 6,
+    tiebreakAt: 6,
+    superTiebreak: 0,
+    goldenPoint: false,
+  },
+  BEST_OF_3_STB: {
+    id: 'BEST_OF_3_STB',
+    label: 'Best of 3, super tie-break instead of 3rd set',
+    sets: 3,
+    games: 6,
+    tiebreakAt: 6,
+    superTiebreak: 10,
+    goldenPoint: false,
+  },
+  PRO_SET: {
+    id: 'PRO_SET',
+    label: 'One pro-set to 9',
+    sets: 1,
+    games: 9,
+    tiebreakAt: 8,
+    superTiebreak: 0,
+    goldenPoint: false,
+  },
+  SHORT_SETS: {
+    id: 'SHORT_SETS',
+    label: 'Best of 3 short sets to 4, golden point',
+    sets: 3,
+    games: 4,
+    tiebreakAt: 4,
+    superTiebreak: 0,
+    goldenPoint: true,
+  },
+};
+
+export const DEFAULT_MATCH_FORMAT = 'BEST_OF_3';
+
+/** @returns {MatchFormat | null} */
+export function matchFormat(id) {
+  return MATCH_FORMATS[id || DEFAULT_MATCH_FORMAT] || null;
+}
+
+// 0-based index of the set that is a super tie-break in this format, or -1.
+export function superTiebreakIndex(format) {
+  return format.superTiebreak ? format.sets - 1 : -1;
+}
+
+function allowedSetScores(format) {
+  const g = format.games;
+  const t = format.tiebreakAt;
+  const scores = [`${g}-0..${g}-${g - 2}`];
+  if (t === g) scores.push(`${g + 1}-${g - 1}`);
+  scores.push(`${t + 1}-${t}`);
+  return scores.join(', ');
+}
+
+/**
+ * Checks one set (0-based `index`) and returns an error message or null.
+ * Scores are from either side's point of view; only the winner/loser matter.
+ */
+export function validateSetScore(format, index, p1, p2) {
+  const label =
+    index === superTiebreakIndex(format) ? 'Tie-break' : `Set ${index + 1}`;
+  if (!Number.isInteger(p1) || !Number.isInteger(p2))
+    return `${label}: enter numbers`;
+  if (p1 < 0 || p2 < 0) return `${label}: negative not allowed`;
+  if (p1 === p2) return `${label}: cannot be a draw`;
+
+  const w = Math.max(p1, p2);
+  const l = Math.min(p1, p2);
+
+  if (index === superTiebreakIndex(format)) {
+    const to = format.superTiebreak;
+    const ok = (w === to && l <= to - 2) || (w > to && w - l === 2);
+    return ok ? null : `${label}: first to ${to} points, won by 2`;
+  }
+
+  const g = format.games;
+  const t = format.tiebreakAt;
+  const ok =
+    (w === g && l <= g - 2) ||
+    (t === g && w === g + 1 && l === g - 1) ||
+    (w === t + 1 && l === t);
+  return ok ? null : `${label}: allowed ${allowedSetScores(format)}`;
+}
+
+/**
+ * How many sets the score needs so far: stops at the set that decides the
+ * match, or asks for one more while nobody has won enough sets yet.
+ */
+export function setsRequired(format, sets) {
+  const toWin = Math.ceil(format.sets / 2);
+  const won = [0, 0];
+  for (let i = 0; i < sets.length && i < format.sets; i++) {
+    const s = sets[i];
+    if (s.p1 === s.p2) return i + 1;
+    won[s.p1 > s.p2 ? 0 : 1]++;
+    if (won[0] === toWin || won[1] === toWin) return i + 1;
+  }
+  return Math.min(format.sets, sets.length + 1);
+}
+
+// Whole-match check; returns an error message or null.
+export function validateMatchScore(format, sets) {
+  if (!Array.isArray(sets) || !sets.length) return 'Enter the score';
+  for (let i = 0; i < sets.length; i++) {
+    const err = validateSetScore(format, i, sets[i]?.p1, sets[i]?.p2);
+    if (err) return err;
+  }
+  const needed = setsRequired(format, sets);
+  if (sets.length > needed)
+    return `Match was decided after ${needed} set(s). Remove the rest.`;
+  if (sets.length < needed) {
+    return needed - 1 === superTiebreakIndex(format)
+      ? 'Sets are level. Enter the super tie-break.'
+      : `Sets are level. Enter set ${needed}.`;
+  }
+  return null;
+}
+
+// "6-4 3-6 [10-8]"
+export function formatScoreText(format, sets) {
+  return sets
+    .map((s, i) =>
+      i === superTiebreakIndex(format) ? `[${s.p1}-${s.p2}]` : `${s.p1}-${s.p2}`
+    )
+    .join(' ');
+}
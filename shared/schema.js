@@ -0,0 +1,243 @@
+/**
+ * ---- Schemas ----
+ * A small runtime validator whose JSDoc types carry over to TypeScript, so one
+ * definition gives the server its checks and the web app its types (see
+ * shared/api.js). Plain ESM without dependencies.
+ *
+ * A schema is { parse(value, field, errors) } returning the value; problems
+ * are pushed to `errors` as { field, message } with dotted paths such as
+ * "sets.0.p1". Objects keep unknown keys and do not coerce values.
+ */
+
+/** @typedef {{ field: string, message: string }} FieldError */
+
+/**
+ * @template T
+ * @typedef {{
+ *   parse: (value: unknown, field: string, errors: FieldError[]) => T,
+ *   optional?: boolean,
+ * }} Schema
+ */
+
+/**
+ * @template S
+ * @typedef {S extends Schema<infer T> ? T : never} Infer
+ */
+
+/**
+ * @template {Record<string, Schema<unknown>>} S
+ * @typedef {{
+ *   [K in keyof S as S[K] extends { optional: true } ? never : K]: Infer<S[K]>
+ * } & {
+ *   [K in keyof S as S[K] extends { optional: true } ? K : never]?: Infer<S[K]>
+ * }} ShapeOf
+ */
+
+/**
+ * @template T
+ * @typedef {{ [K in keyof T]: T[K] } & {}} Simplify
+ */
+
+const fieldName = (field, key) => (field ? `${field}.${key}` : String(key));
+
+function check(test, message) {
+  return {
+    parse(value, field, errors) {
+      if (!test(value)) errors.push({ field, message });
+      return value;
+    },
+  };
+}
+
+/**
+ * @param {{ min?: number, pattern?: RegExp, message?: string }} [opts]
+ * @returns {Schema<string>}
+ */
+export function string({ min = 0, pattern, message } = {}) {
+  return {
+    parse(value, field, errors) {
+      if (typeof value !== 'string') {
+        errors.push({ field, message: 'must be a string' });
+      } else if (value.length < min) {
+        errors.push({
+          field,
+          message:
+            min === 1 ? 'is required' : `must be at least ${min} characters`,
+        });
+      } else if (pattern && !pattern.test(value)) {
+        errors.push({ field, message: message || `must match ${pattern}` });
+      }
+      return value;
+    },
+  };
+}
+
+// Record ids and other references: a non-empty string.
+export const id = () => string({ min: 1 });
+
+// Calendar date as stored: YYYY-MM-DD.
+export const date = () =>
+  string({ pattern: /^\d{4}-\d{2}-\d{2}$/, message: 'must be YYYY-MM-DD' });
+
+/**
+ * @param {{ min?: number, max?: number, integer?: boolean }} [opts]
+ * @returns {Schema<number>}
+ */
+export function number({ min, max, integer = false } = {}) {
+  return {
+    parse(value, field, errors) {
+      if (typeof value !== 'number' || !Number.isFinite(value))
+        errors.push({ field, message: 'must be a number' });
+      else if (integer && !Number.isInteger(value))
+        errors.push({ field, message: 'must be a whole number' });
+      else if (min !== undefined && value < min)
+        errors.push({ field, message: `must be at least ${min}` });
+      else if (max !== undefined && value > max)
+        errors.push({ field, message: `must be at most ${max}` });
+      return value;
+    },
+  };
+}
+
+/** @returns {Schema<boolean>} */
+export function boolean() {
+  return check(v => typeof v === 'boolean', 'must be true or false');
+}
+
+/** @returns {Schema<unknown>} */
+export function unknown() {
+  return check(() => true, '');
+}
+
+/**
+ * @template {string} const V
+ * @param {readonly V[]} values
+ * @returns {Schema<V>}
+ */
+export function oneOf(values) {
+  return check(v => values.includes(v), `must be one of ${values.join(', ')}`);
+}
+
+/**
+ * @template T
+ * @param {Schema<T>} item
+ * @param {{ min?: number }} [opts]
+ * @returns {Schema<T[]>}
+ */
+export function array(item, { min = 0 } = {}) {
+  return {
+    parse(value, field, errors) {
+      if (!Array.isArray(value)) {
+        errors.push({ field, message: 'must be a list' });
+        return value;
+      }
+      if (value.length < min)
+        errors.push({
+          field,
+          message:
+            min === 1 ? 'must not be empty' : `needs at least ${min} items`,
+        });
+      return value.map((x, i) => item.parse(x, fieldName(field, i), errors));
+    },
+  };
+}
+
+/**
+ * @template T
+ * @param {Schema<T>} item
+ * @returns {Schema<Record<string, T>>}
+ */
+export function record(item) {
+  return {
+    parse(value, field, errors) {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        errors.push({ field, message: 'must be an object' });
+        return value;
+      }
+      return Object.fromEntries(
+        Object.entries(value).map(([k, v]) => [
+          k,
+          item.parse(v, fieldName(field, k), errors),
+        ])
+      );
+    },
+  };
+}
+
+/**
+ * @template {Record<string, Schema<unknown>>} S
+ * @param {S} shape
+ * @returns {Schema<Simplify<ShapeOf<S>>> & { shape: S }}
+ */
+export function object(shape) {
+  return {
+    shape,
+    parse(value, field, errors) {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        errors.push({ field, message: 'must be an object' });
+        return value;
+      }
+      const out = { ...value };
+      for (const [key, schema] of Object.entries(shape)) {
+        const v = value[key];
+        if (schema.optional && (v === undefined || v === null || v === ''))
+          continue;
+        if (v === undefined) {
+          errors.push({ field: fieldName(field, key), message: 'is required' });
+          continue;
+        }
+        out[key] = schema.parse(v, fieldName(field, key), errors);
+      }
+      return out;
+    },
+  };
+}
+
+/**
+ * May be left out. In objects, null and "" (an empty form field) count as
+ * left out too.
+ * @template T
+ * @param {Schema<T>} schema
+ * @returns {Schema<T | undefined> & { optional: true }}
+ */
+export function optional(schema) {
+  return {
+    optional: true,
+    parse(value, field, errors) {
+      return value === undefined ? value : schema.parse(value, field, errors);
+    },
+  };
+}
+
+/**
+ * @template T
+ * @param {Schema<T>} schema
+ * @returns {Schema<T | null>}
+ */
+export function nullable(schema) {
+  return {
+    parse(value, field, errors) {
+      return value === null ? value : schema.parse(value, field, errors);
+    },
+  };
+}
+
+/**
+ * Runs a schema over a value.
+ * @template T
+ * @param {Schema<T>} schema
+ * @param {unknown} value
+ * @returns {{ value: T, errors: FieldError[] }}
+ */
+export function validate(schema, value) {
+  const errors = [];
+  const parsed = schema.parse(value, '', errors);
+  return { value: parsed, errors };
+}
+
+// "sets.0.p1 must be a number; date must be YYYY-MM-DD"
+export function describeErrors(errors) {
+  return errors
+    .map(e => (e.field ? `${e.field} ${e.message}` : e.message))
+    .join('; ');
+}
@@ -0,0 +1,260 @@
+import { cfg } from './config.js';
+import {
+  normalizeMatch,
+  normalizePair,
+  normalizePlayer,
+  normalizeSetScore,
+} from './normalize.js';
+import { listAll } from './storage/index.js';
+import {
+  formatScoreText,
+  matchFormat,
+  superTiebreakIndex,
+} from './shared/match-formats.js';
+
+/**
+ * ---- Player and pair statistics ----
+ * Worked out on request from CONFIRMED matches and their SetScores, ranked and
+ * friendly alike, over all seasons (the W/L on the Players and Pairs records
+ * only counts ranked matches of the current season). Super tie-break points
+ * count as a set, not as games, like the margin of victory in ratings.js.
+ */
+function statsError(status, message) {
+  const err = new Error(message);
+  err.status = status;
+  return err;
+}
+
+function playedOrderKey(m) {
+  return `${m.date || ''} ${m.time || ''} ${m.reportedAt || ''}`;
+}
+
+async function loadStatsData() {
+  const c = cfg();
+  const [playerRecs, pairRecs, matchRecs, setRecs] = await Promise.all([
+    listAll(c.T_PLAYERS),
+    listAll(c.T_PAIRS),
+    listAll(c.T_MATCHES, { where: { [c.M_STATUS]: c.STATUS_CONFIRMED } }),
+    listAll(c.T_SETSCORES),
+  ]);
+  const setsByMatch = new Map();
+  for (const s of setRecs.map(normalizeSetScore)) {
+    if (!setsByMatch.has(s.match)) setsByMatch.set(s.match, []);
+    setsByMatch.get(s.match).push(s);
+  }
+  return {
+    playersById: Object.fromEntries(
+      playerRecs.map(r => [r.id, normalizePlayer(r)])
+    ),
+    pairsById: Object.fromEntries(pairRecs.map(r => [r.id, normalizePair(r)])),
+    matches: matchRecs
+      .map(normalizeMatch)
+      .filter(m => setsByMatch.has(m.id))
+      .sort((a, b) => playedOrderKey(a).localeCompare(playedOrderKey(b))),
+    setsByMatch,
+  };
+}
+
+/**
+ * Oldest first, the confirmed matches of the pairs `isMine` accepts, each
+ * from that side: its pair, the opponents and the sets with p1 as its score.
+ */
+function sideResults(data, isMine) {
+  const { pairsById, matches, setsByMatch } = data;
+  const out = [];
+  for (const m of matches) {
+    const pair1 = pairsById[m.pair1];
+    const pair2 = pairsById[m.pair2];
+    if (!pair1 || !pair2 || isMine(pair1) === isMine(pair2)) continue;
+
+    const onPair1 = isMine(pair1);
+    const sets = [...setsByMatch.get(m.id)]
+      .sort((a, b) => a.setNo - b.setNo)
+      .map(s => ({
+        setNo: s.setNo,
+        p1: onPair1 ? s.p1 : s.p2,
+        p2: onPair1 ? s.p2 : s.p1,
+      }));
+    const setsWon = sets.filter(s => s.p1 > s.p2).length;
+    out.push({
+      m,
+      myPair: onPair1 ? pair1 : pair2,
+      oppPair: onPair1 ? pair2 : pair1,
+      sets,
+      won: setsWon > sets.length - setsWon,
+    });
+  }
+  return out;
+}
+
+const winPct = (wins, played) =>
+  played ? Math.round((wins / played) * 1000) / 10 : 0;
+
+// W/L, streaks (currentStreak > 0 is a winning run, < 0 a losing one) and
+// set and game ratios over sideResults().
+function summary(results) {
+  const sets = { won: 0, lost: 0 };
+  const games = { won: 0, lost: 0 };
+  let wins = 0;
+  let currentStreak = 0;
+  let longestWinStreak = 0;
+  let longestLossStreak = 0;
+
+  for (const r of results) {
+    const tiebreakSetNo = superTiebreakIndex(matchFormat(r.m.format)) + 1;
+    for (const s of r.sets) {
+      if (s.p1 > s.p2) sets.won++;
+      else sets.lost++;
+      if (s.setNo === tiebreakSetNo) continue;
+      games.won += s.p1;
+      games.lost += s.p2;
+    }
+
+    if (r.won) wins++;
+    currentStreak = r.won
+      ? Math.max(currentStreak, 0) + 1
+      : Math.min(currentStreak, 0) - 1;
+    longestWinStreak = Math.max(longestWinStreak, currentStreak);
+    longestLossStreak = Math.max(longestLossStreak, -currentStreak);
+  }
+
+  return {
+    played: results.length,
+    wins,
+    losses: results.length - wins,
+    winPct: winPct(wins, results.length),
+    currentStreak,
+    longestWinStreak,
+    longestLossStreak,
+    sets: { ...sets, winPct: winPct(sets.won, sets.won + sets.lost) },
+    games: { ...games, winPct: winPct(games.won, games.won + games.lost) },
+  };
+}
+
+const pairName = (pair, playersById) =>
+  [pair.player1, pair.player2]
+    .map(id => playersById[id]?.name || '—')
+    .join(' + ');
+
+// Adds one result to a { played, wins, losses } row of `rows`, keyed by id.
+function tally(rows, id, fields, won) {
+  if (!rows.has(id)) rows.set(id, { ...fields, played: 0, wins: 0, losses: 0 });
+  const row = rows.get(id);
+  row.played++;
+  if (won) row.wins++;
+  else row.losses++;
+}
+
+// Most played first
+const records = rows =>
+  [...rows.values()]
+    .map(r => ({ ...r, winPct: winPct(r.wins, r.played) }))
+    .sort(
+      (a, b) =>
+        b.played - a.played || b.wins - a.wins || a.name.localeCompare(b.name)
+    );
+
+function headToHead(results, playersById) {
+  const rows = new Map();
+  for (const r of results)
+    tally(
+      rows,
+      r.oppPair.id,
+      { pairId: r.oppPair.id, name: pairName(r.oppPair, playersById) },
+      r.won
+    );
+  return records(rows);
+}
+
+// The last `count` results, newest first, with the score from their side.
+const recentResults = (results, count, playersById, extra = () => ({})) =>
+  results
+    .slice(-count)
+    .reverse()
+    .map(r => ({
+      matchId: r.m.id,
+      date: r.m.date,
+      won: r.won,
+      ranked: r.m.ranked,
+      score: formatScoreText(matchFormat(r.m.format), r.sets),
+      opponentPairId: r.oppPair.id,
+      opponentNames: pairName(r.oppPair, playersById),
+      ...extra(r),
+    }));
+
+/**
+ * Profile of one player: the summary() stats, records with each partner and
+ * against each opponent player and pair, the best partnership (highest win %
+ * over at least BEST_PARTNER_MIN_MATCHES together) and the last `recent`
+ * matches.
+ */
+export async function playerProfile(playerId, { recent = 10 } = {}) {
+  const c = cfg();
+  const data = await loadStatsData();
+  const { playersById } = data;
+  const player = playersById[playerId];
+  if (!player) throw statsError(404, 'Player not found');
+
+  const results = sideResults(data, pair =>
+    [pair.player1, pair.player2].includes(playerId)
+  );
+  const partnerOf = pair =>
+    pair.player1 === playerId ? pair.player2 : pair.player1;
+  const name = id => playersById[id]?.name || '—';
+
+  const partnerRows = new Map();
+  const opponentRows = new Map();
+  for (const r of results) {
+    const partnerId = partnerOf(r.myPair);
+    tally(
+      partnerRows,
+      partnerId,
+      { playerId: partnerId, pairId: r.myPair.id, name: name(partnerId) },
+      r.won
+    );
+    for (const id of [r.oppPair.player1, r.oppPair.player2].filter(Boolean))
+      tally(opponentRows, id, { playerId: id, name: name(id) }, r.won);
+  }
+
+  const partners = records(partnerRows);
+  const bestPartnership =
+    partners
+      .filter(r => r.played >= c.BEST_PARTNER_MIN_MATCHES)
+      .sort((a, b) => b.winPct - a.winPct || b.played - a.played)[0] || null;
+
+  return {
+    player,
+    ...summary(results),
+    partners,
+    bestPartnership,
+    opponents: records(opponentRows),
+    opponentPairs: headToHead(results, playersById),
+    recent: recentResults(results, recent, playersById, r => {
+      const partnerId = partnerOf(r.myPair);
+      return { partnerId, partnerName: name(partnerId) };
+    }),
+  };
+}
+
+/**
+ * Detail page of one pair: the summary() stats, head-to-head against every
+ * pair it has played and the last `recent` matches.
+ */
+export async function pairProfile(pairId, { recent = 10 } = {}) {
+  const data = await loadStatsData();
+  const { playersById, pairsById } = data;
+  const pair = pairsById[pairId];
+  if (!pair) throw statsError(404, 'Pair not found');
+
+  const results = sideResults(data, p => p.id === pairId);
+  return {
+    pair: {
+      ...pair,
+      player1Obj: pair.player1 ? playersById[pair.player1] || null : null,
+      player2Obj: pair.player2 ? playersById[pair.player2] || null : null,
+    },
+    ...summary(results),
+    opponentPairs: headToHead(results, playersById),
+    recent: recentResults(results, recent, playersById),
+  };
+}
@@ -0,0 +1,359 @@
+import { cfg } from '../config.js';
+
+const AIRTABLE_API = 'https://api.airtable.com/v0';
+
+export function missingEnv() {
+  const c = cfg();
+  const missing = [];
+  if (!c.AIRTABLE_TOKEN) missing.push('AIRTABLE_TOKEN');
+  if (!c.AIRTABLE_BASE_ID) missing.push('AIRTABLE_BASE_ID');
+  return missing;
+}
+
+function airtableHeaders() {
+  const c = cfg();
+  return {
+    Authorization: `Bearer ${c.AIRTABLE_TOKEN}`,
+    'Content-Type': 'application/json',
+  };
+}
+
+function tableUrl(tableNameOrId) {
+  const c = cfg();
+  return `${AIRTABLE_API}/${encodeURIComponent(
+    c.AIRTABLE_BASE_ID
+  )}/${encodeURIComponent(tableNameOrId)}`;
+}
+
+/**
+ * ---- Request queue ----
+ * Every Airtable call goes through one FIFO queue that starts at most
+ * AIRTABLE_RATE_PER_SEC requests per second (Airtable allows 5 per base).
+ * 429s and 5xx answers are retried with exponential backoff and jitter;
+ * retries queue up again like any other request.
+ */
+const queue = [];
+let draining = false;
+let lastStartAt = 0;
+
+const sleep = ms => new Promise(resolve => setTimeout(resolve, ms));
+
+function enqueue(task) {
+  const c = cfg();
+  return new Promise((resolve, reject) => {
+    queue.push({ task, resolve, reject });
+    if (queue.length % c.AIRTABLE_QUEUE_LOG_DEPTH === 0)
+      console.warn(`airtable queue depth ${queue.length}`);
+    drain();
+  });
+}
+
+async function drain() {
+  if (draining) return;
+  draining = true;
+  try {
+    while (queue.length) {
+      const spacing = 1000 / cfg().AIRTABLE_RATE_PER_SEC;
+      const wait = lastStartAt + spacing - Date.now();
+      if (wait > 0) await sleep(wait);
+      const job = queue.shift();
+      lastStartAt = Date.now();
+      // Only starts are spaced out; requests may overlap.
+      job.task().then(job.resolve, job.reject);
+    }
+  } finally {
+    draining = false;
+  }
+}
+
+// A timed-out write may still have been applied, so only reads retry those.
+function retryable(method, err) {
+  if (err.upstreamStatus === 429 || err.upstreamStatus >= 500) return true;
+  return err.status === 504 && method === 'GET';
+}
+
+// Exponential with jitter (50-100% of the step), or what Retry-After asks for.
+function backoffMs(attempt, retryAfterMs) {
+  const c = cfg();
+  const step = Math.min(c.AIRTABLE_RETRY_BASE_MS * 2 ** attempt, 30000);
+  return Math.max(
+    retryAfterMs || 0,
+    Math.round(step * (0.5 + Math.random() / 2))
+  );
+}
+
+async function sendRequest(method, url, body) {
+  const c = cfg();
+  const controller = new AbortController();
+  const t = setTimeout(() => controller.abort(), c.AIRTABLE_TIMEOUT_MS);
+
+  try {
+    const res = await fetch(url, {
+      method,
+      headers: airtableHeaders(),
+      body: body ? JSON.stringify(body) : undefined,
+      signal: controller.signal,
+    });
+
+    const text = await res.text();
+    let json;
+    try {
+      json = text ? JSON.parse(text) : {};
+    } catch {
+      json = { raw: text };
+    }
+
+    if (!res.ok) {
+      const err = new Error(
+        json?.error?.message || json?.message || `Airtable error: ${res.status}`
+      );
+      err.status = 502;
+      err.upstreamStatus = res.status;
+      err.retryAfterMs = Number(res.headers.get('retry-after')) * 1000 || 0;
+      err.details = json;
+      throw err;
+    }
+    return json;
+  } catch (e) {
+    if (e?.name === 'AbortError') {
+      const err = new Error(
+        `Airtable request timed out after ${c.AIRTABLE_TIMEOUT_MS}ms`
+      );
+      err.status = 504;
+      throw err;
+    }
+    throw e;
+  } finally {
+    clearTimeout(t);
+  }
+}
+
+async function airtableRequest(method, url, body) {
+  const c = cfg();
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await enqueue(() => sendRequest(method, url, body));
+    } catch (e) {
+      if (attempt >= c.AIRTABLE_MAX_RETRIES || !retryable(method, e)) throw e;
+      const delay = backoffMs(attempt, e.retryAfterMs);
+      console.warn(
+        `airtable ${method} ${new URL(url).pathname} failed (${e.upstreamStatus || e.status}),` +
+          ` retry ${attempt + 1}/${c.AIRTABLE_MAX_RETRIES} in ${delay}ms, queue depth ${queue.length}`
+      );
+      await sleep(delay);
+    }
+  }
+}
+
+/**
+ * ---- Airtable schema cache (Metadata API) ----
+ * Uses field IDs for writes to avoid name mismatch.
+ */
+let schemaCachePromise = null;
+
+function norm(s) {
+  return String(s || '')
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(/[º°]/g, '°')
+    .replace(/№/g, 'n')
+    .replace(/[^\p{L}\p{N} °]/gu, '');
+}
+
+function fieldAliasesFor(tableKey, fieldName) {
+  const c = cfg();
+  if (tableKey === c.T_SETSCORES && fieldName === c.S_SET_NO) {
+    return [
+      'Set Nº',
+      'Set No',
+      'Set №',
+      'Set N',
+      'Set',
+      'Set #',
+      'Set Num',
+      'Set Number',
+    ];
+  }
+  return [];
+}
+
+async function getBaseSchema() {
+  const c = cfg();
+  if (!schemaCachePromise) {
+    schemaCachePromise = (async () => {
+      const url = `${AIRTABLE_API}/meta/bases/${encodeURIComponent(
+        c.AIRTABLE_BASE_ID
+      )}/tables`;
+      const data = await airtableRequest('GET', url);
+
+      const tables = Array.isArray(data?.tables) ? data.tables : [];
+      const byName = {};
+      const byId = {};
+
+      for (const t of tables) {
+        const tableId = t.id;
+        const tableName = t.name;
+        const fields = Array.isArray(t.fields) ? t.fields : [];
+
+        const fieldsByName = {};
+        const fieldsById = {};
+        const fieldsByNormName = {};
+
+        for (const f of fields) {
+          fieldsByName[f.name] = f;
+          fieldsById[f.id] = f;
+          fieldsByNormName[norm(f.name)] = f;
+        }
+
+        const tableObj = {
+          id: tableId,
+          name: tableName,
+          fieldsByName,
+          fieldsById,
+          fieldsByNormName,
+        };
+        byName[tableName] = tableObj;
+        byId[tableId] = tableObj;
+      }
+
+      return { byName, byId };
+    })().catch(e => {
+      console.error(
+        'Schema load failed (check schema.bases:read scope):',
+        e?.message || e
+      );
+      return null;
+    });
+  }
+  return schemaCachePromise;
+}
+
+async function resolveFieldKey(tableKey, fieldName) {
+  const schema = await getBaseSchema();
+  if (!schema) return fieldName;
+
+  const table = schema.byName[tableKey] || schema.byId[tableKey];
+  if (!table) return fieldName;
+
+  if (table.fieldsByName[fieldName]) return table.fieldsByName[fieldName].id;
+
+  for (const a of fieldAliasesFor(tableKey, fieldName)) {
+    if (table.fieldsByName[a]) return table.fieldsByName[a].id;
+  }
+
+  const n = norm(fieldName);
+  if (table.fieldsByNormName[n]) return table.fieldsByNormName[n].id;
+
+  for (const a of fieldAliasesFor(tableKey, fieldName)) {
+    const na = norm(a);
+    if (table.fieldsByNormName[na]) return table.fieldsByNormName[na].id;
+  }
+
+  return fieldName;
+}
+
+async function mapFields(tableKey, fieldsObj) {
+  const out = {};
+  for (const [k, v] of Object.entries(fieldsObj || {})) {
+    const key = await resolveFieldKey(tableKey, k);
+    out[key] = v;
+  }
+  return out;
+}
+
+function formulaValue(v) {
+  if (typeof v === 'number' || typeof v === 'boolean') return String(v);
+  return `'${String(v ?? '')
+    .replace(/\\/g, '\\\\')
+    .replace(/'/g, "\\'")}'`;
+}
+
+// { field: value, ... } -> AND({field} = value, ...)
+function whereToFormula(where) {
+  const parts = Object.entries(where).map(
+    ([field, value]) => `{${field}} = ${formulaValue(value)}`
+  );
+  if (parts.length === 1) return parts[0];
+  return `AND(${parts.join(', ')})`;
+}
+
+export async function listAll(tableName, paramsObj = {}) {
+  const records = [];
+  let offset = null;
+
+  do {
+    const params = new URLSearchParams();
+    params.set('pageSize', String(paramsObj.pageSize || 100));
+    if (paramsObj.maxRecords)
+      params.set('maxRecords', String(paramsObj.maxRecords));
+    if (paramsObj.where && Object.keys(paramsObj.where).length)
+      params.set('filterByFormula', whereToFormula(paramsObj.where));
+
+    if (Array.isArray(paramsObj.sort)) {
+      paramsObj.sort.forEach((s, i) => {
+        params.set(`sort[${i}][field]`, s.field);
+        params.set(`sort[${i}][direction]`, s.direction || 'asc');
+      });
+    }
+    if (offset) params.set('offset', offset);
+
+    const url = `${tableUrl(tableName)}?${params.toString()}`;
+    const data = await airtableRequest('GET', url);
+
+    if (Array.isArray(data?.records)) records.push(...data.records);
+    offset = data?.offset || null;
+  } while (offset);
+
+  return records;
+}
+
+export async function getRecord(tableName, recordId) {
+  return airtableRequest('GET', `${tableUrl(tableName)}/${recordId}`);
+}
+
+// Airtable takes at most 10 records per write; larger arrays go in batches.
+const BATCH_SIZE = 10;
+
+async function inBatches(items, send) {
+  const records = [];
+  for (let i = 0; i < items.length; i += BATCH_SIZE) {
+    const data = await send(items.slice(i, i + BATCH_SIZE));
+    if (Array.isArray(data?.records)) records.push(...data.records);
+  }
+  return { records };
+}
+
+export async function createRecords(tableName, records) {
+  const mapped = [];
+  for (const r of records) {
+    mapped.push({ ...r, fields: await mapFields(tableName, r.fields) });
+  }
+  return inBatches(mapped, batch =>
+    airtableRequest('POST', tableUrl(tableName), {
+      records: batch,
+      typecast: true,
+    })
+  );
+}
+
+export async function updateRecords(tableName, records) {
+  const mapped = [];
+  for (const r of records) {
+    mapped.push({ ...r, fields: await mapFields(tableName, r.fields) });
+  }
+  return inBatches(mapped, batch =>
+    airtableRequest('PATCH', tableUrl(tableName), {
+      records: batch,
+      typecast: true,
+    })
+  );
+}
+
+export async function deleteRecords(tableName, recordIds) {
+  return inBatches(recordIds, batch => {
+    const params = new URLSearchParams();
+    for (const id of batch) params.append('records[]', id);
+    return airtableRequest('DELETE', `${tableUrl(tableName)}?${params}`);
+  });
+}
@@ -0,0 +1,129 @@
+import { queryRecords } from './query.js';
+
+/**
+ * ---- Read model ----
+ * In-memory copy of the tables every refresh reads (players, pairs, matches,
+ * set scores), so reads stop scanning Airtable. A table is loaded on first
+ * use, kept current by the writes that go through storage/index.js and
+ * reloaded on resync, which picks up edits made directly in Airtable. Writes
+ * still go to the backend first; the copy only changes once they succeed.
+ */
+let loader = null;
+const tables = new Map(); // table name -> { byId, loadedAt, loading, pending }
+const stats = { hits: 0, loads: 0, lastError: null, lastErrorAt: null };
+
+// `load(tableName)` returns every record of the table from the backend.
+export function startReadModel(tableNames, load) {
+  loader = load;
+  for (const name of tableNames) {
+    if (!tables.has(name))
+      tables.set(name, {
+        byId: null,
+        loadedAt: null,
+        loading: null,
+        pending: null,
+      });
+  }
+}
+
+export function readModelCovers(tableName) {
+  return tables.has(tableName);
+}
+
+// Callers may edit what they get back, so never hand out the cached objects.
+const copy = rec => ({ ...rec, fields: { ...rec.fields } });
+
+function load(tableName) {
+  const t = tables.get(tableName);
+  if (!t.loading) {
+    t.pending = [];
+    t.loading = loader(tableName)
+      .then(records => {
+        const byId = new Map(records.map(r => [r.id, r]));
+        // Writes that finished while the table was being read
+        for (const apply of t.pending) apply(byId);
+        t.byId = byId;
+        t.loadedAt = new Date().toISOString();
+        stats.loads++;
+      })
+      .catch(e => {
+        stats.lastError = `${tableName}: ${e?.message || e}`;
+        stats.lastErrorAt = new Date().toISOString();
+        throw e;
+      })
+      .finally(() => {
+        t.loading = null;
+        t.pending = null;
+      });
+  }
+  return t.loading;
+}
+
+async function table(tableName) {
+  const t = tables.get(tableName);
+  if (!t.byId) await load(tableName);
+  else stats.hits++;
+  return t.byId;
+}
+
+export async function cachedList(tableName, paramsObj) {
+  const byId = await table(tableName);
+  return queryRecords([...byId.values()], paramsObj).map(copy);
+}
+
+// Records for which `pred` holds; only those are copied.
+export async function cachedFilter(tableName, pred) {
+  const byId = await table(tableName);
+  return [...byId.values()].filter(pred).map(copy);
+}
+
+// null when the record is not cached (created elsewhere since the last load)
+export async function cachedRecord(tableName, recordId) {
+  const rec = (await table(tableName)).get(recordId);
+  return rec ? copy(rec) : null;
+}
+
+function applyWrite(tableName, apply) {
+  const t = tables.get(tableName);
+  if (!t) return;
+  if (t.byId) apply(t.byId);
+  if (t.pending) t.pending.push(apply);
+}
+
+// Created or updated records as returned by the backend (full field sets).
+export function cachePut(tableName, records) {
+  const recs = (records || []).filter(r => r?.id && r.fields).map(copy);
+  applyWrite(tableName, byId => {
+    for (const r of recs) byId.set(r.id, r);
+  });
+}
+
+export function cacheRemove(tableName, recordIds) {
+  applyWrite(tableName, byId => {
+    for (const id of recordIds) byId.delete(id);
+  });
+}
+
+// Reloads every table that has been loaded (or is loading) already.
+export async function resyncReadModel() {
+  const names = [...tables.keys()].filter(name => {
+    const t = tables.get(name);
+    return t.byId || t.loading;
+  });
+  await Promise.all(names.map(load));
+  return names;
+}
+
+export function readModelStatus() {
+  return {
+    enabled: Boolean(loader),
+    tables: [...tables.entries()].map(([name, t]) => ({
+      table: name,
+      loaded: Boolean(t.byId),
+      records: t.byId ? t.byId.size : 0,
+      loadedAt: t.loadedAt,
+      loading: Boolean(t.loading),
+    })),
+    ...stats,
+  };
+}
@@ -0,0 +1,106 @@
+import { cfg } from '../config.js';
+import * as airtable from './airtable.js';
+import * as sqlite from './sqlite.js';
+import {
+  cachedFilter,
+  cachedList,
+  cachedRecord,
+  cachePut,
+  cacheRemove,
+  readModelCovers,
+  startReadModel,
+} from './cache.js';
+
+/**
+ * ---- Storage backends ----
+ * Every backend exposes the same record-level interface and returns
+ * Airtable-shaped records ({ id, createdTime, fields }), so routes keep using
+ * normalizePlayer/normalizePair/normalizeMatch/normalizeSetScore as before.
+ *
+ *   listAll(table, { maxRecords, sort: [{ field, direction }], where: { field: value } })
+ *   getRecord(table, id)
+ *   listLinked(table, linkField, ids)        -> records linking to any of `ids` (an id or a list)
+ *   createRecords(table, [{ fields }])       -> { records }
+ *   updateRecords(table, [{ id, fields }])   -> { records }
+ *   deleteRecords(table, [id])               -> { records }
+ *   missingEnv()                             -> names of required env vars that are unset
+ *
+ * Writes take arrays of any length; the Airtable backend splits them into
+ * batches of 10 and paces and retries its requests (airtable.js).
+ *
+ * Once enableReadCache() is called (the server does, scripts do not), reads of
+ * players, pairs, matches and set scores are served from memory (cache.js).
+ */
+const backends = { airtable, sqlite };
+
+export { readModelStatus, resyncReadModel } from './cache.js';
+
+function backend() {
+  const name = cfg().STORAGE_BACKEND;
+  const b = backends[name];
+  if (!b) {
+    const err = new Error(`Unknown STORAGE_BACKEND: ${name}`);
+    err.status = 500;
+    throw err;
+  }
+  return b;
+}
+
+export function storageMissingEnv() {
+  return backend().missingEnv();
+}
+
+export function enableReadCache() {
+  const c = cfg();
+  startReadModel(
+    [c.T_PLAYERS, c.T_PAIRS, c.T_MATCHES, c.T_SETSCORES],
+    tableName => backend().listAll(tableName)
+  );
+}
+
+export function listAll(tableName, paramsObj = {}) {
+  if (readModelCovers(tableName)) return cachedList(tableName, paramsObj);
+  return backend().listAll(tableName, paramsObj);
+}
+
+/**
+ * Every record of `tableName` whose link field `linkField` contains one of
+ * `recordIds` (an id or a list of ids). Airtable formulas see a linked
+ * record's primary field, not its id, so this filters after reading rather
+ * than with `where`; the read model hands out copies of the matches only.
+ */
+export async function listLinked(tableName, linkField, recordIds) {
+  const ids = new Set([recordIds].flat());
+  const links = r => (r.fields[linkField] || []).some(id => ids.has(id));
+  if (readModelCovers(tableName)) return cachedFilter(tableName, links);
+  return (await backend().listAll(tableName)).filter(links);
+}
+
+export async function getRecord(tableName, recordId) {
+  if (readModelCovers(tableName)) {
+    const rec = await cachedRecord(tableName, recordId);
+    if (rec) return rec;
+    const fresh = await backend().getRecord(tableName, recordId);
+    cachePut(tableName, [fresh]);
+    return fresh;
+  }
+  return backend().getRecord(tableName, recordId);
+}
+
+export async function createRecords(tableName, records) {
+  const out = await backend().createRecords(tableName, records);
+  cachePut(tableName, out?.records);
+  return out;
+}
+
+export async function updateRecords(tableName, records) {
+  const out = await backend().updateRecords(tableName, records);
+  cachePut(tableName, out?.records);
+  return out;
+}
+
+export async function deleteRecords(tableName, recordIds) {
+  const out = await backend().deleteRecords(tableName, recordIds);
+  cacheRemove(tableName, recordIds);
+  return out;
+}
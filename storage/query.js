@@ -0,0 +1,37 @@
+/**
+ * listAll's `where` / `sort` / `maxRecords` applied to records in memory
+ * (SQLite backend and the read model). Mirrors what Airtable does with the
+ * same parameters closely enough for the queries the app makes.
+ */
+
+function compareValues(a, b) {
+  if (a == null && b == null) return 0;
+  if (a == null) return -1;
+  if (b == null) return 1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b));
+}
+
+export function queryRecords(records, paramsObj = {}) {
+  let out = records;
+
+  if (paramsObj.where) {
+    const entries = Object.entries(paramsObj.where);
+    out = out.filter(r =>
+      entries.every(([field, value]) => r.fields[field] == value)
+    );
+  }
+
+  if (Array.isArray(paramsObj.sort) && paramsObj.sort.length) {
+    out = [...out].sort((x, y) => {
+      for (const s of paramsObj.sort) {
+        const d = compareValues(x.fields[s.field], y.fields[s.field]);
+        if (d !== 0) return s.direction === 'desc' ? -d : d;
+      }
+      return 0;
+    });
+  }
+
+  if (paramsObj.maxRecords) out = out.slice(0, paramsObj.maxRecords);
+  return out;
+}
@@ -0,0 +1,127 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { cfg } from '../config.js';
+import { queryRecords } from './query.js';
+
+/**
+ * ---- Local SQLite backend ----
+ * Stores every table as Airtable-shaped records ({ id, createdTime, fields })
+ * so the normalizers and routes work unchanged. Requires Node 22 (node:sqlite).
+ */
+let dbPromise = null;
+
+export function missingEnv() {
+  return [];
+}
+
+async function getDb() {
+  if (!dbPromise) {
+    dbPromise = (async () => {
+      const c = cfg();
+      const { DatabaseSync } = await import('node:sqlite');
+      if (c.SQLITE_PATH !== ':memory:') {
+        fs.mkdirSync(path.dirname(path.resolve(c.SQLITE_PATH)), {
+          recursive: true,
+        });
+      }
+      const db = new DatabaseSync(c.SQLITE_PATH);
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS records (
+          id TEXT PRIMARY KEY,
+          tbl TEXT NOT NULL,
+          created_time TEXT NOT NULL,
+          fields TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS records_tbl ON records (tbl);
+      `);
+      return db;
+    })();
+  }
+  return dbPromise;
+}
+
+function newRecordId() {
+  const alphabet =
+    'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+  const bytes = crypto.randomBytes(14);
+  let id = 'rec';
+  for (const b of bytes) id += alphabet[b % alphabet.length];
+  return id;
+}
+
+function rowToRecord(row) {
+  return {
+    id: row.id,
+    createdTime: row.created_time,
+    fields: JSON.parse(row.fields || '{}'),
+  };
+}
+
+function notFound(tableName, recordId) {
+  const err = new Error(`Record ${recordId} not found in ${tableName}`);
+  err.status = 404;
+  return err;
+}
+
+export async function listAll(tableName, paramsObj = {}) {
+  const db = await getDb();
+  const rows = db
+    .prepare(
+      'SELECT id, created_time, fields FROM records WHERE tbl = ? ORDER BY created_time, rowid'
+    )
+    .all(tableName);
+
+  return queryRecords(rows.map(rowToRecord), paramsObj);
+}
+
+export async function getRecord(tableName, recordId) {
+  const db = await getDb();
+  const row = db
+    .prepare(
+      'SELECT id, created_time, fields FROM records WHERE tbl = ? AND id = ?'
+    )
+    .get(tableName, recordId);
+  if (!row) throw notFound(tableName, recordId);
+  return rowToRecord(row);
+}
+
+export async function createRecords(tableName, records) {
+  const db = await getDb();
+  const insert = db.prepare(
+    'INSERT INTO records (id, tbl, created_time, fields) VALUES (?, ?, ?, ?)'
+  );
+  const out = [];
+  for (const r of records) {
+    const rec = {
+      id: newRecordId(),
+      createdTime: new Date().toISOString(),
+      fields: { ...(r.fields || {}) },
+    };
+    insert.run(rec.id, tableName, rec.createdTime, JSON.stringify(rec.fields));
+    out.push(rec);
+  }
+  return { records: out };
+}
+
+export async function updateRecords(tableName, records) {
+  const db = await getDb();
+  const update = db.prepare(
+    'UPDATE records SET fields = ? WHERE tbl = ? AND id = ?'
+  );
+  const out = [];
+  for (const r of records) {
+    const current = await getRecord(tableName, r.id);
+    const rec = { ...current, fields: { ...current.fields, ...r.fields } };
+    update.run(JSON.stringify(rec.fields), tableName, r.id);
+    out.push(rec);
+  }
+  return { records: out };
+}
+
+export async function deleteRecords(tableName, recordIds) {
+  const db = await getDb();
+  const del = db.prepare('DELETE FROM records WHERE tbl = ? AND id = ?');
+  for (const id of recordIds) del.run(tableName, id);
+  return { records: recordIds.map(id => ({ id, deleted: true })) };
+}
@@ -0,0 +1,97 @@
+import { cfg } from './config.js';
+
+/**
+ * ---- Telegram Bot API client ----
+ * TELEGRAM_API_URL can point at a local stub; requests go to
+ * `${TELEGRAM_API_URL}/bot<token>/<method>`.
+ */
+export async function botApi(method, payload = {}) {
+  const c = cfg();
+  if (!c.BOT_TOKEN) throw new Error('BOT_TOKEN is not set');
+
+  const controller = new AbortController();
+  const t = setTimeout(() => controller.abort(), c.TELEGRAM_TIMEOUT_MS);
+
+  try {
+    const res = await fetch(
+      `${c.TELEGRAM_API_URL}/bot${c.BOT_TOKEN}/${method}`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+        signal: controller.signal,
+      }
+    );
+
+    const text = await res.text();
+    let json;
+    try {
+      json = text ? JSON.parse(text) : {};
+    } catch {
+      json = { raw: text };
+    }
+
+    if (!res.ok || json?.ok === false) {
+      const err = new Error(
+        json?.description || `Telegram error: ${res.status}`
+      );
+      err.status = 502;
+      err.details = json;
+      throw err;
+    }
+    return json.result;
+  } catch (e) {
+    if (e?.name === 'AbortError') {
+      const err = new Error(
+        `Telegram request timed out after ${c.TELEGRAM_TIMEOUT_MS}ms`
+      );
+      err.status = 504;
+      throw err;
+    }
+    throw e;
+  } finally {
+    clearTimeout(t);
+  }
+}
+
+let botUsername = '';
+
+// The bot's @username (without @): BOT_USERNAME, or asked from Telegram once.
+export async function getBotUsername() {
+  const c = cfg();
+  if (c.BOT_USERNAME) return c.BOT_USERNAME;
+  if (!botUsername) botUsername = (await botApi('getMe')).username;
+  return botUsername;
+}
+
+export function sendMessage(chatId, text, replyMarkup) {
+  return botApi('sendMessage', {
+    chat_id: chatId,
+    text,
+    parse_mode: 'HTML',
+    ...(replyMarkup ? { reply_markup: replyMarkup } : {}),
+  });
+}
+
+export function editMessageText(chatId, messageId, text) {
+  return botApi('editMessageText', {
+    chat_id: chatId,
+    message_id: messageId,
+    text,
+    parse_mode: 'HTML',
+  });
+}
+
+export function answerCallbackQuery(callbackQueryId, text) {
+  return botApi('answerCallbackQuery', {
+    callback_query_id: callbackQueryId,
+    text: text || '',
+  });
+}
+
+export function escapeHtml(s) {
+  return String(s ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
@@ -0,0 +1,116 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { joinTwoPairs, startServer } from './helpers.js';
+
+const ADMIN = 9;
+let server;
+let post;
+let pairs;
+
+before(async () => {
+  server = await startServer(18404, { ADMIN_TELEGRAM_IDS: String(ADMIN) });
+  post = server.post;
+  pairs = await joinTwoPairs(post);
+});
+
+after(() => server.stop());
+
+async function disputedMatch(sets) {
+  const report = await post(
+    '/api/matches/report',
+    {
+      myPairId: pairs.a.id,
+      oppPairId: pairs.b.id,
+      sets,
+      duplicateAction: 'create',
+    },
+    1
+  );
+  assert.equal(report.ok, true, report.error);
+  const dispute = await post(
+    '/api/matches/dispute',
+    { matchId: report.matchId, reason: 'wrong score' },
+    3
+  );
+  assert.equal(dispute.ok, true, dispute.error);
+  return report.matchId;
+}
+
+test('only admins see the dispute queue', async () => {
+  const res = await post('/api/admin/disputes', {}, 1);
+  assert.equal(res.ok, false);
+  assert.equal(res.error, 'League admins only');
+});
+
+test('correcting a dispute replaces the score and applies ratings', async () => {
+  const matchId = await disputedMatch([
+    { p1: 6, p2: 4 },
+    { p1: 6, p2: 4 },
+  ]);
+  const queue = await post('/api/admin/disputes', {}, ADMIN);
+  assert.deepEqual(
+    queue.matches.map(m => [m.id, m.status, m.disputeReason]),
+    [[matchId, 'DISPUTED', 'wrong score']]
+  );
+
+  const res = await post(
+    '/api/admin/matches/resolve',
+    {
+      matchId,
+      action: 'correct',
+      sets: [
+        { p1: 4, p2: 6 },
+        { p1: 4, p2: 6 },
+      ],
+    },
+    ADMIN
+  );
+  assert.equal(res.ok, true, res.error);
+  assert.equal(res.status, 'CONFIRMED');
+  assert.equal(res.resolution, 'CORRECTED');
+
+  const { matches } = await post('/api/matches', {}, 1);
+  const match = matches.find(m => m.id === matchId);
+  assert.equal(match.score, '4-6 4-6');
+  assert.equal(match.disputeReason, 'wrong score');
+
+  const ratings = Object.fromEntries(
+    (await post('/api/pairs')).pairs.map(p => [p.id, p.rating])
+  );
+  assert.ok(ratings[pairs.b.id] > 1000);
+  assert.ok(ratings[pairs.a.id] < 1000);
+});
+
+test('a resolved match cannot be resolved again', async () => {
+  const queue = await post('/api/admin/disputes', {}, ADMIN);
+  assert.deepEqual(queue.matches, []);
+
+  const { matches } = await post('/api/matches', {}, 1);
+  const res = await post(
+    '/api/admin/matches/resolve',
+    { matchId: matches[0].id, action: 'uphold' },
+    ADMIN
+  );
+  assert.equal(res.ok, false);
+  assert.match(res.error, /Match is CONFIRMED/);
+});
+
+test('voiding a dispute leaves ratings alone', async () => {
+  const before = (await post('/api/pairs')).pairs.map(p => p.rating);
+  const matchId = await disputedMatch([
+    { p1: 6, p2: 0 },
+    { p1: 6, p2: 0 },
+  ]);
+
+  const res = await post(
+    '/api/admin/matches/resolve',
+    { matchId, action: 'void', note: 'never played' },
+    ADMIN
+  );
+  assert.equal(res.ok, true, res.error);
+  assert.equal(res.status, 'VOIDED');
+  assert.deepEqual(
+    (await post('/api/pairs')).pairs.map(p => p.rating),
+    before
+  );
+});
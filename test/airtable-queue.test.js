@@ -0,0 +1,175 @@
+import { afterEach, beforeEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  createRecords,
+  deleteRecords,
+  getRecord,
+  listAll,
+  updateRecords,
+} from '../storage/airtable.js';
+
+Object.assign(process.env, {
+  AIRTABLE_TOKEN: 'test-token',
+  AIRTABLE_BASE_ID: 'appTest',
+  AIRTABLE_RETRY_BASE_MS: '10',
+  AIRTABLE_RATE_PER_SEC: '1000',
+});
+
+const realFetch = globalThis.fetch;
+let calls;
+let respond;
+
+// Every Airtable call lands here; `respond(call)` returns [status, body, headers].
+beforeEach(() => {
+  calls = [];
+  respond = () => [200, { records: [] }];
+  globalThis.fetch = async (url, init) => {
+    const call = {
+      method: init.method,
+      url: new URL(url),
+      body: init.body ? JSON.parse(init.body) : null,
+      at: Date.now(),
+      signal: init.signal,
+    };
+    if (call.url.pathname.startsWith('/v0/meta/'))
+      return Response.json({ tables: [] });
+    calls.push(call);
+    const [status, body, headers] = await respond(call);
+    return Response.json(body, { status, headers });
+  };
+});
+
+afterEach(() => {
+  globalThis.fetch = realFetch;
+  delete process.env.AIRTABLE_MAX_RETRIES;
+  delete process.env.AIRTABLE_TIMEOUT_MS;
+  process.env.AIRTABLE_RATE_PER_SEC = '1000';
+});
+
+const echo = ({ body }) => [
+  200,
+  { records: body.records.map((r, i) => ({ id: r.id || `rec${i}`, ...r })) },
+];
+
+test('writes are sent in batches of 10', async () => {
+  respond = echo;
+  const records = Array.from({ length: 23 }, (_, i) => ({
+    fields: { Name: `P${i}` },
+  }));
+  const out = await createRecords('Players', records);
+
+  assert.deepEqual(
+    calls.map(c => [c.method, c.body.records.length, c.body.typecast]),
+    [
+      ['POST', 10, true],
+      ['POST', 10, true],
+      ['POST', 3, true],
+    ]
+  );
+  assert.equal(out.records.length, 23);
+  assert.equal(out.records[22].fields.Name, 'P22');
+
+  calls = [];
+  await updateRecords(
+    'Players',
+    out.records.slice(0, 12).map((r, i) => ({ id: `rec${i}`, fields: {} }))
+  );
+  assert.deepEqual(
+    calls.map(c => [c.method, c.body.records.length]),
+    [
+      ['PATCH', 10],
+      ['PATCH', 2],
+    ]
+  );
+
+  calls = [];
+  respond = () => [200, { records: [] }];
+  const ids = Array.from({ length: 11 }, (_, i) => `rec${i}`);
+  await deleteRecords('Players', ids);
+  assert.deepEqual(
+    calls.map(c => [c.method, c.url.searchParams.getAll('records[]').length]),
+    [
+      ['DELETE', 10],
+      ['DELETE', 1],
+    ]
+  );
+});
+
+test('429 and 5xx answers are retried', async () => {
+  const answers = [
+    [429, { error: { message: 'Too many' } }],
+    [503, {}],
+  ];
+  respond = () => answers.shift() || [200, { id: 'rec1', fields: {} }];
+
+  const rec = await getRecord('Players', 'rec1');
+  assert.equal(rec.id, 'rec1');
+  assert.equal(calls.length, 3);
+});
+
+test('retries stop at AIRTABLE_MAX_RETRIES', async () => {
+  process.env.AIRTABLE_MAX_RETRIES = '2';
+  respond = () => [429, { error: { message: 'Too many' } }];
+
+  await assert.rejects(createRecords('Players', [{ fields: {} }]), {
+    status: 502,
+    upstreamStatus: 429,
+    message: 'Too many',
+  });
+  assert.equal(calls.length, 3);
+});
+
+test('client errors and timed-out writes are not retried', async () => {
+  respond = () => [422, { error: { message: 'Unknown field name' } }];
+  await assert.rejects(updateRecords('Players', [{ id: 'rec1', fields: {} }]), {
+    upstreamStatus: 422,
+  });
+  assert.equal(calls.length, 1);
+
+  // A write that times out may have been applied already
+  calls = [];
+  process.env.AIRTABLE_TIMEOUT_MS = '50';
+  respond = ({ signal }) =>
+    new Promise((_, reject) =>
+      signal.addEventListener('abort', () => reject(signal.reason))
+    );
+  await assert.rejects(createRecords('Players', [{ fields: {} }]), {
+    status: 504,
+  });
+  assert.equal(calls.length, 1);
+});
+
+test('requests start no faster than AIRTABLE_RATE_PER_SEC', async () => {
+  process.env.AIRTABLE_RATE_PER_SEC = '20';
+  respond = () => [200, { id: 'rec1', fields: {} }];
+
+  await Promise.all(
+    Array.from({ length: 4 }, () => getRecord('Players', 'rec1'))
+  );
+  const gaps = calls.slice(1).map((c, i) => c.at - calls[i].at);
+  assert.equal(gaps.length, 3);
+  for (const gap of gaps) assert.ok(gap >= 45, `started ${gap}ms apart`);
+});
+
+test('listAll follows offsets and filters with a formula', async () => {
+  respond = ({ url }) =>
+    url.searchParams.get('offset')
+      ? [200, { records: [{ id: 'rec2', fields: {} }] }]
+      : [200, { records: [{ id: 'rec1', fields: {} }], offset: 'next' }];
+
+  const records = await listAll('Matches', {
+    where: { Status: "O'Brien", Ranked: true },
+    sort: [{ field: 'Date', direction: 'desc' }],
+  });
+  assert.deepEqual(
+    records.map(r => r.id),
+    ['rec1', 'rec2']
+  );
+  assert.equal(calls.length, 2);
+  const params = calls[0].url.searchParams;
+  assert.equal(
+    params.get('filterByFormula'),
+    "AND({Status} = 'O\\'Brien', {Ranked} = true)"
+  );
+  assert.equal(params.get('sort[0][direction]'), 'desc');
+});
@@ -0,0 +1,105 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { joinTwoPairs, startServer } from './helpers.js';
+import { API } from '../shared/api.js';
+import {
+  array,
+  describeErrors,
+  number,
+  object,
+  optional,
+  string,
+  validate,
+} from '../shared/schema.js';
+
+let server;
+let post;
+let pairs;
+
+before(async () => {
+  server = await startServer(18417, { API_CHECK_RESPONSES: '1' });
+  post = server.post;
+  pairs = await joinTwoPairs(post);
+});
+
+after(() => server.stop());
+
+test('schemas report every bad field by its path', () => {
+  const schema = object({
+    name: string({ min: 1 }),
+    sets: array(object({ p1: number({ integer: true, min: 0 }) })),
+    note: optional(string()),
+  });
+  const { errors } = validate(schema, {
+    name: '',
+    sets: [{ p1: 6 }, { p1: 2.5 }, {}],
+    note: '',
+  });
+  assert.deepEqual(errors, [
+    { field: 'name', message: 'is required' },
+    { field: 'sets.1.p1', message: 'must be a whole number' },
+    { field: 'sets.2.p1', message: 'is required' },
+  ]);
+  assert.equal(
+    describeErrors(errors),
+    'name is required; sets.1.p1 must be a whole number; sets.2.p1 is required'
+  );
+});
+
+test('objects keep unknown keys and do not coerce', () => {
+  const schema = object({ count: number() });
+  assert.deepEqual(validate(schema, { count: 2, extra: true }), {
+    value: { count: 2, extra: true },
+    errors: [],
+  });
+  assert.deepEqual(validate(schema, { count: '2' }).errors, [
+    { field: 'count', message: 'must be a number' },
+  ]);
+});
+
+test('bad request bodies are refused before the route runs', async () => {
+  const res = await post('/api/matches/report', {
+    myPairId: pairs.a.id,
+    oppPairId: pairs.b.id,
+    sets: [{ p1: '6', p2: 4 }],
+    format: 'BEST_OF_99',
+  });
+  assert.equal(res.ok, false);
+  assert.deepEqual(
+    res.details.fields.map(f => f.field),
+    ['sets.0.p1', 'format']
+  );
+  assert.match(res.error, /^Invalid request: sets\.0\.p1 must be a number/);
+
+  const { matches } = await post('/api/matches');
+  assert.equal(matches.length, 0);
+});
+
+test('responses of the main routes match the contract', async () => {
+  const report = await post('/api/matches/report', {
+    myPairId: pairs.a.id,
+    oppPairId: pairs.b.id,
+    sets: [
+      { p1: 6, p2: 4 },
+      { p1: 6, p2: 4 },
+    ],
+  });
+  assert.equal(report.ok, true, report.error);
+  const confirm = await post(
+    '/api/matches/confirm',
+    { matchId: report.matchId },
+    3
+  );
+  assert.equal(confirm.ok, true, confirm.error);
+
+  const routes = ['/api/me', '/api/players', '/api/pairs', '/api/matches'];
+  for (const path of routes) {
+    const res = await post(path);
+    assert.equal(res.ok, true, `${path}: ${res.error}`);
+    assert.deepEqual(validate(API[path].response, res).errors, [], path);
+  }
+  assert.ok(
+    !server.output.join('').includes('does not match the contract'),
+    server.output.join('')
+  );
+});
@@ -0,0 +1,85 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'timers/promises';
+import { joinTwoPairs, startServer } from './helpers.js';
+
+let server;
+let post;
+let pairs;
+
+before(async () => {
+  // Deadline of about a second, checked every 200 ms
+  server = await startServer(18408, {
+    AUTO_CONFIRM_HOURS: '0.0003',
+    AUTO_CONFIRM_INTERVAL_MS: '200',
+  });
+  post = server.post;
+  pairs = await joinTwoPairs(post);
+});
+
+after(() => server.stop());
+
+async function report(sets) {
+  const res = await post(
+    '/api/matches/report',
+    {
+      myPairId: pairs.a.id,
+      oppPairId: pairs.b.id,
+      sets,
+      duplicateAction: 'create',
+    },
+    1
+  );
+  assert.equal(res.ok, true, res.error);
+  return res.matchId;
+}
+
+async function matchById(matchId) {
+  const { matches } = await post('/api/matches', {}, 1);
+  return matches.find(m => m.id === matchId);
+}
+
+test('an unanswered report is confirmed after the deadline', async () => {
+  const matchId = await report([
+    { p1: 6, p2: 3 },
+    { p1: 6, p2: 2 },
+  ]);
+  const pending = await matchById(matchId);
+  assert.equal(pending.status, 'PENDING_CONFIRMATION');
+  assert.ok(pending.autoConfirmAt);
+
+  let match = pending;
+  for (let i = 0; i < 50 && match.status !== 'CONFIRMED'; i++) {
+    await sleep(100);
+    match = await matchById(matchId);
+  }
+  assert.equal(match.status, 'CONFIRMED');
+  assert.equal(match.autoConfirmed, true);
+  assert.equal(match.ratingsState, 'APPLIED');
+
+  const ratings = (await post('/api/pairs')).pairs.map(p => p.rating);
+  assert.notDeepEqual(ratings, [1000, 1000]);
+
+  // A late confirmation from the opponents changes nothing
+  const confirm = await post('/api/matches/confirm', { matchId }, 3);
+  assert.equal(confirm.message, 'Already confirmed');
+});
+
+test('a match disputed before the deadline is left alone', async () => {
+  const matchId = await report([
+    { p1: 6, p2: 0 },
+    { p1: 6, p2: 0 },
+  ]);
+  const dispute = await post(
+    '/api/matches/dispute',
+    { matchId, reason: 'we won' },
+    4
+  );
+  assert.equal(dispute.ok, true, dispute.error);
+
+  await sleep(2000);
+  const match = await matchById(matchId);
+  assert.equal(match.status, 'DISPUTED');
+  assert.equal(match.autoConfirmed, false);
+  assert.equal(match.ratingsState, '');
+});
@@ -0,0 +1,108 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { joinTwoPairs, startBotStub, startServer } from './helpers.js';
+
+const SECRET = 'hook-secret';
+let bot;
+let server;
+let post;
+let pairs;
+
+before(async () => {
+  bot = await startBotStub();
+  server = await startServer(18407, {
+    TELEGRAM_API_URL: bot.url,
+    TELEGRAM_WEBHOOK_SECRET: SECRET,
+  });
+  post = server.post;
+  pairs = await joinTwoPairs(post);
+});
+
+after(async () => {
+  await server.stop();
+  await bot.stop();
+});
+
+const isReply = c => c.method === 'sendMessage';
+
+// Sends `text` to the bot as Telegram user `tgId` and returns the bot's reply.
+async function command(text, tgId = 1) {
+  const sent = bot.calls.filter(isReply).length;
+  const res = await fetch(`${server.url}/api/telegram/webhook`, {
+    method: 'POST',
+    headers: {
+      'content-type': 'application/json',
+      'x-telegram-bot-api-secret-token': SECRET,
+    },
+    body: JSON.stringify({
+      message: { text, from: { id: tgId }, chat: { id: tgId } },
+    }),
+  });
+  assert.equal(res.status, 200);
+  const replies = await bot.waitFor(isReply, sent + 1);
+  assert.equal(replies[sent].payload.chat_id, tgId);
+  return replies[sent].payload;
+}
+
+test('/top lists players by rating', async () => {
+  const report = await post(
+    '/api/matches/report',
+    {
+      myPairId: pairs.a.id,
+      oppPairId: pairs.b.id,
+      sets: [
+        { p1: 6, p2: 1 },
+        { p1: 6, p2: 1 },
+      ],
+      duplicateAction: 'create',
+    },
+    1
+  );
+  await post('/api/matches/confirm', { matchId: report.matchId }, 3);
+
+  const { text } = await command('/top@PadelBot');
+  const lines = text.split('\n').filter(l => /^\d+\./.test(l));
+  assert.equal(lines.length, 4);
+  assert.match(lines[0], /^1\. U[12] — <b>10\d\d<\/b> \(1W\/0L\)$/);
+  assert.match(lines[3], /\(0W\/1L\)$/);
+});
+
+test('/me shows rating, rank and record', async () => {
+  const { text } = await command('/me', 3);
+  assert.match(text, /<b>U3<\/b>/);
+  assert.match(text, /Rank: #[34] of 4/);
+  assert.match(text, /Record: 0W\/1L in 1 games/);
+});
+
+test('/pending offers buttons for matches to confirm', async () => {
+  const report = await post(
+    '/api/matches/report',
+    {
+      myPairId: pairs.a.id,
+      oppPairId: pairs.b.id,
+      sets: [
+        { p1: 6, p2: 4 },
+        { p1: 6, p2: 4 },
+      ],
+      duplicateAction: 'create',
+    },
+    1
+  );
+
+  const pending = await command('/pending', 4);
+  assert.match(pending.text, /Awaiting your confirmation/);
+  assert.match(pending.text, /6-4 6-4/);
+  assert.deepEqual(
+    pending.reply_markup.inline_keyboard[0].map(b => b.callback_data),
+    [`confirm:${report.matchId}`, `dispute:${report.matchId}`]
+  );
+
+  // The reporter has nothing to confirm
+  const own = await command('/pending', 1);
+  assert.equal(own.text, 'Nothing is waiting for your confirmation.');
+});
+
+test('strangers are asked to join, anything else gets the help', async () => {
+  assert.match((await command('/me', 77)).text, /not in the league yet/);
+  assert.match((await command('/start')).text, /^Commands:/);
+});
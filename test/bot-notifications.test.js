@@ -0,0 +1,164 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { joinTwoPairs, startBotStub, startServer } from './helpers.js';
+
+const SECRET = 'hook-secret';
+let bot;
+let server;
+let post;
+let pairs;
+
+before(async () => {
+  bot = await startBotStub();
+  server = await startServer(18406, {
+    BOT_NOTIFICATIONS: '1',
+    TELEGRAM_API_URL: bot.url,
+    TELEGRAM_WEBHOOK_SECRET: SECRET,
+  });
+  post = server.post;
+  pairs = await joinTwoPairs(post);
+});
+
+after(async () => {
+  await server.stop();
+  await bot.stop();
+});
+
+function webhook(update, secret = SECRET) {
+  return fetch(`${server.url}/api/telegram/webhook`, {
+    method: 'POST',
+    headers: {
+      'content-type': 'application/json',
+      'x-telegram-bot-api-secret-token': secret,
+    },
+    body: JSON.stringify(update),
+  });
+}
+
+// The button press of Telegram user `tgId` on the message `messageId`.
+const press = (tgId, data, messageId = 1) => ({
+  callback_query: {
+    id: `cq${tgId}`,
+    from: { id: tgId },
+    data,
+    message: { chat: { id: tgId }, message_id: messageId, text: 'Report' },
+  },
+});
+
+async function report(sets) {
+  const res = await post(
+    '/api/matches/report',
+    {
+      myPairId: pairs.a.id,
+      oppPairId: pairs.b.id,
+      sets,
+      duplicateAction: 'create',
+    },
+    1
+  );
+  assert.equal(res.ok, true, res.error);
+  return res.matchId;
+}
+
+const sentTo = chatId => call =>
+  call.method === 'sendMessage' && call.payload.chat_id === chatId;
+
+test('both opponents are asked to confirm or dispute', async () => {
+  const matchId = await report([
+    { p1: 6, p2: 3 },
+    { p1: 6, p2: 3 },
+  ]);
+  const [toP3] = await bot.waitFor(sentTo(3));
+  await bot.waitFor(sentTo(4));
+  assert.equal(bot.calls.filter(sentTo(2)).length, 0);
+
+  assert.match(toP3.payload.text, /U1 reported a match against you/);
+  assert.match(toP3.payload.text, /6-3 6-3/);
+  assert.deepEqual(
+    toP3.payload.reply_markup.inline_keyboard[0].map(b => b.callback_data),
+    [`confirm:${matchId}`, `dispute:${matchId}`]
+  );
+});
+
+test('the Confirm button confirms and tells the reporter', async () => {
+  const { matches } = await post('/api/matches', {}, 1);
+  const matchId = matches[0].id;
+
+  const res = await webhook(press(3, `confirm:${matchId}`));
+  assert.equal(res.status, 200);
+
+  const [answer] = await bot.waitFor(c => c.method === 'answerCallbackQuery');
+  assert.match(answer.payload.text, /confirmed/i);
+  const [edit] = await bot.waitFor(c => c.method === 'editMessageText');
+  assert.equal(edit.payload.chat_id, 3);
+  const [toReporter] = await bot.waitFor(sentTo(1));
+  assert.match(toReporter.payload.text, /confirmed/);
+
+  const after = (await post('/api/matches', {}, 1)).matches[0];
+  assert.equal(after.status, 'CONFIRMED');
+});
+
+test('the Dispute button asks for the reason and the reply disputes', async () => {
+  const matchId = await report([
+    { p1: 6, p2: 0 },
+    { p1: 6, p2: 0 },
+  ]);
+  await webhook(press(4, `dispute:${matchId}`));
+  const [, answer] = await bot.waitFor(
+    c => c.method === 'answerCallbackQuery',
+    2
+  );
+  assert.match(answer.payload.text, /reply .* with the reason/i);
+  const [prompt] = await bot.waitFor(
+    c => sentTo(4)(c) && c.payload.reply_markup?.force_reply
+  );
+  assert.match(prompt.payload.text, new RegExp(`Dispute ${matchId}`));
+
+  const status = async () =>
+    (await post('/api/matches', {}, 1)).matches.find(m => m.id === matchId);
+  assert.equal((await status()).status, 'PENDING_CONFIRMATION');
+
+  await webhook({
+    message: {
+      chat: { id: 4 },
+      from: { id: 4 },
+      text: 'We lost 4-6 4-6',
+      reply_to_message: {
+        from: { id: 999, is_bot: true },
+        text: prompt.payload.text,
+      },
+    },
+  });
+  await bot.waitFor(c => sentTo(4)(c) && /Match disputed/.test(c.payload.text));
+  const match = await status();
+  assert.equal(match.status, 'DISPUTED');
+  assert.equal(match.disputeReason, 'We lost 4-6 4-6');
+});
+
+test('players outside the match and unknown users are refused', async () => {
+  const matchId = await report([
+    { p1: 6, p2: 2 },
+    { p1: 6, p2: 2 },
+  ]);
+  const answers = () =>
+    bot.calls.filter(c => c.method === 'answerCallbackQuery').length;
+  const before = answers();
+  await webhook(press(2, `confirm:${matchId}`));
+  await webhook(press(77, `confirm:${matchId}`));
+  const [outsider, stranger] = (
+    await bot.waitFor(c => c.method === 'answerCallbackQuery', before + 2)
+  ).slice(before);
+  assert.match(outsider.payload.text, /Only opponent pair/);
+  assert.match(stranger.payload.text, /Join/);
+
+  const { matches } = await post('/api/matches', {}, 1);
+  assert.equal(
+    matches.find(m => m.id === matchId).status,
+    'PENDING_CONFIRMATION'
+  );
+});
+
+test('updates without the webhook secret are refused', async () => {
+  const res = await webhook({}, 'wrong');
+  assert.equal(res.status, 401);
+});
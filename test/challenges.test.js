@@ -0,0 +1,160 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { joinTwoPairs, startServer } from './helpers.js';
+
+let server;
+let post;
+let pairs;
+
+before(async () => {
+  server = await startServer(18409);
+  post = server.post;
+  pairs = await joinTwoPairs(post);
+});
+
+after(() => server.stop());
+
+// YYYY-MM-DD `days` from today
+const inDays = days =>
+  new Date(Date.now() + days * 86400_000).toISOString().slice(0, 10);
+
+async function matchById(matchId) {
+  const { matches } = await post('/api/matches', {}, 1);
+  return matches.find(m => m.id === matchId);
+}
+
+async function challenge(fields = {}) {
+  const res = await post(
+    '/api/matches/challenge',
+    {
+      myPairId: pairs.a.id,
+      oppPairId: pairs.b.id,
+      date: inDays(3),
+      time: '18:30',
+      court: 'Court 2',
+      ...fields,
+    },
+    1
+  );
+  assert.equal(res.ok, true, res.error);
+  return res.matchId;
+}
+
+test('a challenge is proposed to the other pair', async () => {
+  const matchId = await challenge();
+  const m = await matchById(matchId);
+  assert.equal(m.status, 'PROPOSED');
+  assert.equal(m.court, 'Court 2');
+  assert.deepEqual(
+    m.responderPlayerIds.sort(),
+    [pairs.b.player1, pairs.b.player2].sort()
+  );
+
+  const own = await post(
+    '/api/matches/respond',
+    { matchId, action: 'accept' },
+    2
+  );
+  assert.equal(own.ok, false);
+  assert.equal(own.error, 'Waiting for the other pair to respond');
+});
+
+test('a counter-proposal goes back, then the match is scheduled and played', async () => {
+  const matchId = await challenge();
+  const counter = await post(
+    '/api/matches/respond',
+    { matchId, action: 'propose', date: inDays(5), time: '20:00' },
+    4
+  );
+  assert.equal(counter.ok, true, counter.error);
+  let m = await matchById(matchId);
+  assert.equal(m.date, inDays(5));
+  assert.equal(m.proposedBy, pairs.b.player2);
+
+  const accept = await post(
+    '/api/matches/respond',
+    { matchId, action: 'accept' },
+    2
+  );
+  assert.equal(accept.status, 'SCHEDULED');
+
+  // The opponents report it: their pair becomes pair 1
+  const report = await post(
+    '/api/matches/report',
+    {
+      matchId,
+      sets: [
+        { p1: 6, p2: 4 },
+        { p1: 6, p2: 4 },
+      ],
+    },
+    3
+  );
+  assert.equal(report.ok, true, report.error);
+  assert.equal(report.matchId, matchId);
+  m = await matchById(matchId);
+  assert.equal(m.status, 'PENDING_CONFIRMATION');
+  assert.equal(m.pair1, pairs.b.id);
+  assert.equal(m.date, inDays(5));
+
+  const again = await post(
+    '/api/matches/report',
+    {
+      matchId,
+      sets: [
+        { p1: 6, p2: 0 },
+        { p1: 6, p2: 0 },
+      ],
+    },
+    1
+  );
+  assert.equal(again.ok, false);
+  assert.match(again.error, /Only SCHEDULED matches can be reported/);
+});
+
+test('either pair may cancel a scheduled match', async () => {
+  const matchId = await challenge();
+  await post('/api/matches/respond', { matchId, action: 'accept' }, 3);
+  const res = await post(
+    '/api/matches/respond',
+    { matchId, action: 'decline' },
+    1
+  );
+  assert.equal(res.status, 'DECLINED');
+
+  const late = await post(
+    '/api/matches/respond',
+    { matchId, action: 'accept' },
+    3
+  );
+  assert.equal(late.ok, false);
+  assert.match(late.error, /Match is DECLINED/);
+});
+
+test('challenges are checked', async () => {
+  await post('/api/join', {}, 5);
+  const past = await post(
+    '/api/matches/challenge',
+    { myPairId: pairs.a.id, oppPairId: pairs.b.id, date: inDays(-1) },
+    1
+  );
+  assert.equal(past.error, 'Cannot schedule a match in the past');
+
+  const notMine = await post(
+    '/api/matches/challenge',
+    { myPairId: pairs.b.id, oppPairId: pairs.a.id, date: inDays(1) },
+    1
+  );
+  assert.equal(
+    notMine.error,
+    'You can only challenge for a pair you belong to'
+  );
+
+  const matchId = await challenge({ time: '' });
+  const outsider = await post(
+    '/api/matches/respond',
+    { matchId, action: 'decline' },
+    5
+  );
+  assert.equal(outsider.error, 'Only players of this match can respond');
+});
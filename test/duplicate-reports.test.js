@@ -0,0 +1,124 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { joinTwoPairs, startServer } from './helpers.js';
+
+let server;
+let post;
+let pairs;
+
+before(async () => {
+  server = await startServer(18422);
+  post = server.post;
+  pairs = await joinTwoPairs(post);
+});
+
+after(() => server.stop());
+
+const win = [
+  { p1: 6, p2: 3 },
+  { p1: 6, p2: 4 },
+];
+// The same score seen from the other side
+const loss = win.map(s => ({ p1: s.p2, p2: s.p1 }));
+
+// Reports as Telegram user `as`: 1 plays for pair A, 3 for pair B.
+function report(as, date, sets, extra = {}) {
+  const [myPair, oppPair] = as === 1 ? [pairs.a, pairs.b] : [pairs.b, pairs.a];
+  return post(
+    '/api/matches/report',
+    { myPairId: myPair.id, oppPairId: oppPair.id, sets, date, ...extra },
+    as
+  );
+}
+
+async function matchCount() {
+  return (await post('/api/matches')).matches.length;
+}
+
+test('a repeated idempotency key returns the first match', async () => {
+  const body = { idempotencyKey: 'report-1' };
+  const [first, second] = await Promise.all([
+    report(1, '2026-05-01', win, body),
+    report(1, '2026-05-01', win, body),
+  ]);
+  assert.equal(first.ok, true, first.error);
+  assert.equal(second.ok, true, second.error);
+  assert.equal(second.matchId, first.matchId);
+  assert.equal(second.replayed, true);
+
+  const later = await report(1, '2026-05-01', win, body);
+  assert.equal(later.matchId, first.matchId);
+  assert.equal(later.message, 'This result was already saved.');
+  assert.equal(await matchCount(), 1);
+});
+
+test('another player cannot reuse a report key', async () => {
+  const res = await report(3, '2026-05-01', loss, {
+    idempotencyKey: 'report-1',
+  });
+  assert.equal(res.ok, false);
+  assert.equal(res.error, 'This report key was already used.');
+});
+
+test('a second report of the same day is flagged as a duplicate', async () => {
+  const res = await report(3, '2026-05-01', [
+    { p1: 6, p2: 4 },
+    { p1: 6, p2: 4 },
+  ]);
+  assert.equal(res.ok, false);
+  assert.equal(
+    res.error,
+    'This match was already reported for 2026-05-01 (3-6 4-6).'
+  );
+  assert.deepEqual(
+    {
+      status: res.details.duplicate.status,
+      sameScore: res.details.duplicate.sameScore,
+      canConfirm: res.details.duplicate.canConfirm,
+    },
+    { status: 'PENDING_CONFIRMATION', sameScore: false, canConfirm: true }
+  );
+
+  // Another day is another match.
+  assert.equal((await report(1, '2026-05-02', win)).ok, true);
+  assert.equal(await matchCount(), 2);
+});
+
+test('opponents linking the same score confirm the existing report', async () => {
+  const res = await report(3, '2026-05-01', loss, { duplicateAction: 'link' });
+  assert.equal(res.ok, true, res.error);
+  assert.equal(res.linked, true);
+  assert.equal(res.status, 'CONFIRMED');
+  assert.equal(await matchCount(), 2);
+
+  const again = await report(1, '2026-05-01', win, {
+    duplicateAction: 'link',
+  });
+  assert.equal(
+    again.message,
+    'This result was already reported and confirmed.'
+  );
+});
+
+test('linking a different score asks for a dispute instead', async () => {
+  const res = await report(
+    3,
+    '2026-05-02',
+    [
+      { p1: 6, p2: 0 },
+      { p1: 6, p2: 0 },
+    ],
+    { duplicateAction: 'link' }
+  );
+  assert.equal(res.ok, false);
+  assert.equal(
+    res.error,
+    'The existing report says 3-6 4-6. Dispute it if that score is wrong.'
+  );
+});
+
+test('duplicateAction create reports a second game of the day', async () => {
+  const res = await report(1, '2026-05-02', win, { duplicateAction: 'create' });
+  assert.equal(res.ok, true, res.error);
+  assert.equal(await matchCount(), 3);
+});
@@ -0,0 +1,104 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { joinTwoPairs, startServer } from './helpers.js';
+
+const ADMIN = 9;
+let server;
+let post;
+let pairs;
+
+before(async () => {
+  server = await startServer(18416, { ADMIN_TELEGRAM_IDS: String(ADMIN) });
+  post = server.post;
+  pairs = await joinTwoPairs(post);
+});
+
+after(() => server.stop());
+
+const win = [
+  { p1: 6, p2: 3 },
+  { p1: 6, p2: 3 },
+];
+
+async function standings() {
+  const [{ pairs: pairList }, { players }] = await Promise.all([
+    post('/api/pairs'),
+    post('/api/players'),
+  ]);
+  return {
+    pairs: Object.fromEntries(pairList.map(p => [p.id, p])),
+    players: Object.fromEntries(players.map(p => [p.telegramId, p])),
+  };
+}
+
+async function reportAndConfirm(body) {
+  const report = await post(
+    '/api/matches/report',
+    {
+      myPairId: pairs.a.id,
+      oppPairId: pairs.b.id,
+      sets: win,
+      duplicateAction: 'create',
+      ...body,
+    },
+    1
+  );
+  assert.equal(report.ok, true, report.error);
+  const confirm = await post(
+    '/api/matches/confirm',
+    { matchId: report.matchId },
+    3
+  );
+  assert.equal(confirm.ok, true, confirm.error);
+  return { report, confirm };
+}
+
+test('a friendly match counts friendly W/L and leaves ratings alone', async () => {
+  const { report, confirm } = await reportAndConfirm({ ranked: false });
+  assert.equal(report.ranked, false);
+  assert.match(report.message, /^Friendly match created/);
+  assert.match(confirm.message, /Friendly match confirmed/);
+
+  const { pairs: byId, players } = await standings();
+  const winner = byId[pairs.a.id];
+  const loser = byId[pairs.b.id];
+  assert.equal(winner.rating, 1000);
+  assert.equal(winner.gamesPlayed, 0);
+  assert.deepEqual(
+    [winner.friendlyWins, winner.friendlyLosses, winner.wins],
+    [1, 0, 0]
+  );
+  assert.deepEqual([loser.friendlyWins, loser.friendlyLosses], [0, 1]);
+  assert.deepEqual(
+    [players[2].friendlyWins, players[4].friendlyLosses, players[4].losses],
+    [1, 1, 0]
+  );
+});
+
+test('matches are ranked unless reported otherwise', async () => {
+  const { report } = await reportAndConfirm({});
+  assert.equal(report.ranked, true);
+
+  const { pairs: byId } = await standings();
+  assert.ok(byId[pairs.a.id].rating > 1000);
+  assert.equal(byId[pairs.a.id].wins, 1);
+  assert.equal(byId[pairs.a.id].friendlyWins, 1);
+});
+
+test('voiding a confirmed friendly takes its W/L back', async () => {
+  const { report } = await reportAndConfirm({ ranked: false });
+  assert.equal((await standings()).pairs[pairs.a.id].friendlyWins, 2);
+
+  const res = await post(
+    '/api/admin/matches/void',
+    { matchId: report.matchId, reason: 'not played' },
+    ADMIN
+  );
+  assert.equal(res.ok, true, res.error);
+
+  const { pairs: byId } = await standings();
+  assert.deepEqual(
+    [byId[pairs.a.id].friendlyWins, byId[pairs.b.id].friendlyLosses],
+    [1, 1]
+  );
+});
@@ -0,0 +1,219 @@
+import { spawn } from 'child_process';
+import { createServer } from 'http';
+import { once } from 'events';
+import { fileURLToPath } from 'url';
+import { sign } from '@tma.js/init-data-node';
+import { cfg } from '../config.js';
+import { applyRatingsPlan, planMatchRatings } from '../ratings.js';
+import { createRecords, listAll, updateRecords } from '../storage/index.js';
+
+/**
+ * ---- Test league ----
+ * Every test file runs in its own process (node --test) against an empty
+ * in-memory SQLite database, so files never see each other's records.
+ */
+process.env.STORAGE_BACKEND = 'sqlite';
+process.env.SQLITE_PATH = ':memory:';
+process.env.BOT_NOTIFICATIONS = '0';
+
+// Four players and the pairs `pairs` of their indexes ([[0, 1], [2, 3]]).
+export async function seedLeague(
+  pairs = [
+    [0, 1],
+    [2, 3],
+  ],
+  playerCount = 4
+) {
+  const c = cfg();
+  const players = (
+    await createRecords(
+      c.T_PLAYERS,
+      Array.from({ length: playerCount }, (_, i) => ({
+        fields: { [c.P_NAME]: `P${i + 1}`, [c.P_TG_ID]: i + 1 },
+      }))
+    )
+  ).records;
+  const pairRecs = (
+    await createRecords(
+      c.T_PAIRS,
+      pairs.map(([a, b]) => ({
+        fields: {
+          [c.PR_PLAYER1]: [players[a].id],
+          [c.PR_PLAYER2]: [players[b].id],
+        },
+      }))
+    )
+  ).records;
+  return { players, pairs: pairRecs };
+}
+
+/**
+ * A reported match with its SetScores; `sets` are [p1, p2] games from pair1's
+ * side. Returns the Matches record.
+ */
+export async function addMatch(pair1, pair2, sets, fields = {}) {
+  const c = cfg();
+  const [match] = (
+    await createRecords(c.T_MATCHES, [
+      {
+        fields: {
+          [c.M_PAIR1]: [pair1.id],
+          [c.M_PAIR2]: [pair2.id],
+          [c.M_DATE]: '2026-05-01',
+          [c.M_STATUS]: c.STATUS_PENDING,
+          ...fields,
+        },
+      },
+    ])
+  ).records;
+  await createRecords(
+    c.T_SETSCORES,
+    sets.map(([p1, p2], i) => ({
+      fields: {
+        [c.S_MATCH]: [match.id],
+        [c.S_SET_NO]: i + 1,
+        [c.S_P1]: p1,
+        [c.S_P2]: p2,
+      },
+    }))
+  );
+  return match;
+}
+
+export async function setsOf(matchId) {
+  const c = cfg();
+  return (await listAll(c.T_SETSCORES)).filter(
+    r => r.fields[c.S_MATCH][0] === matchId
+  );
+}
+
+// Confirms a match the way the confirm routes do: plan, CONFIRMED, apply.
+export async function confirmMatch(match) {
+  const c = cfg();
+  const { plan, result } = await planMatchRatings(
+    match,
+    await setsOf(match.id)
+  );
+  await updateRecords(c.T_MATCHES, [
+    {
+      id: match.id,
+      fields: {
+        [c.M_STATUS]: c.STATUS_CONFIRMED,
+        [c.M_RATINGS_STATE]: c.RATINGS_PENDING,
+        [c.M_RATINGS_PLAN]: JSON.stringify(plan),
+      },
+    },
+  ]);
+  await applyRatingsPlan(match.id, plan);
+  return { plan, result };
+}
+
+// { id: fields } of every record of `table`.
+export async function fieldsById(table) {
+  return Object.fromEntries((await listAll(table)).map(r => [r.id, r.fields]));
+}
+
+const TEST_BOT_TOKEN = '123456:test';
+
+/**
+ * Runs the server (index.js) in a child process on `port` with its own
+ * in-memory league and `env` on top. `post(path, body, telegramId)` calls an
+ * API route as that Telegram user.
+ */
+export async function startServer(port, env = {}) {
+  const child = spawn(process.execPath, ['--no-warnings', 'index.js'], {
+    cwd: fileURLToPath(new URL('..', import.meta.url)),
+    env: {
+      ...process.env,
+      PORT: String(port),
+      BOT_TOKEN: TEST_BOT_TOKEN,
+      ...env,
+    },
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+  const output = [];
+  child.stderr.on('data', d => output.push(String(d)));
+  await new Promise((resolve, reject) => {
+    child.stdout.on('data', d => {
+      output.push(String(d));
+      if (String(d).includes('Server listening')) resolve();
+    });
+    child.once('exit', code =>
+      reject(new Error(`server exited with ${code}:\n${output.join('')}`))
+    );
+  });
+
+  // `startParam` is what Telegram passes on from a startapp deep link.
+  async function post(path, body = {}, telegramId = 1, startParam) {
+    const initData = sign(
+      {
+        user: { id: telegramId, first_name: `U${telegramId}` },
+        authDate: new Date(),
+        queryId: 'test',
+        ...(startParam ? { start_param: startParam } : {}),
+      },
+      TEST_BOT_TOKEN,
+      new Date()
+    );
+    const res = await fetch(`http://127.0.0.1:${port}${path}`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ ...body, initData }),
+    });
+    return res.json();
+  }
+
+  async function stop() {
+    child.kill();
+    await once(child, 'exit');
+  }
+
+  return { post, stop, output, url: `http://127.0.0.1:${port}` };
+}
+
+// Telegram users 1-4 join; pair A is users 1 + 2, pair B users 3 + 4.
+export async function joinTwoPairs(post) {
+  for (const id of [1, 2, 3, 4]) await post('/api/join', {}, id);
+  const { players } = await post('/api/players');
+  const byTg = Object.fromEntries(players.map(p => [p.telegramId, p.id]));
+  const pair = (a, b) =>
+    post('/api/pairs/create', { player1Id: byTg[a], player2Id: byTg[b] });
+  return { a: (await pair(1, 2)).pair, b: (await pair(3, 4)).pair };
+}
+
+/**
+ * Stand-in for the Bot API (TELEGRAM_API_URL). Records every call as
+ * { method, payload } and answers like Telegram with a message id.
+ */
+export async function startBotStub() {
+  const calls = [];
+  const server = createServer(async (req, res) => {
+    let body = '';
+    for await (const chunk of req) body += chunk;
+    calls.push({
+      method: req.url.split('/').pop(),
+      payload: body ? JSON.parse(body) : {},
+    });
+    res.setHeader('content-type', 'application/json');
+    res.end(JSON.stringify({ ok: true, result: { message_id: calls.length } }));
+  });
+  server.listen(0, '127.0.0.1');
+  await once(server, 'listening');
+
+  // Resolves with the calls matching `pred` once there are `count` of them.
+  async function waitFor(pred, count = 1) {
+    for (let i = 0; i < 100; i++) {
+      const found = calls.filter(pred);
+      if (found.length >= count) return found;
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+    throw new Error(`no such bot call in ${JSON.stringify(calls)}`);
+  }
+
+  return {
+    url: `http://127.0.0.1:${server.address().port}`,
+    calls,
+    waitFor,
+    stop: () => new Promise(resolve => server.close(resolve)),
+  };
+}
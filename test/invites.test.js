@@ -0,0 +1,85 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { startServer } from './helpers.js';
+import { readInvite } from '../invites.js';
+
+let server;
+let post;
+let invite;
+
+before(async () => {
+  server = await startServer(18425, {
+    BOT_USERNAME: 'league_bot',
+    MINI_APP_SHORT_NAME: 'app',
+  });
+  post = server.post;
+  await post('/api/join', {}, 1);
+  invite = await post('/api/invites/create', {}, 1);
+});
+
+after(() => server.stop());
+
+test('invites are deep links to the Mini App', () => {
+  assert.equal(invite.ok, true, invite.error);
+  assert.equal(
+    invite.link,
+    `https://t.me/league_bot/app?startapp=${invite.token}`
+  );
+  assert.match(invite.token, /^inv_[A-Za-z0-9_-]+$/);
+  assert.ok(invite.token.length <= 64);
+  assert.ok(Date.parse(invite.expiresAt) > Date.now());
+});
+
+test('only players who joined can invite', async () => {
+  const res = await post('/api/invites/create', {}, 7);
+  assert.equal(res.ok, false);
+  assert.equal(res.error, 'You must Join before inviting friends');
+});
+
+test('tokens are checked against their signature and expiry', () => {
+  process.env.BOT_TOKEN = '123456:test';
+  try {
+    const read = readInvite(invite.token);
+    assert.equal(read.expired, false);
+    assert.equal(readInvite(`${invite.token.slice(0, -1)}x`), null);
+    assert.equal(readInvite('not-an-invite'), null);
+    assert.equal(
+      readInvite(invite.token, Date.now() + 31 * 86400_000).expired,
+      true
+    );
+
+    process.env.BOT_TOKEN = '654321:other';
+    assert.equal(readInvite(invite.token), null);
+  } finally {
+    delete process.env.BOT_TOKEN;
+  }
+});
+
+test('joining through an invite records the inviter', async () => {
+  const joined = await post('/api/join', {}, 2, invite.token);
+  assert.equal(joined.ok, true, joined.error);
+  assert.equal(joined.action, 'created');
+  const inviterId = joined.invite.inviterId;
+  assert.equal(joined.player.invitedBy, inviterId);
+  assert.equal(joined.invite.inviterName, 'U1');
+  assert.equal(joined.invite.pairId, null);
+
+  const pair = await post(
+    '/api/pairs/create',
+    { player1Id: inviterId, player2Id: joined.player.id },
+    2
+  );
+  assert.equal(pair.ok, true, pair.error);
+  const me = await post('/api/me', {}, 2, invite.token);
+  assert.equal(me.invite.pairId, pair.pair.id);
+});
+
+test('own and forged invites are ignored', async () => {
+  const own = await post('/api/me', {}, 1, invite.token);
+  assert.equal(own.invite, null);
+
+  const forged = invite.token.replace(/_[^_]+$/, '_AAAAAAAAAAAAAAAAAAAAAA');
+  const joined = await post('/api/join', {}, 3, forged);
+  assert.equal(joined.invite, null);
+  assert.equal(joined.player.invitedBy, null);
+});
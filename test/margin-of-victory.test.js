@@ -0,0 +1,58 @@
+import { afterEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { marginOfVictory } from '../ratings.js';
+import { matchFormat } from '../shared/match-formats.js';
+
+afterEach(() => {
+  delete process.env.MARGIN_OF_VICTORY;
+});
+
+const sets = (...scores) =>
+  scores.map(([p1, p2], i) => ({ setNo: i + 1, p1, p2 }));
+
+test('set and game differences are from the winner side', () => {
+  assert.deepEqual(marginOfVictory(sets([6, 3], [6, 4]), true), {
+    setDiff: 2,
+    gameDiff: 5,
+    multiplier: 1,
+  });
+  assert.deepEqual(marginOfVictory(sets([3, 6], [6, 4], [2, 6]), false), {
+    setDiff: 1,
+    gameDiff: 5,
+    multiplier: 1,
+  });
+});
+
+test('the multiplier grows with the margin when enabled', () => {
+  process.env.MARGIN_OF_VICTORY = '1';
+  const close = marginOfVictory(sets([7, 6], [6, 7], [7, 5]), true);
+  const usual = marginOfVictory(sets([6, 3], [6, 4]), true);
+  const rout = marginOfVictory(sets([6, 0], [6, 0]), true);
+  assert.ok(close.multiplier < usual.multiplier);
+  assert.ok(usual.multiplier < rout.multiplier);
+  assert.ok(Math.abs(usual.multiplier - 1) < 0.05);
+});
+
+test('the multiplier stays within MOV_MIN..MOV_MAX', () => {
+  process.env.MARGIN_OF_VICTORY = '1';
+  process.env.MOV_GAME_WEIGHT = '1';
+  try {
+    assert.equal(marginOfVictory(sets([6, 0], [6, 0]), true).multiplier, 1.5);
+    assert.equal(
+      marginOfVictory(sets([6, 7], [7, 6], [0, 6]), true).multiplier,
+      0.5
+    );
+  } finally {
+    delete process.env.MOV_GAME_WEIGHT;
+  }
+});
+
+test('super tie-break points count as a set, not as games', () => {
+  const margin = marginOfVictory(
+    sets([6, 4], [3, 6], [10, 2]),
+    true,
+    matchFormat('BEST_OF_3_STB')
+  );
+  assert.equal(margin.setDiff, 1);
+  assert.equal(margin.gameDiff, -1);
+});
@@ -0,0 +1,102 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { joinTwoPairs, startServer } from './helpers.js';
+
+let server;
+let post;
+let pairs;
+const reported = [];
+
+before(async () => {
+  server = await startServer(18419);
+  post = server.post;
+  pairs = await joinTwoPairs(post);
+  for (const date of [
+    '2026-05-01',
+    '2026-05-03',
+    '2026-05-02',
+    '2026-05-05',
+    '2026-05-04',
+  ]) {
+    const res = await post(
+      '/api/matches/report',
+      {
+        myPairId: pairs.a.id,
+        oppPairId: pairs.b.id,
+        sets: [
+          { p1: 6, p2: 4 },
+          { p1: 6, p2: 3 },
+        ],
+        date,
+        duplicateAction: 'create',
+      },
+      1
+    );
+    assert.equal(res.ok, true, res.error);
+    reported.push({ id: res.matchId, date });
+  }
+  // One of them confirmed by the opponents
+  const confirm = await post(
+    '/api/matches/confirm',
+    { matchId: reported[3].id },
+    3
+  );
+  assert.equal(confirm.ok, true, confirm.error);
+});
+
+after(() => server.stop());
+
+async function feed(body, tgId = 1) {
+  const res = await post('/api/matches', body, tgId);
+  assert.equal(res.ok, true, res.error);
+  return res;
+}
+
+test('pages run newest first without gaps or repeats', async () => {
+  const seen = [];
+  let cursor;
+  do {
+    const page = await feed({ limit: 2, ...(cursor && { cursor }) });
+    assert.ok(page.matches.length <= 2);
+    seen.push(...page.matches);
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  assert.deepEqual(
+    seen.map(m => m.date),
+    reported
+      .map(m => m.date)
+      .sort()
+      .reverse()
+  );
+  assert.ok(seen.every(m => m.score === '6-4 6-3'));
+});
+
+test('a bad cursor is refused', async () => {
+  const res = await post('/api/matches', { cursor: 'nope' }, 1);
+  assert.equal(res.ok, false);
+  assert.equal(res.error, 'Invalid cursor');
+});
+
+test('status, pair and date filters narrow the feed', async () => {
+  const confirmed = await feed({ status: 'confirmed' });
+  assert.deepEqual(
+    confirmed.matches.map(m => m.id),
+    [reported[3].id]
+  );
+  assert.equal((await feed({ status: 'pending' })).matches.length, 4);
+  assert.equal((await feed({ status: 'upcoming' })).matches.length, 0);
+
+  assert.equal((await feed({ pairId: pairs.b.id })).matches.length, 5);
+  const range = await feed({ from: '2026-05-02', to: '2026-05-04' });
+  assert.deepEqual(
+    range.matches.map(m => m.date),
+    ['2026-05-04', '2026-05-03', '2026-05-02']
+  );
+});
+
+test('needsAction lists what waits for the caller', async () => {
+  // The opponents have results to confirm, the reporter has nothing to do
+  assert.equal((await feed({ needsAction: true }, 3)).matches.length, 4);
+  assert.equal((await feed({ needsAction: true }, 1)).matches.length, 0);
+});
@@ -0,0 +1,92 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  MATCH_FORMATS,
+  formatScoreText,
+  matchFormat,
+  setsRequired,
+  validateMatchScore,
+  validateSetScore,
+} from '../shared/match-formats.js';
+
+const { BEST_OF_3, BEST_OF_3_STB, PRO_SET, SHORT_SETS } = MATCH_FORMATS;
+const sets = (...scores) => scores.map(([p1, p2]) => ({ p1, p2 }));
+
+test('the default format is best of 3 sets', () => {
+  assert.equal(matchFormat(''), BEST_OF_3);
+  assert.equal(matchFormat('PRO_SET'), PRO_SET);
+  assert.equal(matchFormat('NOPE'), null);
+});
+
+test('regular sets allow the usual scores and a tie-break', () => {
+  for (const [p1, p2] of [
+    [6, 0],
+    [4, 6],
+    [7, 5],
+    [6, 7],
+  ])
+    assert.equal(validateSetScore(BEST_OF_3, 0, p1, p2), null);
+  assert.match(validateSetScore(BEST_OF_3, 1, 6, 5), /^Set 2: allowed/);
+  assert.match(validateSetScore(BEST_OF_3, 0, 8, 6), /allowed/);
+  assert.match(validateSetScore(BEST_OF_3, 0, 3, 3), /cannot be a draw/);
+  assert.match(validateSetScore(BEST_OF_3, 0, -1, 6), /negative/);
+  assert.match(validateSetScore(BEST_OF_3, 0, 6, undefined), /enter numbers/);
+});
+
+test('pro-sets and short sets use their own game counts', () => {
+  assert.equal(validateSetScore(PRO_SET, 0, 9, 7), null);
+  assert.equal(validateSetScore(PRO_SET, 0, 9, 8), null);
+  assert.match(validateSetScore(PRO_SET, 0, 10, 8), /9-0\.\.9-7, 9-8/);
+  assert.equal(validateSetScore(SHORT_SETS, 0, 4, 2), null);
+  assert.equal(validateSetScore(SHORT_SETS, 0, 5, 3), null);
+  assert.equal(validateSetScore(SHORT_SETS, 0, 5, 4), null);
+  assert.match(validateSetScore(SHORT_SETS, 0, 6, 4), /4-0\.\.4-2, 5-3, 5-4/);
+});
+
+test('the super tie-break is to 10 points, won by 2', () => {
+  assert.equal(validateSetScore(BEST_OF_3_STB, 2, 10, 8), null);
+  assert.equal(validateSetScore(BEST_OF_3_STB, 2, 12, 14), null);
+  assert.match(
+    validateSetScore(BEST_OF_3_STB, 2, 10, 9),
+    /^Tie-break: first to 10 points/
+  );
+  assert.match(validateSetScore(BEST_OF_3_STB, 2, 6, 4), /Tie-break/);
+});
+
+test('sets required stop at the deciding set', () => {
+  assert.equal(setsRequired(BEST_OF_3, []), 1);
+  assert.equal(setsRequired(BEST_OF_3, sets([6, 4])), 2);
+  assert.equal(setsRequired(BEST_OF_3, sets([6, 4], [6, 4])), 2);
+  assert.equal(setsRequired(BEST_OF_3, sets([6, 4], [4, 6])), 3);
+  assert.equal(setsRequired(PRO_SET, sets([9, 5])), 1);
+});
+
+test('whole matches must be complete and not run on', () => {
+  assert.equal(
+    validateMatchScore(BEST_OF_3, sets([6, 4], [3, 6], [7, 6])),
+    null
+  );
+  assert.equal(validateMatchScore(BEST_OF_3, []), 'Enter the score');
+  assert.equal(
+    validateMatchScore(BEST_OF_3, sets([6, 4], [3, 6])),
+    'Sets are level. Enter set 3.'
+  );
+  assert.equal(
+    validateMatchScore(BEST_OF_3_STB, sets([6, 4], [3, 6])),
+    'Sets are level. Enter the super tie-break.'
+  );
+  assert.equal(
+    validateMatchScore(BEST_OF_3, sets([6, 4], [6, 4], [6, 4])),
+    'Match was decided after 2 set(s). Remove the rest.'
+  );
+  assert.match(validateMatchScore(PRO_SET, sets([6, 4])), /allowed/);
+});
+
+test('the super tie-break is bracketed in the score text', () => {
+  const score = sets([6, 4], [3, 6], [10, 8]);
+  assert.equal(formatScoreText(BEST_OF_3_STB, score), '6-4 3-6 [10-8]');
+  assert.equal(
+    formatScoreText(BEST_OF_3, sets([6, 4], [3, 6], [7, 5])),
+    '6-4 3-6 7-5'
+  );
+});
@@ -0,0 +1,109 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { startServer } from './helpers.js';
+
+let server;
+let post;
+const pairs = {};
+const playerIds = {};
+
+// Telegram users 1-6; pairs 12, 34, 13 and 56 by their players.
+before(async () => {
+  server = await startServer(18424, { BEST_PARTNER_MIN_MATCHES: '2' });
+  post = server.post;
+  for (const tg of [1, 2, 3, 4, 5, 6]) await post('/api/join', {}, tg);
+  for (const p of (await post('/api/players')).players)
+    playerIds[p.telegramId] = p.id;
+  for (const [a, b] of [
+    [1, 2],
+    [3, 4],
+    [1, 3],
+    [5, 6],
+  ]) {
+    const res = await post('/api/pairs/create', {
+      player1Id: playerIds[a],
+      player2Id: playerIds[b],
+    });
+    pairs[`${a}${b}`] = res.pair.id;
+  }
+
+  // 12 beats 34 twice, 13 beats 56 once.
+  for (const [winner, loser, as, confirmer] of [
+    ['12', '34', 1, 3],
+    ['12', '34', 1, 3],
+    ['13', '56', 1, 5],
+  ]) {
+    const report = await post(
+      '/api/matches/report',
+      {
+        myPairId: pairs[winner],
+        oppPairId: pairs[loser],
+        sets: [
+          { p1: 6, p2: 2 },
+          { p1: 6, p2: 2 },
+        ],
+        duplicateAction: 'create',
+      },
+      as
+    );
+    assert.equal(report.ok, true, report.error);
+    const confirm = await post(
+      '/api/matches/confirm',
+      { matchId: report.matchId },
+      confirmer
+    );
+    assert.equal(confirm.ok, true, confirm.error);
+  }
+});
+
+after(() => server.stop());
+
+const idsOf = res => res.pairs.map(p => p.id);
+
+test('standings default to every pair by rating', async () => {
+  const res = await post('/api/pairs');
+  assert.equal(res.total, 4);
+  assert.deepEqual(idsOf(res), [pairs[12], pairs[13], pairs[56], pairs[34]]);
+});
+
+test('standings can be sorted, filtered and limited', async () => {
+  const byWinPct = await post('/api/pairs', { sort: 'winPct', limit: 2 });
+  assert.equal(byWinPct.total, 4);
+  assert.deepEqual(idsOf(byWinPct), [pairs[12], pairs[13]]);
+
+  const regulars = await post('/api/pairs', { minGames: 2, sort: 'wins' });
+  assert.deepEqual(idsOf(regulars), [pairs[12], pairs[34]]);
+
+  const mine = await post('/api/pairs', { playerId: playerIds[3] });
+  assert.deepEqual(idsOf(mine), [pairs[13], pairs[34]]);
+
+  const bad = await post('/api/pairs', { sort: 'losses' });
+  assert.equal(bad.ok, false);
+  assert.match(bad.error, /sort must be one of/);
+});
+
+test('a pair page has its record and head-to-head', async () => {
+  const res = await post('/api/pairs/profile', { pairId: pairs[34] });
+  assert.equal(res.ok, true, res.error);
+  assert.deepEqual(
+    [res.played, res.wins, res.losses, res.currentStreak],
+    [2, 0, 2, -2]
+  );
+  assert.deepEqual(
+    res.opponentPairs.map(r => [r.pairId, r.played, r.wins]),
+    [[pairs[12], 2, 0]]
+  );
+  assert.deepEqual(
+    res.recent.map(r => r.score),
+    ['2-6 2-6', '2-6 2-6']
+  );
+});
+
+test('the best partnership needs enough matches together', async () => {
+  const p1 = await post('/api/players/profile', { playerId: playerIds[1] });
+  assert.equal(p1.bestPartnership.playerId, playerIds[2]);
+  assert.equal(p1.bestPartnership.pairId, pairs[12]);
+
+  const p5 = await post('/api/players/profile', { playerId: playerIds[5] });
+  assert.equal(p5.bestPartnership, null);
+});
@@ -0,0 +1,129 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { addMatch, seedLeague } from './helpers.js';
+import { cfg } from '../config.js';
+import { playerProfile } from '../stats.js';
+
+const c = cfg();
+const { players, pairs } = await seedLeague(
+  [
+    [0, 1],
+    [2, 3],
+    [0, 2],
+    [4, 5],
+  ],
+  6
+);
+const [p12, p34, p13, p56] = pairs;
+const confirmed = date => ({
+  [c.M_DATE]: date,
+  [c.M_STATUS]: c.STATUS_CONFIRMED,
+});
+
+// P1 wins twice, then loses twice; the pending match does not count.
+await addMatch(
+  p12,
+  p34,
+  [
+    [6, 4],
+    [6, 4],
+  ],
+  confirmed('2026-05-01')
+);
+await addMatch(
+  p13,
+  p56,
+  [
+    [6, 4],
+    [3, 6],
+    [10, 8],
+  ],
+  {
+    ...confirmed('2026-05-02'),
+    [c.M_FORMAT]: 'BEST_OF_3_STB',
+    [c.M_UNRANKED]: true,
+  }
+);
+const m3 = await addMatch(
+  p34,
+  p12,
+  [
+    [6, 3],
+    [6, 3],
+  ],
+  confirmed('2026-05-03')
+);
+const m4 = await addMatch(
+  p12,
+  p56,
+  [
+    [2, 6],
+    [2, 6],
+  ],
+  confirmed('2026-05-04')
+);
+await addMatch(p12, p34, [
+  [6, 0],
+  [6, 0],
+]);
+
+const profile = await playerProfile(players[0].id, { recent: 2 });
+
+test('W/L and streaks follow the confirmed matches in date order', () => {
+  assert.deepEqual(
+    [profile.played, profile.wins, profile.losses, profile.winPct],
+    [4, 2, 2, 50]
+  );
+  assert.equal(profile.currentStreak, -2);
+  assert.equal(profile.longestWinStreak, 2);
+  assert.equal(profile.longestLossStreak, 2);
+});
+
+test('sets and games are counted from the player side', () => {
+  assert.deepEqual(profile.sets, { won: 4, lost: 5, winPct: 44.4 });
+  // The super tie-break (10-8) counts as a set only.
+  assert.deepEqual(profile.games, { won: 31, lost: 42, winPct: 42.5 });
+});
+
+test('partners and opponents get their own records', () => {
+  assert.deepEqual(
+    profile.partners.map(r => [r.name, r.played, r.wins, r.losses]),
+    [
+      ['P2', 3, 1, 2],
+      ['P3', 1, 1, 0],
+    ]
+  );
+  assert.deepEqual(
+    profile.opponents.map(r => [r.name, r.played, r.wins]),
+    [
+      ['P3', 2, 1],
+      ['P4', 2, 1],
+      ['P5', 2, 1],
+      ['P6', 2, 1],
+    ]
+  );
+  assert.deepEqual(
+    profile.opponentPairs.map(r => [r.pairId, r.name, r.winPct]),
+    [
+      [p34.id, 'P3 + P4', 50],
+      [p56.id, 'P5 + P6', 50],
+    ]
+  );
+});
+
+test('recent matches come newest first, scored from the player side', () => {
+  assert.deepEqual(
+    profile.recent.map(r => [r.matchId, r.won, r.score, r.opponentNames]),
+    [
+      [m4.id, false, '2-6 2-6', 'P5 + P6'],
+      [m3.id, false, '3-6 3-6', 'P3 + P4'],
+    ]
+  );
+});
+
+test('unknown players are a 404', async () => {
+  await assert.rejects(playerProfile('recMissing'), {
+    status: 404,
+    message: 'Player not found',
+  });
+});
@@ -0,0 +1,141 @@
+import { afterEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { addMatch, seedLeague, setsOf } from './helpers.js';
+import { cfg } from '../config.js';
+import { normalizePair, normalizePlayer } from '../normalize.js';
+import { eloDelta, ratingEngine } from '../rating-engines.js';
+import { computeMatchRatings, planMatchRatings } from '../ratings.js';
+
+afterEach(() => {
+  delete process.env.RATING_ENGINE;
+});
+
+const assertNear = (actual, expected) =>
+  assert.ok(Math.abs(actual - expected) < 1e-9, `${actual} != ${expected}`);
+
+const state = (rating, rd = 350, volatility = 0.06) => ({
+  rating,
+  rd,
+  volatility,
+});
+
+test('elo: equal teams move by half of K, an upset by more', () => {
+  assert.equal(eloDelta(1000, 1000, 1, 32), 16);
+  assert.ok(eloDelta(900, 1100, 1, 32) > 24);
+  assert.ok(eloDelta(1100, 900, 1, 32) < 8);
+});
+
+test('elo: zero-sum, deviation and volatility pass through', () => {
+  const elo = ratingEngine('elo');
+  const step = elo.rateTeams(
+    [state(1000), state(1040)],
+    [state(990), state(1010)],
+    1,
+    'player'
+  );
+  const gain = step.a[0].rating - 1000;
+  assertNear(step.deltaA, gain);
+  assertNear(step.a[1].rating, 1040 + gain);
+  assertNear(step.b[0].rating, 990 - gain);
+  assert.deepEqual(
+    step.b.map(e => [e.rd, e.volatility]),
+    [
+      [350, 0.06],
+      [350, 0.06],
+    ]
+  );
+  assert.equal(elo.k('pair'), cfg().ELO_K_PAIR);
+  assert.equal(elo.tracksDeviation, false);
+});
+
+test('elo: the weight scales the change', () => {
+  const elo = ratingEngine('elo');
+  const plain = elo.rateTeams([state(1000)], [state(1000)], 1, 'pair');
+  const heavy = elo.rateTeams([state(1000)], [state(1000)], 1, 'pair', 1.5);
+  assert.equal(heavy.deltaA, plain.deltaA * 1.5);
+});
+
+test('glicko2: the winner gains, both deviations shrink', () => {
+  const glicko = ratingEngine('glicko2');
+  const step = glicko.rateTeams([state(1000)], [state(1000)], 1, 'pair');
+  const [winner] = step.a;
+  const [loser] = step.b;
+  assert.ok(winner.rating > 1000);
+  assertNear(winner.rating - 1000, 1000 - loser.rating);
+  assert.ok(winner.rd < 350 && loser.rd < 350);
+  assert.ok(Math.abs(winner.volatility - 0.06) < 0.001);
+});
+
+test('glicko2: a settled rating moves less than a new one', () => {
+  const glicko = ratingEngine('glicko2');
+  const fresh = glicko.rateTeams([state(1000)], [state(1000, 60)], 1, 'pair');
+  const settled = glicko.rateTeams(
+    [state(1000, 60)],
+    [state(1000, 60)],
+    1,
+    'pair'
+  );
+  assert.ok(settled.deltaA < fresh.deltaA);
+  assert.ok(glicko.isProvisional(state(1000)));
+  assert.ok(!glicko.isProvisional(state(1000, 60)));
+});
+
+test('unknown engines are refused', () => {
+  assert.throws(() => ratingEngine('trueskill'), /Unknown RATING_ENGINE/);
+});
+
+test('matches are rated by the configured engine', () => {
+  const c = cfg();
+  const player = (id, rating) =>
+    normalizePlayer({ id, fields: { [c.P_INDIV_RATING]: rating } });
+  const playersById = Object.fromEntries(
+    [
+      player('a', 1000),
+      player('b', 1000),
+      player('c', 1000),
+      player('d', 1000),
+    ].map(p => [p.id, p])
+  );
+  const pair = (id, player1, player2) =>
+    normalizePair({
+      id,
+      fields: { [c.PR_PLAYER1]: [player1], [c.PR_PLAYER2]: [player2] },
+    });
+  const pairsById = { p1: pair('p1', 'a', 'b'), p2: pair('p2', 'c', 'd') };
+  const m = { pair1: 'p1', pair2: 'p2' };
+  const sets = [
+    { setNo: 1, p1: 6, p2: 4 },
+    { setNo: 2, p1: 6, p2: 4 },
+  ];
+
+  const elo = computeMatchRatings(m, sets, pairsById, playersById);
+  assert.equal(elo.deltaPair, 16);
+
+  process.env.RATING_ENGINE = 'glicko2';
+  const glicko = computeMatchRatings(m, sets, pairsById, playersById);
+  assert.ok(glicko.deltaPair > 16);
+  assert.ok(glicko.pairs[0].rd < 350);
+});
+
+test('deviation and volatility are only stored by glicko2', async () => {
+  const c = cfg();
+  const { pairs } = await seedLeague();
+  const match = await addMatch(pairs[0], pairs[1], [
+    [6, 4],
+    [6, 4],
+  ]);
+  const planned = async () => {
+    const { plan } = await planMatchRatings(match, await setsOf(match.id));
+    return [...plan.updates.map(u => u.fields), ...plan.history];
+  };
+  const stores = (fields, name) => fields.every(f => name in f);
+
+  const elo = await planned();
+  assert.ok(!elo.some(f => c.P_RD in f || c.PR_VOL in f || c.RH_NEW_RD in f));
+
+  process.env.RATING_ENGINE = 'glicko2';
+  const glicko = await planned();
+  assert.ok(stores(glicko.slice(0, 2), c.PR_RD));
+  assert.ok(stores(glicko.slice(2, 6), c.P_VOL));
+  assert.ok(stores(glicko.slice(6), c.RH_OLD_RD));
+});
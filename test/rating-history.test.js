@@ -0,0 +1,87 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { joinTwoPairs, startServer } from './helpers.js';
+
+let server;
+let post;
+let pairs;
+
+before(async () => {
+  server = await startServer(18402);
+  post = server.post;
+  pairs = await joinTwoPairs(post);
+});
+
+after(() => server.stop());
+
+async function playAndConfirm(sets) {
+  const report = await post(
+    '/api/matches/report',
+    {
+      myPairId: pairs.a.id,
+      oppPairId: pairs.b.id,
+      sets,
+      duplicateAction: 'create',
+    },
+    1
+  );
+  assert.equal(report.ok, true, report.error);
+  const confirm = await post(
+    '/api/matches/confirm',
+    { matchId: report.matchId },
+    3
+  );
+  assert.equal(confirm.ok, true, confirm.error);
+  return report.matchId;
+}
+
+const history = body => post('/api/ratings/history', body);
+
+test('a confirmed match adds one entry per pair and player', async () => {
+  const matchId = await playAndConfirm([
+    { p1: 6, p2: 3 },
+    { p1: 6, p2: 4 },
+  ]);
+
+  const winners = await history({ pairId: pairs.a.id });
+  assert.equal(winners.entityType, 'pair');
+  assert.equal(winners.history.length, 1);
+  const [entry] = winners.history;
+  assert.equal(entry.match, matchId);
+  assert.equal(entry.oldRating, 1000);
+  assert.equal(entry.newRating, entry.oldRating + entry.delta);
+  assert.ok(entry.delta > 0);
+  assert.ok(entry.k > 0);
+
+  const [loser] = (await history({ pairId: pairs.b.id })).history;
+  assert.equal(loser.delta, -entry.delta);
+
+  for (const playerId of [pairs.a.player1, pairs.b.player2]) {
+    const res = await history({ playerId });
+    assert.equal(res.entityType, 'player');
+    assert.equal(res.history.length, 1);
+  }
+});
+
+test('entries follow the matches in order and end at the rating', async () => {
+  await playAndConfirm([
+    { p1: 3, p2: 6 },
+    { p1: 6, p2: 4 },
+    { p1: 4, p2: 6 },
+  ]);
+  const { history: entries } = await history({ pairId: pairs.b.id });
+  assert.equal(entries.length, 2);
+  assert.equal(entries[1].oldRating, entries[0].newRating);
+
+  const { pairs: all } = await post('/api/pairs');
+  const rating = all.find(p => p.id === pairs.b.id).rating;
+  assert.equal(entries[1].newRating, rating);
+});
+
+test('exactly one of playerId or pairId is required', async () => {
+  for (const body of [{}, { playerId: 'recA', pairId: 'recB' }]) {
+    const res = await history(body);
+    assert.equal(res.ok, false);
+    assert.equal(res.error, 'Provide exactly one of playerId or pairId');
+  }
+});
@@ -0,0 +1,138 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { addMatch, confirmMatch, seedLeague, setsOf } from './helpers.js';
+import { cfg } from '../config.js';
+import { normalizeMatch, normalizeRatingChange } from '../normalize.js';
+import {
+  finishPendingRatings,
+  ledgerOrder,
+  planMatchRatings,
+  recomputeAllRatings,
+} from '../ratings.js';
+import {
+  createRecords,
+  getRecord,
+  listAll,
+  updateRecords,
+} from '../storage/index.js';
+
+const c = cfg();
+const { pairs } = await seedLeague();
+const [p12, p34] = pairs;
+
+async function ledgerOf(matchId) {
+  return (await listAll(c.T_RATING_HISTORY))
+    .map(normalizeRatingChange)
+    .filter(h => h.match === matchId);
+}
+
+/**
+ * A confirmation that stopped part way: the plan is stored, the pairs and the
+ * first ledger entry are written, the players and the rest are not.
+ */
+async function interruptedConfirm(match) {
+  const { plan } = await planMatchRatings(match, await setsOf(match.id));
+  await updateRecords(c.T_MATCHES, [
+    {
+      id: match.id,
+      fields: {
+        [c.M_STATUS]: c.STATUS_CONFIRMED,
+        [c.M_RATINGS_STATE]: c.RATINGS_PENDING,
+        [c.M_RATINGS_PLAN]: JSON.stringify(plan),
+      },
+    },
+  ]);
+  await updateRecords(
+    c.T_PAIRS,
+    plan.updates
+      .filter(u => u.type === 'pair')
+      .map(u => ({ id: u.id, fields: u.fields }))
+  );
+  await createRecords(c.T_RATING_HISTORY, [{ fields: plan.history[0] }]);
+  return plan;
+}
+
+test('an interrupted confirmation is finished once', async () => {
+  await confirmMatch(
+    await addMatch(p12, p34, [
+      [6, 4],
+      [6, 4],
+    ])
+  );
+  const match = await addMatch(p34, p12, [
+    [6, 2],
+    [3, 6],
+    [6, 3],
+  ]);
+  const plan = await interruptedConfirm(match);
+
+  assert.equal(await finishPendingRatings(), 1);
+  const m = normalizeMatch(await getRecord(c.T_MATCHES, match.id));
+  assert.equal(m.ratingsState, c.RATINGS_APPLIED);
+
+  const ledger = await ledgerOf(match.id);
+  assert.equal(ledger.length, plan.history.length);
+  assert.equal(
+    new Set(ledger.map(h => `${h.entityType}:${h.entityId}`)).size,
+    ledger.length
+  );
+
+  const summary = await recomputeAllRatings({ dryRun: true });
+  assert.deepEqual(summary.players, []);
+  assert.deepEqual(summary.pairs, []);
+
+  // Nothing left to recover
+  assert.equal(await finishPendingRatings(), 0);
+});
+
+test('a plan on a match that is no longer confirmed is dropped', async () => {
+  const before = await listAll(c.T_PLAYERS);
+  const match = await addMatch(p12, p34, [
+    [6, 0],
+    [6, 0],
+  ]);
+  const { plan } = await planMatchRatings(match, await setsOf(match.id));
+  await updateRecords(c.T_MATCHES, [
+    {
+      id: match.id,
+      fields: {
+        [c.M_STATUS]: c.STATUS_DISPUTED,
+        [c.M_RATINGS_STATE]: c.RATINGS_PENDING,
+        [c.M_RATINGS_PLAN]: JSON.stringify(plan),
+      },
+    },
+  ]);
+
+  assert.equal(await finishPendingRatings(), 1);
+  const rec = await getRecord(c.T_MATCHES, match.id);
+  assert.equal(normalizeMatch(rec).ratingsState, '');
+  assert.ok(!rec.fields[c.M_RATINGS_PLAN]);
+  assert.deepEqual(await ledgerOf(match.id), []);
+  assert.deepEqual(await listAll(c.T_PLAYERS), before);
+});
+
+test('ledger entries sort by sequence, then creation time', async () => {
+  const ledger = (await listAll(c.T_RATING_HISTORY)).map(normalizeRatingChange);
+  const matches = [...new Set([...ledger].sort(ledgerOrder).map(h => h.match))];
+  const confirmed = (await listAll(c.T_MATCHES))
+    .map(normalizeMatch)
+    .filter(m => m.ratingsState === c.RATINGS_APPLIED)
+    .map(m => m.id);
+  assert.deepEqual(matches, confirmed);
+  // Each match's entries share the number after the last stored one.
+  assert.deepEqual(
+    [...new Set(ledger.map(h => h.seq))].sort((a, b) => a - b),
+    confirmed.map((_, i) => i + 1)
+  );
+
+  assert.deepEqual(
+    [
+      { seq: 2, createdTime: '2026-05-01T00:00:00.000Z' },
+      { seq: 1, createdTime: '2026-06-01T00:00:00.000Z' },
+      { seq: 2, createdTime: '2026-04-01T00:00:00.000Z' },
+    ]
+      .sort(ledgerOrder)
+      .map(h => h.seq + h.createdTime.slice(5, 7)),
+    ['106', '204', '205']
+  );
+});
@@ -0,0 +1,96 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  cachedList,
+  cachedRecord,
+  cachePut,
+  cacheRemove,
+  readModelStatus,
+  resyncReadModel,
+  startReadModel,
+} from '../storage/cache.js';
+
+// Stand-in backend: `rows` is what the next load returns.
+const rows = {
+  Players: [
+    { id: 'p1', fields: { Name: 'Ann', Rating: 1010 } },
+    { id: 'p2', fields: { Name: 'Bob', Rating: 990 } },
+  ],
+  Pairs: [],
+};
+const loads = [];
+let gate = null; // holds loads back while set
+startReadModel(['Players', 'Pairs'], async name => {
+  loads.push(name);
+  await gate;
+  return rows[name].map(r => ({ ...r, fields: { ...r.fields } }));
+});
+
+test('a table is loaded once, on first read', async () => {
+  const list = await cachedList('Players', {
+    sort: [{ field: 'Rating', direction: 'desc' }],
+  });
+  assert.deepEqual(
+    list.map(r => r.id),
+    ['p1', 'p2']
+  );
+  assert.equal((await cachedRecord('Players', 'p2')).fields.Name, 'Bob');
+  assert.equal(await cachedRecord('Players', 'p9'), null);
+  assert.deepEqual(loads, ['Players']);
+});
+
+test('callers get copies, not the cached records', async () => {
+  const rec = await cachedRecord('Players', 'p1');
+  rec.fields.Rating = 0;
+  assert.equal((await cachedRecord('Players', 'p1')).fields.Rating, 1010);
+});
+
+test('writes are applied to a loaded table', async () => {
+  cachePut('Players', [{ id: 'p3', fields: { Name: 'Cid', Rating: 1000 } }]);
+  cachePut('Players', [{ id: 'p1', fields: { Name: 'Ann', Rating: 1020 } }]);
+  cacheRemove('Players', ['p2']);
+  const list = await cachedList('Players', {
+    sort: [{ field: 'Rating', direction: 'desc' }],
+  });
+  assert.deepEqual(
+    list.map(r => [r.id, r.fields.Rating]),
+    [
+      ['p1', 1020],
+      ['p3', 1000],
+    ]
+  );
+  assert.deepEqual(loads, ['Players']);
+});
+
+test('writes that finish during a load are not lost', async () => {
+  let open;
+  gate = new Promise(resolve => (open = resolve));
+  const reading = cachedList('Pairs');
+  cachePut('Pairs', [{ id: 'x', fields: { Rating: 1000 } }]);
+  gate = null;
+  open();
+  assert.deepEqual(
+    (await reading).map(r => r.id),
+    ['x']
+  );
+});
+
+test('resync reloads loaded tables from the backend', async () => {
+  rows.Players = [{ id: 'p9', fields: { Name: 'Dee', Rating: 1000 } }];
+  assert.deepEqual((await resyncReadModel()).sort(), ['Pairs', 'Players']);
+  assert.deepEqual(
+    (await cachedList('Players')).map(r => r.id),
+    ['p9']
+  );
+
+  const status = readModelStatus();
+  assert.equal(status.enabled, true);
+  assert.equal(status.loads, 4);
+  assert.deepEqual(
+    status.tables.map(t => [t.table, t.loaded, t.records]),
+    [
+      ['Players', true, 1],
+      ['Pairs', true, 0],
+    ]
+  );
+});
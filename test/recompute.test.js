@@ -0,0 +1,129 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  addMatch,
+  confirmMatch,
+  fieldsById,
+  joinTwoPairs,
+  seedLeague,
+  startServer,
+} from './helpers.js';
+import { cfg } from '../config.js';
+import { normalizePair, normalizePlayer } from '../normalize.js';
+import { recomputeAllRatings } from '../ratings.js';
+import { listAll, updateRecords } from '../storage/index.js';
+
+const c = cfg();
+const league = await seedLeague([
+  [0, 1],
+  [2, 3],
+  [0, 2],
+  [1, 3],
+]);
+const [p12, p34, p13, p24] = league.pairs;
+
+test('recompute agrees with the ratings applied live', async () => {
+  await confirmMatch(
+    await addMatch(p12, p34, [
+      [6, 3],
+      [6, 4],
+    ])
+  );
+  await confirmMatch(
+    await addMatch(
+      p13,
+      p24,
+      [
+        [6, 2],
+        [3, 6],
+        [7, 5],
+      ],
+      { [c.M_DATE]: '2026-05-02' }
+    )
+  );
+
+  const summary = await recomputeAllRatings({ dryRun: true });
+  assert.equal(summary.replayedMatches, 2);
+  assert.deepEqual(summary.skipped, []);
+  assert.deepEqual(summary.players, []);
+  assert.deepEqual(summary.pairs, []);
+});
+
+test('recompute repairs a hand-edited rating and skips unconfirmed matches', async () => {
+  await addMatch(p12, p34, [
+    [6, 0],
+    [6, 0],
+  ]);
+  const before = normalizePair((await listAll(c.T_PAIRS))[0]);
+  await updateRecords(c.T_PAIRS, [
+    { id: p12.id, fields: { [c.PR_RATING]: 1500 } },
+  ]);
+
+  const dry = await recomputeAllRatings({ dryRun: true });
+  assert.deepEqual(
+    dry.pairs.map(d => [d.id, d.oldRating, d.newRating]),
+    [[p12.id, 1500, before.rating]]
+  );
+  assert.equal(normalizePair((await listAll(c.T_PAIRS))[0]).rating, 1500);
+
+  await recomputeAllRatings({ dryRun: false });
+  assert.equal(
+    normalizePair((await listAll(c.T_PAIRS))[0]).rating,
+    before.rating
+  );
+});
+
+test('recompute rebuilds the ledger: one entry per participant and match', async () => {
+  const history = await listAll(c.T_RATING_HISTORY);
+  assert.equal(history.length, 2 * 6);
+
+  const players = await fieldsById(c.T_PLAYERS);
+  const gamesPlayed = Object.values(players).map(
+    f => normalizePlayer({ fields: f }).gamesPlayed
+  );
+  assert.deepEqual(gamesPlayed, [2, 2, 2, 2]);
+});
+
+test('admins recompute through the running server', async () => {
+  const ADMIN = 9;
+  const server = await startServer(18403, {
+    ADMIN_TELEGRAM_IDS: String(ADMIN),
+  });
+  try {
+    const { post } = server;
+    const { a, b } = await joinTwoPairs(post);
+    const report = await post(
+      '/api/matches/report',
+      {
+        myPairId: a.id,
+        oppPairId: b.id,
+        sets: [
+          { p1: 6, p2: 3 },
+          { p1: 6, p2: 4 },
+        ],
+      },
+      1
+    );
+    await post('/api/matches/confirm', { matchId: report.matchId }, 3);
+
+    const denied = await post('/api/admin/ratings/recompute', {}, 1);
+    assert.equal(denied.ok, false);
+
+    const dry = await post('/api/admin/ratings/recompute', {}, ADMIN);
+    assert.equal(dry.ok, true, dry.error);
+    assert.equal(dry.dryRun, true);
+    assert.equal(dry.replayedMatches, 1);
+    assert.deepEqual([dry.players, dry.pairs], [[], []]);
+
+    const applied = await post(
+      '/api/admin/ratings/recompute',
+      { dryRun: false },
+      ADMIN
+    );
+    assert.equal(applied.dryRun, false);
+    const { pairs } = await post('/api/pairs');
+    assert.ok(pairs.find(p => p.id === a.id).rating > 1000);
+  } finally {
+    server.stop();
+  }
+});
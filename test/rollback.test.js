@@ -0,0 +1,93 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { addMatch, confirmMatch, fieldsById, seedLeague } from './helpers.js';
+import { cfg } from '../config.js';
+import { normalizeRatingChange } from '../normalize.js';
+import { recomputeAllRatings, rollbackMatchRatings } from '../ratings.js';
+import { listAll, updateRecords } from '../storage/index.js';
+
+const c = cfg();
+const league = await seedLeague([
+  [0, 1],
+  [2, 3],
+  [0, 2],
+  [1, 3],
+]);
+const [p12, p34, p13, p24] = league.pairs;
+
+// What the void route does once the ratings are rolled back.
+async function voidMatch(match) {
+  const summary = await rollbackMatchRatings(match.id);
+  await updateRecords(c.T_MATCHES, [
+    { id: match.id, fields: { [c.M_STATUS]: c.STATUS_VOIDED } },
+  ]);
+  return summary;
+}
+
+async function assertRecomputeAgrees() {
+  const summary = await recomputeAllRatings({ dryRun: true });
+  assert.deepEqual(summary.players, []);
+  assert.deepEqual(summary.pairs, []);
+}
+
+test('voiding the latest match restores ratings, W/L and GP', async () => {
+  const players = await fieldsById(c.T_PLAYERS);
+  const pairs = await fieldsById(c.T_PAIRS);
+  const match = await addMatch(p12, p34, [
+    [6, 3],
+    [6, 4],
+  ]);
+  await confirmMatch(match);
+
+  const dry = await rollbackMatchRatings(match.id, { dryRun: true });
+  assert.equal(dry.needsRecompute, false);
+  assert.equal(dry.players.length, 4);
+  assert.equal(dry.pairs.length, 2);
+  assert.notDeepEqual(await fieldsById(c.T_PAIRS), pairs);
+
+  await voidMatch(match);
+  const rating = f => [f[c.P_INDIV_RATING] ?? 1000, f[c.P_GP] || 0];
+  assert.deepEqual(
+    Object.values(await fieldsById(c.T_PLAYERS)).map(rating),
+    Object.values(players).map(rating)
+  );
+  const ledger = (await listAll(c.T_RATING_HISTORY)).map(normalizeRatingChange);
+  assert.equal(ledger.filter(h => h.match === match.id).length, 0);
+});
+
+test('later matches of the same players are replayed', async () => {
+  const voided = await addMatch(p12, p34, [
+    [6, 0],
+    [6, 0],
+  ]);
+  await confirmMatch(voided);
+  const later = [
+    await addMatch(p13, p24, [
+      [6, 4],
+      [4, 6],
+      [6, 3],
+    ]),
+    await addMatch(p34, p12, [
+      [7, 5],
+      [6, 4],
+    ]),
+  ];
+  for (const m of later) await confirmMatch(m);
+
+  const summary = await voidMatch(voided);
+  assert.deepEqual(
+    summary.replayedMatches,
+    later.map(m => m.id)
+  );
+  await assertRecomputeAgrees();
+});
+
+test('a match without ledger entries asks for a recompute', async () => {
+  const match = await addMatch(p12, p34, [
+    [6, 2],
+    [6, 2],
+  ]);
+  const summary = await rollbackMatchRatings(match.id);
+  assert.equal(summary.needsRecompute, true);
+  assert.deepEqual(summary.players, []);
+});
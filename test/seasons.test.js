@@ -0,0 +1,135 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { addMatch, confirmMatch, fieldsById, seedLeague } from './helpers.js';
+import { cfg } from '../config.js';
+import { normalizePlayer, normalizeRatingChange } from '../normalize.js';
+import { recomputeAllRatings, softResetRating } from '../ratings.js';
+import {
+  activeSeason,
+  closeSeason,
+  createSeason,
+  seasonStandings,
+} from '../seasons.js';
+import { listAll, updateRecords } from '../storage/index.js';
+
+const c = cfg();
+const { pairs } = await seedLeague();
+const [p12, p34] = pairs;
+
+test('a soft reset moves ratings part of the way back to the default', () => {
+  assert.equal(softResetRating(1200, 0.5), 1100);
+  assert.equal(softResetRating(900, 0.25), 925);
+  assert.equal(softResetRating(1234, 0), 1234);
+  assert.equal(softResetRating(1234, 1), 1000);
+});
+
+test('seasons are checked when created', async () => {
+  await assert.rejects(createSeason({ name: '', startDate: '2026-01-01' }), {
+    status: 400,
+  });
+  await assert.rejects(
+    createSeason({
+      name: 'S1',
+      startDate: '2026-03-01',
+      endDate: '2026-02-01',
+    }),
+    { message: 'endDate must not be before startDate' }
+  );
+
+  const s1 = await createSeason({ name: 'S1', startDate: '2026-01-01' });
+  assert.equal((await activeSeason()).id, s1.id);
+  await assert.rejects(createSeason({ name: 'S2', startDate: '2026-06-01' }), {
+    status: 409,
+    message: 'Close season "S1" first',
+  });
+});
+
+test('a season with an unconfirmed match cannot be closed', async () => {
+  const season = await activeSeason();
+  const match = await addMatch(p12, p34, [
+    [6, 2],
+    [6, 3],
+  ]);
+  await assert.rejects(closeSeason(season.id), {
+    status: 409,
+    message: '1 match(es) of this season are still pending or disputed',
+  });
+  await confirmMatch(match);
+});
+
+test('closing archives standings, then soft-resets ratings and W/L', async () => {
+  const season = await activeSeason();
+  const before = Object.values(await fieldsById(c.T_PLAYERS)).map(f =>
+    normalizePlayer({ fields: f })
+  );
+
+  const dry = await closeSeason(season.id, { softReset: 0.5, dryRun: true });
+  assert.equal(dry.archived, 6);
+  assert.equal(dry.champions.pair, 'P1 + P2');
+  assert.equal((await activeSeason()).id, season.id);
+
+  await closeSeason(season.id, { softReset: 0.5 });
+  assert.equal(await activeSeason(), null);
+
+  const standings = await seasonStandings(season.id);
+  const players = standings.filter(s => s.entityType === 'player');
+  assert.deepEqual(
+    players.map(s => s.rank),
+    [1, 2, 3, 4]
+  );
+  assert.deepEqual(
+    players.map(s => [s.name, s.wins, s.losses]),
+    [
+      ['P1', 1, 0],
+      ['P2', 1, 0],
+      ['P3', 0, 1],
+      ['P4', 0, 1],
+    ]
+  );
+  assert.equal(players[0].rating, before[0].rating);
+
+  const after = Object.values(await fieldsById(c.T_PLAYERS)).map(f =>
+    normalizePlayer({ fields: f })
+  );
+  assert.deepEqual(
+    after.map(p => [p.rating, p.gamesPlayed, p.wins, p.losses]),
+    before.map(p => [softResetRating(p.rating, 0.5), 0, 0, 0])
+  );
+
+  const resets = (await listAll(c.T_RATING_HISTORY))
+    .map(normalizeRatingChange)
+    .filter(h => !h.match);
+  assert.equal(resets.length, 6);
+  assert.ok(
+    resets.every(h => h.newRating === softResetRating(h.oldRating, 0.5))
+  );
+});
+
+test('recompute replays the season close', async () => {
+  await createSeason({ name: 'S2', startDate: '2026-06-01' });
+  await confirmMatch(
+    await addMatch(
+      p34,
+      p12,
+      [
+        [6, 4],
+        [6, 4],
+      ],
+      { [c.M_DATE]: '2026-06-10' }
+    )
+  );
+
+  let summary = await recomputeAllRatings({ dryRun: true });
+  assert.deepEqual(summary.players, []);
+  assert.deepEqual(summary.pairs, []);
+
+  // A rating edited by hand is put back
+  await updateRecords(c.T_PAIRS, [
+    { id: p12.id, fields: { [c.PR_RATING]: 1300 } },
+  ]);
+  summary = await recomputeAllRatings({ dryRun: true });
+  assert.deepEqual(
+    summary.pairs.map(d => d.id),
+    [p12.id]
+  );
+});
@@ -0,0 +1,224 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { fieldsById, seedLeague } from './helpers.js';
+import { cfg } from '../config.js';
+import { normalizeSessionGame } from '../normalize.js';
+import { finishPendingRatings, planSessionRatings } from '../ratings.js';
+import { listAll, updateRecords } from '../storage/index.js';
+import {
+  americanoSchedule,
+  createSession,
+  finishSession,
+  mexicanoRound,
+  scoreSessionGame,
+  sessionLeaderboard,
+} from '../sessions.js';
+
+const c = cfg();
+const { players } = await seedLeague([], 8);
+const ids = players.map(p => p.id);
+const [organiser, , , , , , , outsider] = players;
+
+const pairKey = (a, b) => [a, b].sort().join('|');
+
+test('an Americano of 8 rotates partners across the rounds', () => {
+  const letters = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'];
+  const partners = new Set();
+  for (const games of americanoSchedule(letters, 7)) {
+    assert.equal(games.length, 2);
+    assert.equal(new Set(games.flat(2)).size, 8);
+    for (const [t1, t2] of games) {
+      partners.add(pairKey(...t1));
+      partners.add(pairKey(...t2));
+    }
+  }
+  assert.ok(partners.size >= 20, `only ${partners.size} different partners`);
+});
+
+test('a Mexicano round puts 1 + 4 against 2 + 3 on each court', () => {
+  assert.deepEqual(mexicanoRound(['a', 'b', 'c', 'd'], []), [
+    [
+      ['a', 'd'],
+      ['b', 'c'],
+    ],
+  ]);
+  // With 5 players, the one who has not sat out yet sits out now.
+  const previous = [{ games: [], sitters: ['a', 'b', 'c', 'd'] }];
+  const [game] = mexicanoRound(['a', 'b', 'c', 'd', 'e'], previous);
+  assert.deepEqual(game, [
+    ['a', 'd'],
+    ['b', 'c'],
+  ]);
+});
+
+test('the leaderboard counts points of scored games only', () => {
+  const session = { players: ['a', 'b', 'c', 'd'] };
+  const games = [
+    { team1: ['a', 'b'], team2: ['c', 'd'], points1: 15, points2: 9 },
+    { team1: ['a', 'c'], team2: ['b', 'd'], points1: null, points2: null },
+  ];
+  const rows = sessionLeaderboard(session, games, { a: { name: 'A' } });
+  assert.deepEqual(rows[0], {
+    playerId: 'a',
+    name: 'A',
+    points: 15,
+    games: 1,
+    wins: 1,
+  });
+  assert.deepEqual(
+    rows.map(r => [r.playerId, r.points]),
+    [
+      ['a', 15],
+      ['b', 15],
+      ['c', 9],
+      ['d', 9],
+    ]
+  );
+});
+
+test('sessions need 4 players and a known mode', async () => {
+  await assert.rejects(
+    createSession({ name: 'S', playerIds: ids.slice(0, 3) }, organiser),
+    { status: 400, message: 'At least 4 players are required' }
+  );
+  await assert.rejects(
+    createSession(
+      { name: 'S', mode: 'SWISS', playerIds: ids.slice(0, 4) },
+      organiser
+    ),
+    { status: 400, message: 'Unknown mode: SWISS' }
+  );
+});
+
+test('Mexicano draws the next round once the current one is scored', async () => {
+  const session = await createSession(
+    {
+      name: 'Mexicano night',
+      mode: c.MODE_MEXICANO,
+      playerIds: ids.slice(0, 4),
+      rounds: 2,
+      pointsPerGame: 24,
+    },
+    organiser
+  );
+  const [first] = (await listAll(c.T_SESSION_GAMES)).filter(
+    r => r.fields[c.SG_SESSION][0] === session.id
+  );
+
+  await assert.rejects(
+    scoreSessionGame(first.id, { points1: 20, points2: 3 }, organiser, false),
+    { status: 400, message: 'Points must add up to 24 (got 23)' }
+  );
+  await assert.rejects(
+    scoreSessionGame(first.id, { points1: 12, points2: 12 }, outsider, false),
+    { status: 403 }
+  );
+
+  const view = await scoreSessionGame(
+    first.id,
+    { points1: 18, points2: 6 },
+    organiser,
+    false
+  );
+  assert.equal(view.games.length, 2);
+  const [winnerA, winnerB] = first.fields[c.SG_TEAM1];
+  const [loserA, loserB] = first.fields[c.SG_TEAM2];
+  // Both winners lead with 18, so they split up for round 2.
+  const next = view.games.find(g => g.round === 2);
+  const team = [next.team1, next.team2].find(t => t.includes(winnerA));
+  assert.ok(!team.includes(winnerB));
+  assert.ok([loserA, loserB].some(id => team.includes(id)));
+
+  await assert.rejects(
+    scoreSessionGame(first.id, { points1: 12, points2: 12 }, organiser, false),
+    { status: 409, message: 'The next round has already been drawn' }
+  );
+});
+
+test('finishing a rated session updates individual ratings', async () => {
+  const session = await createSession(
+    {
+      name: 'Americano night',
+      playerIds: ids.slice(0, 4),
+      rounds: 1,
+      rated: true,
+    },
+    organiser
+  );
+  const [game] = (await listAll(c.T_SESSION_GAMES)).filter(
+    r => r.fields[c.SG_SESSION][0] === session.id
+  );
+  await scoreSessionGame(
+    game.id,
+    { points1: 16, points2: 8 },
+    organiser,
+    false
+  );
+
+  await assert.rejects(finishSession(session.id, players[1], false), {
+    status: 403,
+  });
+  const finished = await finishSession(session.id, organiser, false);
+  assert.equal(finished.ratings.length, 4);
+  assert.equal(finished.session.ratingsState, c.RATINGS_APPLIED);
+
+  const playersNow = await fieldsById(c.T_PLAYERS);
+  for (const id of game.fields[c.SG_TEAM1])
+    assert.ok(playersNow[id][c.P_INDIV_RATING] > c.DEFAULT_RATING);
+  for (const id of game.fields[c.SG_TEAM2])
+    assert.ok(playersNow[id][c.P_INDIV_RATING] < c.DEFAULT_RATING);
+
+  const entries = (await listAll(c.T_RATING_HISTORY)).filter(
+    r => r.fields[c.RH_SESSION]?.[0] === session.id
+  );
+  assert.equal(entries.length, 4);
+
+  await assert.rejects(finishSession(session.id, organiser, false), {
+    status: 409,
+    message: 'Session is already finished',
+  });
+});
+
+test('an interrupted session finish is completed from its plan', async () => {
+  const session = await createSession(
+    { name: 'Late night', playerIds: ids.slice(4, 8), rounds: 1, rated: true },
+    organiser
+  );
+  const [game] = (await listAll(c.T_SESSION_GAMES)).filter(
+    r => r.fields[c.SG_SESSION][0] === session.id
+  );
+  await scoreSessionGame(
+    game.id,
+    { points1: 5, points2: 19 },
+    players[4],
+    false
+  );
+
+  // Stopped right after FINISHED and the plan were saved.
+  const games = (await listAll(c.T_SESSION_GAMES))
+    .filter(r => r.fields[c.SG_SESSION][0] === session.id)
+    .map(normalizeSessionGame);
+  const { plan } = await planSessionRatings(session, games);
+  await updateRecords(c.T_SESSIONS, [
+    {
+      id: session.id,
+      fields: {
+        [c.SN_STATUS]: c.SESSION_FINISHED,
+        [c.SN_RATINGS_STATE]: c.RATINGS_PENDING,
+        [c.SN_RATINGS_PLAN]: JSON.stringify(plan),
+      },
+    },
+  ]);
+
+  assert.equal(await finishPendingRatings(), 1);
+  assert.equal(await finishPendingRatings(), 0);
+  const playersNow = await fieldsById(c.T_PLAYERS);
+  for (const id of game.fields[c.SG_TEAM2])
+    assert.ok(playersNow[id][c.P_INDIV_RATING] > c.DEFAULT_RATING);
+  const entries = (await listAll(c.T_RATING_HISTORY)).filter(
+    r => r.fields[c.RH_SESSION]?.[0] === session.id
+  );
+  assert.equal(entries.length, 4);
+  const sessions = await fieldsById(c.T_SESSIONS);
+  assert.equal(sessions[session.id][c.SN_RATINGS_STATE], c.RATINGS_APPLIED);
+});
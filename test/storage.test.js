@@ -0,0 +1,108 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import './helpers.js';
+import {
+  createRecords,
+  getRecord,
+  listAll,
+  listLinked,
+  storageMissingEnv,
+  updateRecords,
+} from '../storage/index.js';
+
+test('sqlite needs no Airtable settings', () => {
+  assert.deepEqual(storageMissingEnv(), []);
+});
+
+test('created records come back Airtable-shaped', async () => {
+  const { records } = await createRecords('Players', [
+    { fields: { Name: 'Ann', Rating: 1000 } },
+    { fields: { Name: 'Bob', Rating: 1100 } },
+  ]);
+  assert.equal(records.length, 2);
+  assert.match(records[0].id, /^rec[A-Za-z0-9]{14}$/);
+  assert.ok(!Number.isNaN(Date.parse(records[0].createdTime)));
+
+  const rec = await getRecord('Players', records[1].id);
+  assert.deepEqual(rec, records[1]);
+  await assert.rejects(getRecord('Players', 'recMissing'), { status: 404 });
+  await assert.rejects(getRecord('Pairs', records[0].id), { status: 404 });
+});
+
+test('updates merge into the stored fields', async () => {
+  const [rec] = (
+    await createRecords('Matches', [
+      { fields: { Status: 'PENDING', Ranked: true } },
+    ])
+  ).records;
+  const { records } = await updateRecords('Matches', [
+    { id: rec.id, fields: { Status: 'CONFIRMED' } },
+  ]);
+  assert.deepEqual(records[0].fields, { Status: 'CONFIRMED', Ranked: true });
+  assert.deepEqual(
+    (await getRecord('Matches', rec.id)).fields,
+    records[0].fields
+  );
+});
+
+test('listAll filters, sorts and caps like Airtable', async () => {
+  await createRecords('Scores', [
+    { fields: { Team: 'a', Points: 3 } },
+    { fields: { Team: 'b', Points: 10 } },
+    { fields: { Team: 'a', Points: 7 } },
+    { fields: { Team: 'b' } },
+  ]);
+
+  const all = await listAll('Scores');
+  assert.deepEqual(
+    all.map(r => r.fields.Points),
+    [3, 10, 7, undefined]
+  );
+  const a = await listAll('Scores', { where: { Team: 'a' } });
+  assert.deepEqual(
+    a.map(r => r.fields.Points),
+    [3, 7]
+  );
+  const top = await listAll('Scores', {
+    sort: [{ field: 'Points', direction: 'desc' }],
+    maxRecords: 2,
+  });
+  assert.deepEqual(
+    top.map(r => r.fields.Points),
+    [10, 7]
+  );
+  // Numbers sort as numbers, missing values first
+  const asc = await listAll('Scores', { sort: [{ field: 'Points' }] });
+  assert.deepEqual(
+    asc.map(r => r.fields.Points),
+    [undefined, 3, 7, 10]
+  );
+});
+
+test('listLinked finds the records linking to any of the ids', async () => {
+  await createRecords('Sets', [
+    { fields: { Match: ['m1'], No: 1 } },
+    { fields: { Match: ['m2'], No: 1 } },
+    { fields: { Match: ['m1'], No: 2 } },
+    { fields: { No: 1 } },
+  ]);
+  const of = async ids =>
+    (await listLinked('Sets', 'Match', ids)).map(
+      r => `${r.fields.Match}:${r.fields.No}`
+    );
+  assert.deepEqual(await of('m1'), ['m1:1', 'm1:2']);
+  assert.deepEqual(await of(['m2', 'm1']), ['m1:1', 'm2:1', 'm1:2']);
+  assert.deepEqual(await of([]), []);
+});
+
+test('an unknown backend is refused', () => {
+  process.env.STORAGE_BACKEND = 'postgres';
+  try {
+    assert.throws(() => listAll('Players'), {
+      status: 500,
+      message: 'Unknown STORAGE_BACKEND: postgres',
+    });
+  } finally {
+    process.env.STORAGE_BACKEND = 'sqlite';
+  }
+});
@@ -0,0 +1,151 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { seedLeague } from './helpers.js';
+import { cfg } from '../config.js';
+import { createRecords, listAll, updateRecords } from '../storage/index.js';
+import {
+  bracketOrder,
+  createTournament,
+  registerPairs,
+  seedBracket,
+  startTournament,
+  syncTournament,
+  tournamentView,
+} from '../tournaments.js';
+
+const c = cfg();
+const league = await seedLeague(
+  [
+    [0, 1],
+    [2, 3],
+    [4, 5],
+    [0, 2],
+  ],
+  6
+);
+const [p12, p34, p56, p13] = league.pairs;
+// Seeds by Pair Rating: p34, p56, p12
+await updateRecords(c.T_PAIRS, [
+  { id: p12.id, fields: { [c.PR_RATING]: 1000 } },
+  { id: p34.id, fields: { [c.PR_RATING]: 1200 } },
+  { id: p56.id, fields: { [c.PR_RATING]: 1100 } },
+]);
+
+async function tournamentMatches(tournamentId) {
+  return (await tournamentView(tournamentId)).matches;
+}
+
+// Confirms a tournament match with `sets` from pair 1's side.
+async function play(matchId, sets) {
+  await createRecords(
+    c.T_SETSCORES,
+    sets.map(([p1, p2], i) => ({
+      fields: {
+        [c.S_MATCH]: [matchId],
+        [c.S_SET_NO]: i + 1,
+        [c.S_P1]: p1,
+        [c.S_P2]: p2,
+      },
+    }))
+  );
+  await updateRecords(c.T_MATCHES, [
+    { id: matchId, fields: { [c.M_STATUS]: c.STATUS_CONFIRMED } },
+  ]);
+}
+
+const win = [
+  [6, 2],
+  [6, 2],
+];
+const loss = [
+  [2, 6],
+  [2, 6],
+];
+
+test('brackets put the top seeds apart and give them the byes', () => {
+  assert.deepEqual(bracketOrder(8), [0, 7, 3, 4, 1, 6, 2, 5]);
+  assert.deepEqual(seedBracket(['a', 'b', 'c']), ['a', null, 'b', 'c']);
+  assert.deepEqual(seedBracket(['a', 'b', 'c', 'd', 'e']), [
+    'a',
+    null,
+    'd',
+    'e',
+    'b',
+    null,
+    'c',
+    null,
+  ]);
+});
+
+test('a player cannot be registered in two pairs', async () => {
+  const t = await createTournament({ name: 'Cup' });
+  await assert.rejects(registerPairs(t.id, [p12.id, p13.id]), {
+    status: 400,
+    message: 'A player cannot play in two pairs',
+  });
+  await assert.rejects(startTournament(t.id), {
+    message: 'At least 2 pairs are required',
+  });
+});
+
+test('a knockout advances round by round to a winner', async () => {
+  const t = await createTournament({ name: 'Knockout', date: '2026-05-01' });
+  await registerPairs(t.id, [p12.id, p34.id, p56.id]);
+  const started = await startTournament(t.id);
+  assert.equal(started.status, 'IN_PROGRESS');
+  assert.deepEqual(started.seeds, [p34.id, null, p56.id, p12.id]);
+
+  // Top seed has a bye; the semi-final is played
+  let matches = await tournamentMatches(t.id);
+  assert.deepEqual(
+    matches.map(m => [m.round, m.pair1, m.pair2, m.status]),
+    [[1, p56.id, p12.id, 'SCHEDULED']]
+  );
+  await play(matches[0].id, loss);
+  assert.equal((await syncTournament(t.id)).status, 'IN_PROGRESS');
+
+  matches = await tournamentMatches(t.id);
+  const final = matches.find(m => m.round === 2);
+  assert.deepEqual([final.pair1, final.pair2], [p34.id, p12.id]);
+  // Syncing again creates nothing new
+  await syncTournament(t.id);
+  assert.equal((await tournamentMatches(t.id)).length, 2);
+
+  await play(final.id, loss);
+  const done = await syncTournament(t.id);
+  assert.equal(done.status, 'FINISHED');
+  assert.equal(done.winner, p12.id);
+});
+
+test('a round robin is won at the top of the table', async () => {
+  const t = await createTournament({
+    name: 'League night',
+    format: 'ROUND_ROBIN',
+  });
+  await registerPairs(t.id, [p12.id, p34.id, p56.id]);
+  await startTournament(t.id);
+
+  const matches = await tournamentMatches(t.id);
+  assert.equal(matches.length, 3);
+  // p56 wins both of its matches, p34 beats p12
+  for (const m of matches) {
+    const pair1Wins =
+      m.pair1 === p56.id || (m.pair1 === p34.id && m.pair2 === p12.id);
+    await play(m.id, pair1Wins ? win : loss);
+  }
+
+  const done = await syncTournament(t.id);
+  assert.equal(done.status, 'FINISHED');
+  assert.equal(done.winner, p56.id);
+
+  const [table] = (await tournamentView(t.id)).groups;
+  assert.deepEqual(
+    table.rows.map(r => [r.pairId, r.wins, r.losses]),
+    [
+      [p56.id, 2, 0],
+      [p34.id, 1, 1],
+      [p12.id, 0, 2],
+    ]
+  );
+  assert.equal((await listAll(c.T_TOURNAMENTS)).length, 3);
+});
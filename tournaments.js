@@ -0,0 +1,464 @@
+import { cfg } from './config.js';
+import {
+  normalizeMatch,
+  normalizePair,
+  normalizePlayer,
+  normalizeSetScore,
+  normalizeTournament,
+} from './normalize.js';
+import {
+  listAll,
+  getRecord,
+  createRecords,
+  updateRecords,
+} from './storage/index.js';
+
+/**
+ * ---- Tournaments ----
+ * A tournament registers existing pairs and generates ordinary Match records
+ * (status SCHEDULED, tagged with Tournament/Stage/Group/Round/Slot), so results
+ * go through the normal report/confirm flow. After each confirmation
+ * syncTournament advances the bracket: it creates the next knockout match
+ * once both feeders have a winner, seeds the knockout from the group tables
+ * and finally records the winner. Every step is idempotent.
+ *
+ *   ROUND_ROBIN      one group, everybody plays everybody, table winner wins
+ *   KNOCKOUT         single elimination seeded by Pair Rating, byes for top seeds
+ *   GROUPS_KNOCKOUT  snake-seeded groups, top `advance` of each group go to a bracket
+ */
+const GROUP_NAMES = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+function tournamentError(status, message) {
+  const err = new Error(message);
+  err.status = status;
+  return err;
+}
+
+// Seed positions (0-based) in bracket order, e.g. size 8 -> 1v8, 4v5, 2v7, 3v6.
+export function bracketOrder(size) {
+  let order = [0];
+  while (order.length < size) {
+    const n = order.length * 2;
+    order = order.flatMap(s => [s, n - 1 - s]);
+  }
+  return order;
+}
+
+// First-round slots for pairs listed strongest first; missing seeds are byes (null).
+export function seedBracket(pairIds) {
+  let size = 2;
+  while (size < pairIds.length) size *= 2;
+  return bracketOrder(size).map(i => pairIds[i] || null);
+}
+
+// Snake seeding: A B C C B A A B C ...
+function snakeGroups(pairIds, groupCount) {
+  const groups = Array.from({ length: groupCount }, () => []);
+  pairIds.forEach((id, i) => {
+    const row = Math.floor(i / groupCount);
+    const col = i % groupCount;
+    groups[row % 2 === 0 ? col : groupCount - 1 - col].push(id);
+  });
+  return groups;
+}
+
+// Circle method: rounds of pairings where every pair meets every other once.
+function roundRobinRounds(pairIds) {
+  const ids = pairIds.length % 2 ? [...pairIds, null] : [...pairIds];
+  const rounds = [];
+  for (let r = 0; r < ids.length - 1; r++) {
+    const games = [];
+    for (let i = 0; i < ids.length / 2; i++) {
+      const a = ids[i];
+      const b = ids[ids.length - 1 - i];
+      if (a && b) games.push([a, b]);
+    }
+    rounds.push(games);
+    ids.splice(1, 0, ids.pop());
+  }
+  return rounds;
+}
+
+function setTotals(sets) {
+  return sets.reduce(
+    (acc, s) => {
+      if (s.p1 > s.p2) acc.sets1++;
+      else acc.sets2++;
+      acc.games1 += s.p1;
+      acc.games2 += s.p2;
+      return acc;
+    },
+    { sets1: 0, sets2: 0, games1: 0, games2: 0 }
+  );
+}
+
+// Winning pair id of a confirmed match, or null.
+function matchWinner(m, sets) {
+  const c = cfg();
+  if (m.status !== c.STATUS_CONFIRMED || !sets?.length) return null;
+  const t = setTotals(sets);
+  return t.sets1 > t.sets2 ? m.pair1 : m.pair2;
+}
+
+// A voided or declined match no longer holds its slot.
+function isLive(m) {
+  const c = cfg();
+  return m.status !== c.STATUS_VOIDED && m.status !== c.STATUS_DECLINED;
+}
+
+/**
+ * Group tables from the group-stage matches: W/L, sets and games per pair,
+ * ordered by wins, set difference, game difference, then Pair Rating.
+ */
+export function groupTables(matches, setsByMatch, pairsById) {
+  const c = cfg();
+  const groups = {};
+  for (const m of matches.filter(x => x.stage === 'GROUP' && isLive(x))) {
+    const table = (groups[m.group] ||= {});
+    for (const id of [m.pair1, m.pair2]) {
+      table[id] ||= {
+        pairId: id,
+        played: 0,
+        wins: 0,
+        losses: 0,
+        setsFor: 0,
+        setsAgainst: 0,
+        gamesFor: 0,
+        gamesAgainst: 0,
+      };
+    }
+    if (m.status !== c.STATUS_CONFIRMED) continue;
+
+    const t = setTotals(setsByMatch[m.id] || []);
+    const row1 = table[m.pair1];
+    const row2 = table[m.pair2];
+    const pair1Won = t.sets1 > t.sets2;
+    for (const [row, sf, sa, gf, ga, won] of [
+      [row1, t.sets1, t.sets2, t.games1, t.games2, pair1Won],
+      [row2, t.sets2, t.sets1, t.games2, t.games1, !pair1Won],
+    ]) {
+      row.played++;
+      if (won) row.wins++;
+      else row.losses++;
+      row.setsFor += sf;
+      row.setsAgainst += sa;
+      row.gamesFor += gf;
+      row.gamesAgainst += ga;
+    }
+  }
+
+  const rating = id => pairsById[id]?.rating ?? 0;
+  return Object.keys(groups)
+    .sort()
+    .map(name => ({
+      name,
+      rows: Object.values(groups[name]).sort(
+        (a, b) =>
+          b.wins - a.wins ||
+          b.setsFor - b.setsAgainst - (a.setsFor - a.setsAgainst) ||
+          b.gamesFor - b.gamesAgainst - (a.gamesFor - a.gamesAgainst) ||
+          rating(b.pairId) - rating(a.pairId)
+      ),
+    }));
+}
+
+/**
+ * Knockout rounds derived from the seeds and knockout matches. Each slot has
+ * pair1/pair2 (null while unknown, or a bye in round 1), its live match id
+ * and the winner once known.
+ */
+export function knockoutRounds(seeds, matches, setsByMatch) {
+  if (!seeds.length) return [];
+  const byKey = {};
+  for (const m of matches.filter(x => x.stage === 'KNOCKOUT' && isLive(x)))
+    byKey[`${m.round}:${m.slot}`] = m;
+
+  const rounds = [];
+  let entrants = seeds;
+  for (let round = 1; entrants.length > 1; round++) {
+    const slots = [];
+    for (let slot = 0; slot < entrants.length / 2; slot++) {
+      const pair1 = entrants[slot * 2];
+      const pair2 = entrants[slot * 2 + 1];
+      const m = byKey[`${round}:${slot}`] || null;
+      let winner = null;
+      if (round === 1 && pair1 && !pair2) winner = pair1;
+      else if (round === 1 && pair2 && !pair1) winner = pair2;
+      else if (m) winner = matchWinner(m, setsByMatch[m.id]);
+      slots.push({ round, slot, pair1, pair2, matchId: m?.id || null, winner });
+    }
+    rounds.push(slots);
+    entrants = slots.map(s => s.winner);
+  }
+  return rounds;
+}
+
+async function loadTournamentState(tournamentId) {
+  const c = cfg();
+  const t = normalizeTournament(await getRecord(c.T_TOURNAMENTS, tournamentId));
+  const [matchRecs, setRecs, pairRecs] = await Promise.all([
+    listAll(c.T_MATCHES),
+    listAll(c.T_SETSCORES),
+    listAll(c.T_PAIRS),
+  ]);
+  const matches = matchRecs
+    .map(normalizeMatch)
+    .filter(m => m.tournament === t.id);
+  const ids = new Set(matches.map(m => m.id));
+  const setsByMatch = {};
+  for (const r of setRecs) {
+    const s = normalizeSetScore(r);
+    if (ids.has(s.match)) (setsByMatch[s.match] ||= []).push(s);
+  }
+  const pairsById = Object.fromEntries(
+    pairRecs.map(r => [r.id, normalizePair(r)])
+  );
+  return { t, matches, setsByMatch, pairsById };
+}
+
+function tournamentMatch(t, fields) {
+  const c = cfg();
+  return {
+    fields: {
+      [c.M_TOURNAMENT]: [t.id],
+      [c.M_DATE]: t.date || new Date().toISOString().slice(0, 10),
+      [c.M_STATUS]: c.STATUS_SCHEDULED,
+      [c.M_UNRANKED]: !t.ranked,
+      ...fields,
+    },
+  };
+}
+
+function knockoutMatch(t, slot) {
+  const c = cfg();
+  return tournamentMatch(t, {
+    [c.M_STAGE]: 'KNOCKOUT',
+    [c.M_ROUND]: slot.round,
+    [c.M_SLOT]: slot.slot,
+    [c.M_PAIR1]: [slot.pair1],
+    [c.M_PAIR2]: [slot.pair2],
+  });
+}
+
+export async function listTournaments() {
+  const c = cfg();
+  const recs = await listAll(c.T_TOURNAMENTS, {
+    sort: [{ field: c.TO_DATE, direction: 'desc' }],
+  });
+  return recs.map(normalizeTournament);
+}
+
+export async function createTournament(body) {
+  const c = cfg();
+  const format = body.format || c.FORMAT_KNOCKOUT;
+  if (
+    ![
+      c.FORMAT_ROUND_ROBIN,
+      c.FORMAT_KNOCKOUT,
+      c.FORMAT_GROUPS_KNOCKOUT,
+    ].includes(format)
+  )
+    throw tournamentError(400, `Unknown format: ${format}`);
+  if (!body.name) throw tournamentError(400, 'name is required');
+  if (body.date && !/^\d{4}-\d{2}-\d{2}$/.test(body.date))
+    throw tournamentError(400, 'date must be YYYY-MM-DD');
+
+  const groups =
+    format === c.FORMAT_GROUPS_KNOCKOUT ? Number(body.groups || 2) : 1;
+  const advance = Number(body.advance || 2);
+  if (!Number.isInteger(groups) || groups < 1 || groups > GROUP_NAMES.length)
+    throw tournamentError(400, 'groups must be between 1 and 26');
+  if (!Number.isInteger(advance) || advance < 1)
+    throw tournamentError(400, 'advance must be a positive integer');
+
+  const created = await createRecords(c.T_TOURNAMENTS, [
+    {
+      fields: {
+        [c.TO_NAME]: body.name,
+        [c.TO_DATE]: body.date || new Date().toISOString().slice(0, 10),
+        [c.TO_FORMAT]: format,
+        [c.TO_STATUS]: c.TOURNAMENT_REGISTRATION,
+        [c.TO_PAIRS]: [],
+        [c.TO_GROUPS]: groups,
+        [c.TO_ADVANCE]: advance,
+        [c.TO_RANKED]: Boolean(body.ranked),
+      },
+    },
+  ]);
+  return normalizeTournament(created.records[0]);
+}
+
+// Replaces the registered pairs while the tournament is still open.
+export async function registerPairs(tournamentId, pairIds) {
+  const c = cfg();
+  const t = normalizeTournament(await getRecord(c.T_TOURNAMENTS, tournamentId));
+  if (t.status !== c.TOURNAMENT_REGISTRATION)
+    throw tournamentError(409, 'Registration is closed');
+
+  const ids = [...new Set((pairIds || []).filter(Boolean))];
+  const players = new Set();
+  for (const id of ids) {
+    const p = normalizePair(await getRecord(c.T_PAIRS, id));
+    for (const pl of [p.player1, p.player2]) {
+      if (!pl) throw tournamentError(400, 'Pairs must have exactly 2 players');
+      if (players.has(pl))
+        throw tournamentError(400, 'A player cannot play in two pairs');
+      players.add(pl);
+    }
+  }
+
+  const updated = await updateRecords(c.T_TOURNAMENTS, [
+    { id: t.id, fields: { [c.TO_PAIRS]: ids } },
+  ]);
+  return normalizeTournament(updated.records[0]);
+}
+
+/**
+ * Closes registration and generates the first matches: every group pairing
+ * for ROUND_ROBIN / GROUPS_KNOCKOUT, the first bracket round for KNOCKOUT.
+ * Pairs are seeded by Pair Rating.
+ */
+export async function startTournament(tournamentId) {
+  const c = cfg();
+  const { t, pairsById } = await loadTournamentState(tournamentId);
+  if (t.status !== c.TOURNAMENT_REGISTRATION)
+    throw tournamentError(409, `Tournament is ${t.status}`);
+
+  const seeded = [...t.pairs].sort(
+    (a, b) => (pairsById[b]?.rating ?? 0) - (pairsById[a]?.rating ?? 0)
+  );
+  const minPairs = t.format === c.FORMAT_KNOCKOUT ? 2 : t.groups * 2;
+  if (seeded.length < minPairs)
+    throw tournamentError(400, `At least ${minPairs} pairs are required`);
+
+  const creates = [];
+  const fields = { [c.TO_STATUS]: c.TOURNAMENT_IN_PROGRESS };
+
+  if (t.format === c.FORMAT_KNOCKOUT) {
+    const seeds = seedBracket(seeded);
+    fields[c.TO_SEEDS] = JSON.stringify(seeds);
+    for (const slot of knockoutRounds(seeds, [], {})[0]) {
+      if (slot.pair1 && slot.pair2) creates.push(knockoutMatch(t, slot));
+    }
+  } else {
+    snakeGroups(seeded, t.groups).forEach((ids, g) => {
+      roundRobinRounds(ids).forEach((games, r) => {
+        for (const [a, b] of games) {
+          creates.push(
+            tournamentMatch(t, {
+              [c.M_STAGE]: 'GROUP',
+              [c.M_GROUP]: GROUP_NAMES[g],
+              [c.M_ROUND]: r + 1,
+              [c.M_PAIR1]: [a],
+              [c.M_PAIR2]: [b],
+            })
+          );
+        }
+      });
+    });
+  }
+
+  await createRecords(c.T_MATCHES, creates);
+  await updateRecords(c.T_TOURNAMENTS, [{ id: t.id, fields }]);
+
+  return syncTournament(t.id);
+}
+
+/**
+ * Advances an IN_PROGRESS tournament as far as the confirmed results allow.
+ * Safe to call any number of times; returns the tournament.
+ */
+export async function syncTournament(tournamentId) {
+  const c = cfg();
+  const { t, matches, setsByMatch, pairsById } =
+    await loadTournamentState(tournamentId);
+  if (t.status !== c.TOURNAMENT_IN_PROGRESS) return t;
+
+  const finish = async winner => {
+    const updated = await updateRecords(c.T_TOURNAMENTS, [
+      {
+        id: t.id,
+        fields: {
+          [c.TO_STATUS]: c.TOURNAMENT_FINISHED,
+          [c.TO_WINNER]: [winner],
+        },
+      },
+    ]);
+    return normalizeTournament(updated.records[0]);
+  };
+
+  let seeds = t.seeds;
+  if (t.format !== c.FORMAT_KNOCKOUT && !seeds.length) {
+    const groupStage = matches.filter(m => m.stage === 'GROUP' && isLive(m));
+    if (groupStage.some(m => m.status !== c.STATUS_CONFIRMED)) return t;
+
+    const tables = groupTables(matches, setsByMatch, pairsById);
+    if (t.format === c.FORMAT_ROUND_ROBIN)
+      return finish(tables[0]?.rows[0]?.pairId);
+
+    // Group winners first, then runners-up, ... so winners get the top seeds.
+    const advancers = [];
+    for (let place = 0; place < t.advance; place++) {
+      for (const table of tables) {
+        if (table.rows[place]) advancers.push(table.rows[place].pairId);
+      }
+    }
+    seeds = seedBracket(advancers);
+    await updateRecords(c.T_TOURNAMENTS, [
+      { id: t.id, fields: { [c.TO_SEEDS]: JSON.stringify(seeds) } },
+    ]);
+  }
+
+  const rounds = knockoutRounds(seeds, matches, setsByMatch);
+  const creates = rounds
+    .flat()
+    .filter(s => s.pair1 && s.pair2 && !s.matchId)
+    .map(s => knockoutMatch(t, s));
+  await createRecords(c.T_MATCHES, creates);
+
+  const champion = rounds[rounds.length - 1]?.[0]?.winner;
+  if (champion) return finish(champion);
+  return { ...t, seeds };
+}
+
+/**
+ * Everything the bracket / group-table view needs: the tournament, group
+ * tables, knockout rounds, the tournament's matches and display names.
+ */
+export async function tournamentView(tournamentId) {
+  const c = cfg();
+  const { t, matches, setsByMatch, pairsById } =
+    await loadTournamentState(tournamentId);
+  const playerRecs = await listAll(c.T_PLAYERS);
+  const playersById = Object.fromEntries(
+    playerRecs.map(r => [r.id, normalizePlayer(r)])
+  );
+
+  const names = {};
+  for (const id of t.pairs) {
+    const p = pairsById[id];
+    names[id] = p
+      ? [p.player1, p.player2]
+          .map(pl => playersById[pl]?.name || '—')
+          .join(' + ')
+      : '—';
+  }
+
+  return {
+    tournament: t,
+    pairNames: names,
+    groups: groupTables(matches, setsByMatch, pairsById),
+    rounds: knockoutRounds(t.seeds, matches, setsByMatch),
+    matches: matches.map(m => ({
+      id: m.id,
+      stage: m.stage,
+      group: m.group,
+      round: m.round,
+      slot: m.slot,
+      pair1: m.pair1,
+      pair2: m.pair2,
+      status: m.status,
+      score: m.score,
+    })),
+  };
+}
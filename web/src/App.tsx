@@ -1,55 +1,42 @@
-import { useEffect, useMemo, useState } from "react";
-
-type Player = {
-  id: string;
-  name: string;
-  telegramId: number | null;
-  telegramUsername: string;
-  rating: number;
-  gamesPlayed: number;
-  wins: number;
-  losses: number;
-};
-
-type Pair = {
-  id: string;
-  player1: string | null;
-  player2: string | null;
-  rating: number;
-  gamesPlayed: number;
-  wins: number;
-  losses: number;
-  player1Obj?: Player | null;
-  player2Obj?: Player | null;
-};
-
-type SetScore = {
-  id: string;
-  match: string | null;
-  setNo: number;
-  p1: number;
-  p2: number;
-  winnerPair: string | null;
-};
-
-type Match = {
-  id: string;
-  date: any;
-  time: string;
-  status: string;
-  pair1: string | null;
-  pair2: string | null;
-  initiatedBy: string | null;
-  confirmedBy: string[];
-  score: string;
-  disputeReason: string;
-
-  pair1Obj?: Pair | null;
-  pair2Obj?: Pair | null;
-  setScores?: SetScore[];
-
-  opponentPlayerIds?: string[];
-};
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  DEFAULT_MATCH_FORMAT,
+  MATCH_FORMATS,
+  matchFormat,
+  setsRequired,
+  superTiebreakIndex,
+  validateMatchScore,
+  validateSetScore,
+  type MatchFormat,
+} from "../../shared/match-formats.js";
+import type {
+  ApiPath,
+  ApiRequest,
+  ApiResponse,
+  DuplicateReport,
+  ErrorResponse,
+  Invite,
+  Match,
+  Pair,
+  Player,
+  PairProfile,
+  PlayerProfile,
+  RatingChange,
+  Season,
+  SessionView,
+  Session,
+  Standing,
+  Tournament,
+  TournamentView,
+} from "../../shared/api.js";
+
+type ApiResult<P extends ApiPath> = ({ ok: true } & ApiResponse<P>) | ErrorResponse;
+type MatchFilter = "action" | "mine" | "all";
+type PairSort = NonNullable<ApiRequest<"/api/pairs">["sort"]>;
+type TournamentFormat = NonNullable<ApiRequest<"/api/admin/tournaments/create">["format"]>;
+type SessionMode = NonNullable<ApiRequest<"/api/sessions/create">["mode"]>;
+type TournamentAdminPath = "/api/admin/tournaments/create" | "/api/admin/tournaments/register" | "/api/admin/tournaments/start";
+type SessionActionPath = "/api/sessions/create" | "/api/sessions/score" | "/api/sessions/finish";
 
 type CreatePairFlow =
   | null
@@ -60,10 +47,33 @@ type CreatePairFlow =
       excludePlayerIds?: string[]; // e.g. my pair players when creating opp pair
     };
 
+// Pairs tab standings page; the rest are counted in "Top N of M"
+const PAIR_STANDINGS_LIMIT = 50;
+
 function getTg() {
   return (window as any).Telegram?.WebApp;
 }
 
+type PopupButton = { id: string; type?: "default" | "destructive" | "cancel"; text?: string };
+
+// Telegram's native popup (Bot API 6.2+), resolving to the id of the pressed
+// button or "" when dismissed. Outside Telegram each button but "cancel" is
+// offered in turn with window.confirm.
+function askPopup(message: string, buttons: PopupButton[]): Promise<string> {
+  const tg = getTg();
+  if (tg?.isVersionAtLeast?.("6.2")) {
+    return new Promise((resolve) => tg.showPopup({ message, buttons }, (id?: string) => resolve(id || "")));
+  }
+  for (const b of buttons) {
+    if (b.type !== "cancel" && window.confirm(`${message}\n\n${b.text}?`)) return Promise.resolve(b.id);
+  }
+  return Promise.resolve("");
+}
+
+async function askConfirm(message: string, okText: string, type: PopupButton["type"] = "default") {
+  return (await askPopup(message, [{ id: "ok", type, text: okText }, { id: "cancel", type: "cancel" }])) === "ok";
+}
+
 async function fetchJsonWithTimeout(url: string, options: RequestInit, timeoutMs = 20000) {
   const controller = new AbortController();
   const t = setTimeout(() => controller.abort(), timeoutMs);
@@ -86,20 +96,40 @@ async function fetchJsonWithTimeout(url: string, options: RequestInit, timeoutMs
   }
 }
 
-// Padel set validation: 6-0..6-4, 7-5, 7-6
-function validateSet(p1raw: string, p2raw: string, idx: number): string | null {
-  const p1 = Number(p1raw);
-  const p2 = Number(p2raw);
-  if (!Number.isFinite(p1) || !Number.isFinite(p2)) return `Set ${idx}: enter numbers`;
-  if (p1 < 0 || p2 < 0) return `Set ${idx}: negative not allowed`;
-  if (p1 === p2) return `Set ${idx}: cannot be draw`;
+// Sets the report form shows for the format (up to the deciding one) and the first error among them
+function reportedSets(format: MatchFormat, inputs: [string, string][]) {
+  const sets: { p1: number; p2: number }[] = [];
+  for (const [a, b] of inputs.slice(0, format.sets)) {
+    const set = { p1: Number(a), p2: Number(b) };
+    const error = validateSetScore(format, sets.length, set.p1, set.p2);
+    sets.push(set);
+    if (error) return { sets, error };
+    if (setsRequired(format, sets) === sets.length) break;
+  }
+  return { sets, error: null };
+}
 
-  const w = Math.max(p1, p2);
-  const l = Math.min(p1, p2);
+// "6-4 3-6 [10-8]" -> [{p1: 6, p2: 4}, ...]
+function parseScoreText(text: string) {
+  return text
+    .trim()
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map((part) => {
+      const [a, b] = part.replace(/[[\]]/g, "").split(/[-:]/);
+      return { p1: Number(a), p2: Number(b) };
+    });
+}
 
-  const ok = (w === 6 && l <= 4) || (w === 7 && (l === 5 || l === 6));
-  if (!ok) return `Set ${idx}: allowed 6-0..6-4, 7-5, 7-6`;
-  return null;
+// "2d 5h" / "3h 12m" / "8m" until the given time
+function formatCountdown(ms: number) {
+  const mins = Math.max(0, Math.ceil(ms / 60000));
+  const d = Math.floor(mins / 1440);
+  const h = Math.floor((mins % 1440) / 60);
+  const m = mins % 60;
+  if (d > 0) return `${d}d ${h}h`;
+  if (h > 0) return `${h}h ${m}m`;
+  return `${m}m`;
 }
 
 function pairPlayers(p: Pair | null | undefined) {
@@ -109,25 +139,28 @@ function intersects(a: string[], b: string[]) {
   const s = new Set(a);
   return b.some((x) => s.has(x));
 }
-function setsSplitAfter2(s1a: number, s1b: number, s2a: number, s2b: number) {
-  const w1 = s1a > s1b ? 1 : 2;
-  const w2 = s2a > s2b ? 1 : 2;
-  return w1 !== w2;
-}
 
 export default function App() {
   const tg = useMemo(() => getTg(), []);
   const [screen, setScreen] = useState<"loading" | "join" | "app" | "error">("loading");
-  const [tab, setTab] = useState<"league" | "matches" | "pairs">("league");
+  const [tab, setTab] = useState<"league" | "matches" | "pairs" | "tournaments" | "profile" | "pair">("league");
 
   const [status, setStatus] = useState("Loading…");
   const [busy, setBusy] = useState(false);
 
   const [mePlayer, setMePlayer] = useState<Player | null>(null);
+  const [isAdmin, setIsAdmin] = useState(false);
 
   const [players, setPlayers] = useState<Player[]>([]);
   const [pairs, setPairs] = useState<Pair[]>([]);
-  const [matches, setMatches] = useState<Match[]>([]);
+  const [matches, setMatches] = useState<Match[]>([]); // played, newest first, paged
+  const [upcomingMatches, setUpcomingMatches] = useState<Match[]>([]);
+  const [matchFilter, setMatchFilter] = useState<MatchFilter>("all");
+  const [matchesCursor, setMatchesCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const feedEndRef = useRef<HTMLDivElement | null>(null);
+  const feedVersion = useRef(0); // bumped on reload so late pages of an old filter are dropped
+  const reportKey = useRef(""); // idempotency key of the result being saved, kept across retries
 
   // Report match (now: ONLY selection + sets)
   const [myPairId, setMyPairId] = useState<string>("");
@@ -140,16 +173,69 @@ export default function App() {
   const [s2b, setS2b] = useState<string>("6");
   const [s3a, setS3a] = useState<string>("7");
   const [s3b, setS3b] = useState<string>("5");
+  const [formatId, setFormatId] = useState<string>(DEFAULT_MATCH_FORMAT);
+  const [ranked, setRanked] = useState<boolean>(true);
+
+  // Challenge / counter-proposal: date, time, court
+  const [chDate, setChDate] = useState<string>("");
+  const [chTime, setChTime] = useState<string>("");
+  const [chCourt, setChCourt] = useState<string>("");
+  // Scheduled match whose result the report form is filling in
+  const [scheduledMatchId, setScheduledMatchId] = useState<string>("");
 
   // dispute reason (kept minimal)
   const [reason, setReason] = useState<string>("");
 
+  // Pairs tab standings (the report dropdowns use all `pairs`)
+  const [pairStandings, setPairStandings] = useState<Pair[]>([]);
+  const [pairTotal, setPairTotal] = useState<number>(0);
+  const [pairMinGames, setPairMinGames] = useState<number>(0);
+  const [pairSort, setPairSort] = useState<PairSort>("rating");
+
+  // Admin dispute queue
+  const [adminQueue, setAdminQueue] = useState<Match[]>([]);
+  const [adminScore, setAdminScore] = useState<Record<string, string>>({});
+  const [adminNote, setAdminNote] = useState<string>("");
+
+  // Player profile (leaderboard row or a name in Matches), pair page (Pairs
+  // standings) + their rating timeline
+  const [profile, setProfile] = useState<PlayerProfile | null>(null);
+  const [pairPage, setPairPage] = useState<PairProfile | null>(null);
+  const [profileBack, setProfileBack] = useState<typeof tab>("league");
+  const [ratingHistory, setRatingHistory] = useState<RatingChange[]>([]);
+
+  // Seasons: picked past season ("" = current) and its archived table
+  const [seasons, setSeasons] = useState<Season[]>([]);
+  const [seasonId, setSeasonId] = useState<string>("");
+  const [seasonTable, setSeasonTable] = useState<Standing[]>([]);
+  const [newSeasonName, setNewSeasonName] = useState<string>("");
+  const [newSeasonStart, setNewSeasonStart] = useState<string>("");
+  const [newSeasonEnd, setNewSeasonEnd] = useState<string>("");
+  const [softResetPct, setSoftResetPct] = useState<string>("50");
+
+  // Tournaments: list, opened tournament, organizer forms
+  const [tournaments, setTournaments] = useState<Tournament[]>([]);
+  const [tview, setTview] = useState<TournamentView | null>(null);
+  const [regPairIds, setRegPairIds] = useState<string[]>([]);
+  const [newCup, setNewCup] = useState({ name: "", date: "", format: "KNOCKOUT" as TournamentFormat, groups: "2", advance: "2", ranked: true });
+
+  // Americano / Mexicano sessions: list, opened session, score inputs per game
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [sview, setSview] = useState<SessionView | null>(null);
+  const [newSession, setNewSession] = useState({ name: "", mode: "AMERICANO" as SessionMode, rounds: "", pointsPerGame: "24", rated: false });
+  const [sessionPlayerIds, setSessionPlayerIds] = useState<string[]>([]);
+  const [gamePoints, setGamePoints] = useState<Record<string, { p1: string; p2: string }>>({});
+
+  // Ticks every minute so auto-confirm countdowns stay current
+  const [now, setNow] = useState<number>(() => Date.now());
+
   // Create pair flow (button from Matches redirects here)
   const [createFlow, setCreateFlow] = useState<CreatePairFlow>(null);
   const [createA, setCreateA] = useState<string>("");
   const [createB, setCreateB] = useState<string>("");
 
-  async function apiPost(path: string, body: any = {}) {
+  // Typed client for the shared API contract (shared/api.js)
+  async function api<P extends ApiPath>(path: P, body: ApiRequest<P>): Promise<ApiResult<P>> {
     const initData = tg?.initData;
     return await fetchJsonWithTimeout(
       path,
@@ -163,19 +249,233 @@ export default function App() {
   }
 
   async function loadPlayers() {
-    const json = await apiPost("/api/players");
+    const json = await api("/api/players", {});
     if (!json.ok) throw new Error(json.error);
     setPlayers(json.players || []);
   }
   async function loadPairs() {
-    const json = await apiPost("/api/pairs");
+    const json = await api("/api/pairs", {});
     if (!json.ok) throw new Error(json.error);
     setPairs(json.pairs || []);
+    await loadPairStandings(pairMinGames, pairSort);
+  }
+
+  async function loadPairStandings(minGames: number, sort: PairSort) {
+    const json = await api("/api/pairs", { minGames, sort, limit: PAIR_STANDINGS_LIMIT });
+    if (!json.ok) throw new Error(json.error);
+    setPairStandings(json.pairs || []);
+    setPairTotal(json.total);
+  }
+
+  async function changePairStandings(minGames: number, sort: PairSort) {
+    setPairMinGames(minGames);
+    setPairSort(sort);
+    setBusy(true);
+    setStatus("Loading pairs…");
+    try {
+      await loadPairStandings(minGames, sort);
+      setStatus("OK");
+    } catch (e: unknown) {
+      setStatus(`Loading pairs failed: ${e instanceof Error ? e.message : "failed"}`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  // Matches tab filter -> /api/matches filters
+  function matchQuery(filter: MatchFilter): ApiRequest<"/api/matches"> {
+    if (filter === "action") return { needsAction: true };
+    if (filter === "mine" && mePlayer?.id) return { playerId: mePlayer.id };
+    return {};
+  }
+
+  async function loadMatches(filter: MatchFilter = matchFilter) {
+    const query = matchQuery(filter);
+    const upcoming = await api("/api/matches", { ...query, status: "upcoming", limit: 100 });
+    if (!upcoming.ok) throw new Error(upcoming.error);
+    const json = await api("/api/matches", { ...query, status: "played" });
+    if (!json.ok) throw new Error(json.error);
+    feedVersion.current++;
+    // Challenges not played yet, soonest first
+    setUpcomingMatches(upcoming.matches.sort((a, b) => `${a.date} ${a.time}`.localeCompare(`${b.date} ${b.time}`)));
+    setMatches(json.matches);
+    setMatchesCursor(json.nextCursor);
   }
-  async function loadMatches() {
-    const json = await apiPost("/api/matches");
+
+  async function loadMoreMatches() {
+    if (!matchesCursor || loadingMore) return;
+    const version = feedVersion.current;
+    setLoadingMore(true);
+    try {
+      const json = await api("/api/matches", { ...matchQuery(matchFilter), status: "played", cursor: matchesCursor });
+      if (version !== feedVersion.current) return;
+      if (!json.ok) {
+        setStatus(`Loading matches failed: ${json.error}`);
+        return;
+      }
+      setMatches((prev) => [...prev, ...json.matches]);
+      setMatchesCursor(json.nextCursor);
+    } finally {
+      setLoadingMore(false);
+    }
+  }
+
+  async function changeMatchFilter(filter: MatchFilter) {
+    setMatchFilter(filter);
+    setBusy(true);
+    setStatus("Loading matches…");
+    try {
+      await loadMatches(filter);
+      setStatus("OK");
+    } catch (e: unknown) {
+      setStatus(`Loading matches failed: ${e instanceof Error ? e.message : "failed"}`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function loadSeasons() {
+    const json = await api("/api/seasons", {});
     if (!json.ok) throw new Error(json.error);
-    setMatches(json.matches || []);
+    setSeasons(json.seasons || []);
+  }
+
+  async function pickSeason(id: string) {
+    setSeasonId(id);
+    setSeasonTable([]);
+    if (!id) return;
+    const json = await api("/api/seasons/standings", { seasonId: id });
+    if (!json.ok) {
+      setStatus(`Season failed: ${json.error}`);
+      return;
+    }
+    setSeasonTable(json.players || []);
+  }
+
+  async function loadTournaments() {
+    const json = await api("/api/tournaments", {});
+    if (!json.ok) throw new Error(json.error);
+    setTournaments(json.tournaments || []);
+  }
+
+  async function openTournament(id: string) {
+    if (!id) {
+      setTview(null);
+      return;
+    }
+    const json = await api("/api/tournaments/view", { tournamentId: id });
+    if (!json.ok) {
+      setStatus(`Tournament failed: ${json.error}`);
+      return;
+    }
+    setTview(json);
+    setRegPairIds(json.tournament.pairs || []);
+  }
+
+  // Organizer actions share one busy/status wrapper
+  async function tournamentAdmin<P extends TournamentAdminPath>(path: P, body: ApiRequest<P>, done: string) {
+    setBusy(true);
+    setStatus("Saving…");
+    try {
+      const json: ApiResult<TournamentAdminPath> = await api(path, body);
+      if (!json.ok) {
+        setStatus(`Tournament failed: ${json.error}`);
+        return;
+      }
+      setStatus(done);
+      await loadTournaments();
+      await openTournament(json.tournament?.id || "");
+      if (path.endsWith("/start")) await loadMatches();
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function loadSessions() {
+    const json = await api("/api/sessions", {});
+    if (!json.ok) throw new Error(json.error);
+    setSessions(json.sessions || []);
+  }
+
+  function showSession(json: SessionView) {
+    setSview(json);
+    const draft: Record<string, { p1: string; p2: string }> = {};
+    for (const g of json.games) draft[g.id] = { p1: g.points1 == null ? "" : String(g.points1), p2: g.points2 == null ? "" : String(g.points2) };
+    setGamePoints(draft);
+  }
+
+  async function openSession(id: string) {
+    if (!id) {
+      setSview(null);
+      return;
+    }
+    const json = await api("/api/sessions/view", { sessionId: id });
+    if (!json.ok) {
+      setStatus(`Session failed: ${json.error}`);
+      return;
+    }
+    showSession(json);
+  }
+
+  // Create / score / finish all answer with the updated session
+  async function sessionAction<P extends SessionActionPath>(path: P, body: ApiRequest<P>, done: string) {
+    setBusy(true);
+    setStatus("Saving…");
+    try {
+      const json = (await api(path, body)) as ApiResult<SessionActionPath>;
+      if (!json.ok) {
+        setStatus(`Session failed: ${json.error}`);
+        return;
+      }
+      if ("ratings" in json) {
+        const moved = (json.ratings || []).length;
+        setStatus(moved ? `${done} ${moved} rating(s) updated.` : done);
+        await loadPlayers();
+        await openSession(json.session.id);
+      } else {
+        setStatus(done);
+        showSession(json);
+      }
+      if (!path.endsWith("/score")) await loadSessions();
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function loadAdminQueue() {
+    const json = await api("/api/admin/disputes", {});
+    if (!json.ok) throw new Error(json.error);
+    setAdminQueue(json.matches || []);
+  }
+
+  async function openProfile(playerId: string) {
+    if (tab !== "profile" && tab !== "pair") setProfileBack(tab);
+    setTab("profile");
+    setProfile(null);
+    setRatingHistory([]);
+    window.scrollTo(0, 0);
+    const [json, history] = await Promise.all([api("/api/players/profile", { playerId }), api("/api/ratings/history", { playerId })]);
+    if (!json.ok) {
+      setStatus(`Profile failed: ${json.error}`);
+      return;
+    }
+    setProfile(json);
+    setRatingHistory(history.ok ? history.history || [] : []);
+  }
+
+  async function openPair(pairId: string) {
+    if (tab !== "profile" && tab !== "pair") setProfileBack(tab);
+    setTab("pair");
+    setPairPage(null);
+    setRatingHistory([]);
+    window.scrollTo(0, 0);
+    const [json, history] = await Promise.all([api("/api/pairs/profile", { pairId }), api("/api/ratings/history", { pairId })]);
+    if (!json.ok) {
+      setStatus(`Pair failed: ${json.error}`);
+      return;
+    }
+    setPairPage(json);
+    setRatingHistory(history.ok ? history.history || [] : []);
   }
 
   async function refreshAll() {
@@ -186,6 +486,10 @@ export default function App() {
       await loadPlayers();
       await loadPairs();
       await loadMatches();
+      await loadSeasons();
+      await loadTournaments();
+      await loadSessions();
+      if (isAdmin) await loadAdminQueue();
       setStatus("OK");
     } catch (e: any) {
       setStatus(`Error: ${e?.message || "failed"}`);
@@ -214,7 +518,7 @@ export default function App() {
     setBusy(true);
     setStatus("Checking…");
     try {
-      const json = await apiPost("/api/me");
+      const json = await api("/api/me", {});
       if (!json.ok) {
         setStatus(`Error: ${json.error}`);
         setScreen("error");
@@ -222,16 +526,24 @@ export default function App() {
       }
 
       if (!json.joined) {
+        // Opened from a friend's invite link: join straight away
+        if (json.invite && !json.invite.expired) {
+          await joinLeague();
+          return;
+        }
         setScreen("join");
-        setStatus("Not joined");
+        setStatus(json.invite ? `${json.invite.inviterName}'s invite has expired. You can still join.` : "Not joined");
         return;
       }
 
       setMePlayer(json.player || null);
+      setIsAdmin(Boolean(json.isAdmin));
       setScreen("app");
       setTab("league");
       setStatus("OK");
       await refreshAll();
+      if (json.isAdmin) await loadAdminQueue();
+      if (json.invite && json.player) await offerInvitePair(json.invite, json.player.id);
     } finally {
       setBusy(false);
     }
@@ -241,7 +553,7 @@ export default function App() {
     setBusy(true);
     setStatus("Joining…");
     try {
-      const json = await apiPost("/api/join");
+      const json = await api("/api/join", {});
       if (!json.ok) {
         setStatus(`Join failed: ${json.error}`);
         setScreen("error");
@@ -251,6 +563,48 @@ export default function App() {
       setScreen("app");
       setTab("league");
       await refreshAll();
+      if (json.invite) await offerInvitePair(json.invite, json.player.id);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  // After joining from an invite link: offer the pair with the inviter, once
+  // per invite and app session
+  async function offerInvitePair(invite: Invite, meId: string) {
+    if (invite.expired || invite.pairId) return;
+    const declinedKey = `invite-declined:${invite.inviterId}:${invite.issuedAt}`;
+    if (sessionStorage.getItem(declinedKey)) return;
+    if (!(await askConfirm(`${invite.inviterName} invited you. Create a pair with them?`, "Create pair"))) {
+      sessionStorage.setItem(declinedKey, "1");
+      return;
+    }
+    const json = await api("/api/pairs/create", { player1Id: invite.inviterId, player2Id: meId });
+    if (!json.ok) {
+      setStatus(`Create pair failed: ${json.error}`);
+      return;
+    }
+    await loadPairs();
+    setStatus(`You are paired with ${invite.inviterName}.`);
+  }
+
+  async function inviteFriend() {
+    setBusy(true);
+    setStatus("Creating invite link…");
+    try {
+      const json = await api("/api/invites/create", {});
+      if (!json.ok) {
+        setStatus(`Invite failed: ${json.error}`);
+        return;
+      }
+      const text = "Join our padel league and pair up with me";
+      if (tg?.openTelegramLink) {
+        tg.openTelegramLink(`https://t.me/share/url?url=${encodeURIComponent(json.link)}&text=${encodeURIComponent(text)}`);
+        setStatus("OK");
+      } else {
+        await navigator.clipboard?.writeText(json.link);
+        setStatus("Invite link copied.");
+      }
     } finally {
       setBusy(false);
     }
@@ -312,7 +666,7 @@ export default function App() {
     setBusy(true);
     setStatus("Creating pair…");
     try {
-      const json = await apiPost("/api/pairs/create", { player1Id: a, player2Id: b });
+      const json = await api("/api/pairs/create", { player1Id: a, player2Id: b });
       if (!json.ok) {
         setStatus(`Create pair failed: ${json.error}`);
         setScreen("error");
@@ -356,24 +710,58 @@ export default function App() {
       return;
     }
 
-    const sets = [
-      { p1: Number(s1a), p2: Number(s1b) },
-      { p1: Number(s2a), p2: Number(s2b) },
-    ];
-
-    const needThirdLocal = !s1err && !s2err && setsSplitAfter2(Number(s1a), Number(s1b), Number(s2a), Number(s2b));
-    if (needThirdLocal) sets.push({ p1: Number(s3a), p2: Number(s3b) });
+    const sets = report.sets;
+    if (!reportKey.current) reportKey.current = crypto.randomUUID();
 
     setBusy(true);
     setStatus("Saving…");
     try {
-      const json = await apiPost("/api/matches/report", { myPairId, oppPairId, sets });
+      const body: ApiRequest<"/api/matches/report"> = {
+        myPairId,
+        oppPairId,
+        sets,
+        format: formatId,
+        ranked,
+        matchId: scheduledMatchId || undefined,
+        idempotencyKey: reportKey.current,
+      };
+      let json = await api("/api/matches/report", body);
+      const duplicate = !json.ok ? (json.details as { duplicate?: DuplicateReport } | null)?.duplicate : undefined;
+      if (duplicate) {
+        const question = duplicate.canConfirm
+          ? duplicate.sameScore
+            ? `Your opponents already reported ${duplicate.score}. Confirm their report, or report yours as a separate match played the same day?`
+            : `Your opponents already reported ${duplicate.score}. If that is wrong, dispute it in Matches. Or report yours as a separate match played the same day?`
+          : `This match was already reported on ${duplicate.date} (${duplicate.score}). Use that report, or report yours as a separate match played the same day?`;
+        const choice = await askPopup(question, [
+          { id: "existing", text: duplicate.canConfirm ? (duplicate.sameScore ? "Confirm theirs" : "Go to Matches") : "Use that report" },
+          { id: "separate", text: "Separate match" },
+          { id: "cancel", type: "cancel" },
+        ]);
+        if (choice === "existing") {
+          if (duplicate.canConfirm && !duplicate.sameScore) {
+            reportKey.current = "";
+            setStatus("");
+            await loadMatches();
+            setTab("matches");
+            return;
+          }
+          json = await api("/api/matches/report", { ...body, duplicateAction: "link" });
+        } else if (choice === "separate") {
+          json = await api("/api/matches/report", { ...body, duplicateAction: "create" });
+        } else {
+          setStatus("Not saved.");
+          return;
+        }
+      }
       if (!json.ok) {
         setStatus(`Report failed: ${json.error}`);
         setScreen("error");
         return;
       }
-      setStatus("Saved (pending confirmation).");
+      reportKey.current = "";
+      setStatus(json.linked || json.replayed ? json.message : "Saved (pending confirmation).");
+      setScheduledMatchId("");
       await loadMatches();
       setTab("matches");
     } finally {
@@ -381,11 +769,75 @@ export default function App() {
     }
   }
 
+  async function challengePair() {
+    if (!chDate) {
+      setStatus("Pick a date for the match.");
+      return;
+    }
+    setBusy(true);
+    setStatus("Sending challenge…");
+    try {
+      const json = await api("/api/matches/challenge", {
+        myPairId,
+        oppPairId,
+        date: chDate,
+        time: chTime,
+        court: chCourt,
+        format: formatId,
+        ranked,
+      });
+      if (!json.ok) {
+        setStatus(`Challenge failed: ${json.error}`);
+        return;
+      }
+      setStatus(json.message || "OK");
+      await loadMatches();
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function respondMatch(matchId: string, action: "accept" | "decline" | "propose") {
+    if (action === "propose" && !chDate) {
+      setStatus("Pick a new date first.");
+      return;
+    }
+    setBusy(true);
+    setStatus("Saving…");
+    try {
+      const json = await api("/api/matches/respond", {
+        matchId,
+        action,
+        ...(action === "propose" ? { date: chDate, time: chTime, court: chCourt } : {}),
+      });
+      if (!json.ok) {
+        setStatus(`Failed: ${json.error}`);
+        return;
+      }
+      setStatus(json.status || "OK");
+      await loadMatches();
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  // Prefill the report form with a scheduled match (reporter's pair first)
+  function startReportScheduled(m: Match) {
+    const meId = mePlayer?.id || "";
+    const mineFirst = pairPlayers(m.pair1Obj).includes(meId);
+    setMyPairId((mineFirst ? m.pair1 : m.pair2) || "");
+    setOppPairId((mineFirst ? m.pair2 : m.pair1) || "");
+    setScheduledMatchId(m.id);
+    setFormatId(m.format || DEFAULT_MATCH_FORMAT);
+    setRanked(m.ranked);
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  }
+
   async function confirmMatch(matchId: string) {
     setBusy(true);
     setStatus("Confirming…");
     try {
-      const json = await apiPost("/api/matches/confirm", { matchId });
+      const json = await api("/api/matches/confirm", { matchId });
       if (!json.ok) {
         setStatus(`Confirm failed: ${json.error}`);
         setScreen("error");
@@ -402,7 +854,7 @@ export default function App() {
     setBusy(true);
     setStatus("Disputing…");
     try {
-      const json = await apiPost("/api/matches/dispute", { matchId, reason });
+      const json = await api("/api/matches/dispute", { matchId, reason });
       if (!json.ok) {
         setStatus(`Dispute failed: ${json.error}`);
         setScreen("error");
@@ -420,7 +872,7 @@ export default function App() {
     setBusy(true);
     setStatus("Rejecting…");
     try {
-      const json = await apiPost("/api/matches/reject", { matchId, reason });
+      const json = await api("/api/matches/reject", { matchId, reason });
       if (!json.ok) {
         setStatus(`Reject failed: ${json.error}`);
         setScreen("error");
@@ -434,11 +886,168 @@ export default function App() {
     }
   }
 
+  async function resolveMatch(matchId: string, action: "uphold" | "correct" | "void") {
+    const body: ApiRequest<"/api/admin/matches/resolve"> = {
+      matchId,
+      action,
+      note: adminNote,
+    };
+    if (action === "correct") {
+      const m = adminQueue.find((x) => x.id === matchId);
+      const sets = parseScoreText(adminScore[matchId] || "");
+      const err = validateMatchScore(matchFormat(m?.format) || matchFormat(), sets);
+      if (err) {
+        setStatus(sets.length ? err : "Enter corrected score, e.g. 6-4 3-6 7-5");
+        return;
+      }
+      body.sets = sets;
+    }
+
+    setBusy(true);
+    setStatus("Resolving…");
+    try {
+      const json = await api("/api/admin/matches/resolve", body);
+      if (!json.ok) {
+        setStatus(`Resolve failed: ${json.error}`);
+        return;
+      }
+      setAdminNote("");
+      setStatus(json.message || "OK");
+      await refreshAll();
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function createSeason() {
+    setBusy(true);
+    setStatus("Starting season…");
+    try {
+      const json = await api("/api/admin/seasons/create", {
+        name: newSeasonName.trim(),
+        startDate: newSeasonStart,
+        endDate: newSeasonEnd,
+      });
+      if (!json.ok) {
+        setStatus(`Season failed: ${json.error}`);
+        return;
+      }
+      setNewSeasonName("");
+      setStatus("Season started.");
+      await loadSeasons();
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function closeSeason(id: string) {
+    const softReset = Math.min(100, Math.max(0, Number(softResetPct) || 0)) / 100;
+    setBusy(true);
+    setStatus("Checking season close…");
+    try {
+      const preview = await api("/api/admin/seasons/close", { seasonId: id, softReset, dryRun: true });
+      if (!preview.ok) {
+        setStatus(`Close failed: ${preview.error}`);
+        return;
+      }
+      const champs = [preview.champions?.player, preview.champions?.pair].filter(Boolean).join(" / ") || "—";
+      if (
+        !(await askConfirm(
+          `Close ${preview.season}?\nChampions: ${champs}\n${preview.archived} standing row(s) archived, ` +
+            `ratings pulled ${Math.round(softReset * 100)}% toward default, W/L reset.`,
+          "Close season",
+          "destructive"
+        ))
+      ) {
+        setStatus("OK");
+        return;
+      }
+
+      const json = await api("/api/admin/seasons/close", { seasonId: id, softReset });
+      if (!json.ok) {
+        setStatus(`Close failed: ${json.error}`);
+        return;
+      }
+      setStatus("Season closed.");
+      await refreshAll();
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  // Picks up edits made directly in Airtable (the server keeps a read cache)
+  async function resyncCache() {
+    setBusy(true);
+    setStatus("Reloading data…");
+    try {
+      const json = await api("/api/admin/cache", { resync: true });
+      if (!json.ok) {
+        setStatus(`Reload failed: ${json.error}`);
+        return;
+      }
+      const records = json.cache.tables.reduce((sum, t) => sum + t.records, 0);
+      setStatus(`Reloaded ${records} record(s).`);
+      await refreshAll();
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function voidMatch(matchId: string) {
+    setBusy(true);
+    setStatus("Checking rating rollback…");
+    try {
+      const preview = await api("/api/admin/matches/void", { matchId, dryRun: true });
+      if (!preview.ok) {
+        setStatus(`Void failed: ${preview.error}`);
+        return;
+      }
+      const rb = preview.rollback;
+      const impact = rb
+        ? rb.needsRecompute
+          ? "No rating history for this match: ratings will NOT be rolled back."
+          : `${rb.players.length} player(s) and ${rb.pairs.length} pair(s) change, ${rb.replayedMatches.length} later match(es) replayed.`
+        : "No rating changes.";
+      if (!(await askConfirm(`Void this match?\n${impact}`, "Void match", "destructive"))) {
+        setStatus("OK");
+        return;
+      }
+
+      const json = await api("/api/admin/matches/void", { matchId, note: adminNote });
+      if (!json.ok) {
+        setStatus(`Void failed: ${json.error}`);
+        return;
+      }
+      setAdminNote("");
+      setStatus(json.message || "OK");
+      await refreshAll();
+    } finally {
+      setBusy(false);
+    }
+  }
+
   useEffect(() => {
     checkMe();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  useEffect(() => {
+    const t = setInterval(() => setNow(Date.now()), 60000);
+    return () => clearInterval(t);
+  }, []);
+
+  // Infinite scroll: next page of matches once the end of the list is in view
+  useEffect(() => {
+    const el = feedEndRef.current;
+    if (!el || !matchesCursor) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((e) => e.isIntersecting)) loadMoreMatches();
+    });
+    observer.observe(el);
+    return () => observer.disconnect();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [matchesCursor, matchFilter, tab]);
+
   // ---------- Derived ----------
   const myPairs = useMemo(() => {
     if (!mePlayer?.id) return [];
@@ -458,10 +1067,17 @@ export default function App() {
       .filter((p) => !intersects(pairPlayers(p), myPairPlayers));
   }, [pairs, selectedMyPair, myPairPlayers]);
 
-  const s1err = validateSet(s1a, s1b, 1);
-  const s2err = validateSet(s2a, s2b, 2);
-  const needThird = !s1err && !s2err && setsSplitAfter2(Number(s1a), Number(s1b), Number(s2a), Number(s2b));
-  const s3err = needThird ? validateSet(s3a, s3b, 3) : null;
+  const activeSeason = seasons.find((s) => s.status === "ACTIVE") || null;
+  const closedSeasons = seasons.filter((s) => s.status === "CLOSED").reverse();
+
+
+  const reportFormat = matchFormat(formatId) || MATCH_FORMATS[DEFAULT_MATCH_FORMAT];
+  const setInputs = [
+    { a: s1a, setA: setS1a, b: s1b, setB: setS1b },
+    { a: s2a, setA: setS2a, b: s2b, setB: setS2b },
+    { a: s3a, setA: setS3a, b: s3b, setB: setS3b },
+  ];
+  const report = reportedSets(reportFormat, setInputs.map((x) => [x.a, x.b]));
 
   const pairsErr =
     selectedMyPair && selectedOppPair && intersects(myPairPlayers, oppPairPlayers)
@@ -473,9 +1089,7 @@ export default function App() {
     !!selectedMyPair &&
     !!selectedOppPair &&
     !pairsErr &&
-    !s1err &&
-    !s2err &&
-    (!needThird || !s3err);
+    !report.error;
 
   // Pairs create options based on flow
   const createExcluded = createFlow?.excludePlayerIds || [];
@@ -522,6 +1136,108 @@ export default function App() {
     </div>
   );
 
+  // Glicko-2 ratings that are still settling (high deviation)
+  const Provisional = ({ e }: { e: { rd?: number; provisional?: boolean } }) =>
+    e.provisional ? (
+      <span title={`± ${Math.round(e.rd || 0)}`} style={{ marginLeft: 6, fontSize: 11, fontWeight: 900, color: colors.muted }}>
+        provisional
+      </span>
+    ) : null;
+
+  // "3W/1L · friendly 2W/0L": ranked record, friendlies only when there are any
+  const WinLoss = ({ e }: { e: { wins: number; losses: number; friendlyWins?: number; friendlyLosses?: number } }) => (
+    <div style={{ marginTop: 4, fontSize: 12, color: colors.muted }}>
+      {e.wins}W/{e.losses}L
+      {e.friendlyWins || e.friendlyLosses ? ` · friendly ${e.friendlyWins || 0}W/${e.friendlyLosses || 0}L` : ""}
+    </div>
+  );
+
+  // "W3" / "L2": a streak as stats.js counts it (> 0 wins, < 0 losses)
+  const streakLabel = (n: number) => (n > 0 ? `W${n}` : n < 0 ? `L${-n}` : "—");
+
+  // Partner / opponent records on the profile; a tap opens that player
+  const HeadToHead = ({ title, rows, onPick }: { title: string; rows: { id: string; name: string; wins: number; losses: number; winPct: number }[]; onPick?: (id: string) => void }) => (
+    <Card>
+      <div style={{ fontWeight: 1000, color: colors.navy }}>{title}</div>
+      <div style={{ marginTop: 8, display: "grid", gap: 6, fontSize: 13 }}>
+        {rows.map((r) => (
+          <div
+            key={r.id}
+            onClick={onPick ? () => onPick(r.id) : undefined}
+            style={{ display: "flex", justifyContent: "space-between", gap: 8, cursor: onPick ? "pointer" : "default" }}
+          >
+            <span>{r.name}</span>
+            <span style={{ color: colors.muted }}>
+              {r.wins}W/{r.losses}L · <b style={{ color: colors.text }}>{r.winPct}%</b>
+            </span>
+          </div>
+        ))}
+        {rows.length === 0 ? <div style={{ color: colors.muted }}>No confirmed matches yet.</div> : null}
+      </div>
+    </Card>
+  );
+
+  // All-time W/L, streaks and set / game ratios of a player or pair
+  const ProfileStats = ({ s }: { s: Omit<PairProfile, "pair" | "recent" | "opponentPairs"> }) => (
+    <div style={{ marginTop: 12, display: "grid", gridTemplateColumns: "1fr 1fr", gap: 8, fontSize: 13 }}>
+      <div>
+        <div style={{ fontSize: 12, color: colors.muted }}>All matches</div>
+        <b>
+          {s.wins}W/{s.losses}L · {s.winPct}%
+        </b>
+      </div>
+      <div>
+        <div style={{ fontSize: 12, color: colors.muted }}>Streak (best / worst)</div>
+        <b>{streakLabel(s.currentStreak)}</b> ({streakLabel(s.longestWinStreak)} / {streakLabel(-s.longestLossStreak)})
+      </div>
+      <div>
+        <div style={{ fontSize: 12, color: colors.muted }}>Sets</div>
+        <b>
+          {s.sets.won}–{s.sets.lost} · {s.sets.winPct}%
+        </b>
+      </div>
+      <div>
+        <div style={{ fontSize: 12, color: colors.muted }}>Games</div>
+        <b>
+          {s.games.won}–{s.games.lost} · {s.games.winPct}%
+        </b>
+      </div>
+    </div>
+  );
+
+  const RecentResults = ({ rows }: { rows: (PairProfile["recent"][number] & { partnerName?: string })[] }) => (
+    <Card>
+      <div style={{ fontWeight: 1000, color: colors.navy }}>Last matches</div>
+      <div style={{ marginTop: 8, display: "grid", gap: 8, fontSize: 13 }}>
+        {rows.map((r) => (
+          <div key={r.matchId} style={{ display: "grid", gap: 2 }}>
+            <div style={{ display: "flex", justifyContent: "space-between", gap: 8 }}>
+              <span>
+                <b style={{ color: r.won ? colors.green : colors.danger }}>{r.won ? "W" : "L"}</b> {r.score}
+                {r.ranked ? "" : " · friendly"}
+              </span>
+              <span style={{ color: colors.muted }}>{r.date || ""}</span>
+            </div>
+            <div onClick={() => openPair(r.opponentPairId)} style={{ fontSize: 12, color: colors.muted, cursor: "pointer" }}>
+              {r.partnerName ? `with ${r.partnerName} ` : ""}vs {r.opponentNames}
+            </div>
+          </div>
+        ))}
+        {rows.length === 0 ? <div style={{ color: colors.muted }}>No confirmed matches yet.</div> : null}
+      </div>
+    </Card>
+  );
+
+  // A player's name that opens their profile
+  const PlayerLink = ({ p }: { p?: { id: string; name: string } | null }) =>
+    p ? (
+      <b onClick={() => openProfile(p.id)} style={{ cursor: "pointer" }}>
+        {p.name}
+      </b>
+    ) : (
+      <b>—</b>
+    );
+
   const Select = (props: any) => (
     <select
       {...props}
@@ -627,6 +1343,41 @@ export default function App() {
     </svg>
   );
 
+  const RatingChart = ({ history }: { history: RatingChange[] }) => {
+    if (history.length === 0) {
+      return <div style={{ fontSize: 12, color: colors.muted }}>No confirmed matches yet.</div>;
+    }
+
+    const points = [history[0].oldRating, ...history.map((h) => h.newRating)];
+    const w = 300;
+    const h = 120;
+    const pad = 8;
+    const min = Math.min(...points);
+    const max = Math.max(...points);
+    const span = max - min || 1;
+    const x = (i: number) => pad + (i * (w - pad * 2)) / Math.max(points.length - 1, 1);
+    const y = (r: number) => h - pad - ((r - min) * (h - pad * 2)) / span;
+    const d = points.map((r, i) => `${i === 0 ? "M" : "L"}${x(i).toFixed(1)},${y(r).toFixed(1)}`).join(" ");
+
+    return (
+      <div>
+        <svg viewBox={`0 0 ${w} ${h}`} style={{ width: "100%", height: h, display: "block" }}>
+          <path d={d} fill="none" stroke={colors.green} strokeWidth="2.5" strokeLinejoin="round" />
+          {points.map((r, i) => (
+            <circle key={i} cx={x(i)} cy={y(r)} r="3" fill={colors.navy} />
+          ))}
+        </svg>
+        <div style={{ display: "flex", justifyContent: "space-between", fontSize: 11, color: colors.muted }}>
+          <span>{history[0].date || ""}</span>
+          <span>
+            {min}–{max}
+          </span>
+          <span>{history[history.length - 1].date || ""}</span>
+        </div>
+      </div>
+    );
+  };
+
   const pairLabel = (p: Pair) => {
     const a = p.player1Obj?.name || "—";
     const b = p.player2Obj?.name || "—";
@@ -697,34 +1448,230 @@ export default function App() {
                     <Button onClick={() => { startCreateAnyPair(); }} disabled={busy} variant="secondary">
                       Create pair
                     </Button>
+                    <Button onClick={inviteFriend} disabled={busy} variant="secondary">
+                      Invite a friend
+                    </Button>
                   </div>
                 </Card>
 
-                {players.map((p, idx) => (
-                  <Card key={p.id}>
+                {/* Seasons: picker, past champions, admin start/close */}
+                {(seasons.length > 0 || isAdmin) && (
+                  <Card>
                     <div style={{ display: "flex", justifyContent: "space-between", gap: 10, alignItems: "baseline" }}>
+                      <div style={{ fontWeight: 1000, color: colors.navy }}>Season</div>
+                      <div style={{ fontSize: 12, color: colors.muted }}>{activeSeason ? activeSeason.name : "No active season"}</div>
+                    </div>
+
+                    {closedSeasons.length > 0 && (
+                      <div style={{ marginTop: 10, display: "grid", gap: 8 }}>
+                        <Select value={seasonId} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => pickSeason(e.target.value)} disabled={busy}>
+                          <option value="">Current season only</option>
+                          {closedSeasons.map((s) => (
+                            <option key={s.id} value={s.id}>
+                              Compare with {s.name}
+                            </option>
+                          ))}
+                        </Select>
+                        {closedSeasons.map((s) => (
+                          <div key={s.id} style={{ fontSize: 12, color: colors.muted }}>
+                            🏆 <b>{s.name}</b>: {s.champions?.player || "—"}
+                            {s.champions?.pair ? ` · ${s.champions.pair}` : ""}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
+                    {isAdmin && (
+                      <div style={{ marginTop: 12, display: "grid", gap: 8 }}>
+                        {activeSeason ? (
+                          <>
+                            <Input
+                              value={softResetPct}
+                              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSoftResetPct(e.target.value)}
+                              inputMode="numeric"
+                              placeholder="Soft reset toward default, %"
+                              disabled={busy}
+                            />
+                            <Button variant="danger" onClick={() => closeSeason(activeSeason.id)} disabled={busy}>
+                              Close {activeSeason.name} (admin)
+                            </Button>
+                          </>
+                        ) : (
+                          <>
+                            <Input
+                              value={newSeasonName}
+                              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNewSeasonName(e.target.value)}
+                              placeholder="Season name, e.g. 2026 Q4"
+                              disabled={busy}
+                            />
+                            <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 10 }}>
+                              <Input type="date" value={newSeasonStart} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNewSeasonStart(e.target.value)} disabled={busy} />
+                              <Input type="date" value={newSeasonEnd} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNewSeasonEnd(e.target.value)} disabled={busy} />
+                            </div>
+                            <Button onClick={createSeason} disabled={busy || !newSeasonName.trim() || !newSeasonStart}>
+                              Start season (admin)
+                            </Button>
+                          </>
+                        )}
+                        <Button variant="secondary" onClick={resyncCache} disabled={busy}>
+                          Reload data from Airtable (admin)
+                        </Button>
+                      </div>
+                    )}
+                  </Card>
+                )}
+
+                {/* Past season next to the current table */}
+                {seasonId ? (
+                  <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 12, alignItems: "start" }}>
+                    <Card>
+                      <div style={{ fontWeight: 1000, color: colors.navy }}>{seasons.find((s) => s.id === seasonId)?.name || "Season"}</div>
+                      <div style={{ marginTop: 8, display: "grid", gap: 6, fontSize: 13 }}>
+                        {seasonTable.map((r) => (
+                          <div key={r.id} style={{ display: "flex", justifyContent: "space-between", gap: 8 }}>
+                            <span>
+                              {r.rank === 1 ? "🏆" : `#${r.rank}`} {r.name}
+                            </span>
+                            <b>{r.rating}</b>
+                          </div>
+                        ))}
+                        {seasonTable.length === 0 ? <div style={{ color: colors.muted }}>No archived results.</div> : null}
+                      </div>
+                    </Card>
+                    <Card>
+                      <div style={{ fontWeight: 1000, color: colors.navy }}>{activeSeason?.name || "Current"}</div>
+                      <div style={{ marginTop: 8, display: "grid", gap: 6, fontSize: 13 }}>
+                        {players.map((p, idx) => (
+                          <div key={p.id} style={{ display: "flex", justifyContent: "space-between", gap: 8 }}>
+                            <span>
+                              #{idx + 1} {p.name}
+                              <Provisional e={p} />
+                            </span>
+                            <b>{p.rating}</b>
+                          </div>
+                        ))}
+                      </div>
+                    </Card>
+                  </div>
+                ) : null}
+
+                {!seasonId && players.map((p, idx) => (
+                  <Card key={p.id}>
+                    <div
+                      onClick={() => openProfile(p.id)}
+                      style={{ display: "flex", justifyContent: "space-between", gap: 10, alignItems: "baseline", cursor: "pointer" }}
+                    >
                       <div style={{ fontWeight: 1000 }}>
                         #{idx + 1} {p.name}
+                        <Provisional e={p} />
                       </div>
                       <div style={{ fontWeight: 1000, color: colors.navy }}>{p.rating}</div>
                     </div>
+                    <WinLoss e={p} />
                   </Card>
                 ))}
               </div>
             )}
 
+            {/* Player profile */}
+            {tab === "profile" && (
+              <div style={{ marginTop: 14, display: "grid", gap: 12 }}>
+                <Button variant="secondary" onClick={() => setTab(profileBack)} disabled={busy}>
+                  ← Back
+                </Button>
+
+                {!profile ? (
+                  <div style={{ color: colors.muted }}>Loading…</div>
+                ) : (
+                  <>
+                    <Card>
+                      <div style={{ display: "flex", justifyContent: "space-between", gap: 10, alignItems: "baseline" }}>
+                        <div style={{ fontWeight: 1000, fontSize: 16 }}>
+                          {profile.player.name}
+                          <Provisional e={profile.player} />
+                        </div>
+                        <div style={{ fontWeight: 1000, color: colors.navy }}>{profile.player.rating}</div>
+                      </div>
+                      <WinLoss e={profile.player} />
+                      {profile.bestPartnership ? (
+                        <div onClick={() => openPair(profile.bestPartnership!.pairId)} style={{ marginTop: 4, fontSize: 12, color: colors.muted, cursor: "pointer" }}>
+                          Best partnership: <b style={{ color: colors.text }}>{profile.bestPartnership.name}</b> · {profile.bestPartnership.wins}W/{profile.bestPartnership.losses}L ({profile.bestPartnership.winPct}%)
+                        </div>
+                      ) : null}
+
+                      <ProfileStats s={profile} />
+
+                      <div style={{ marginTop: 12 }}>
+                        <RatingChart history={ratingHistory} />
+                      </div>
+                    </Card>
+
+                    <RecentResults rows={profile.recent} />
+
+                    <HeadToHead title="Partners" rows={profile.partners.map((r) => ({ ...r, id: r.playerId }))} onPick={openProfile} />
+                    <HeadToHead title="Against players" rows={profile.opponents.map((r) => ({ ...r, id: r.playerId }))} onPick={openProfile} />
+                    <HeadToHead title="Against pairs" rows={profile.opponentPairs.map((r) => ({ ...r, id: r.pairId }))} onPick={openPair} />
+                  </>
+                )}
+              </div>
+            )}
+
+            {/* Pair page */}
+            {tab === "pair" && (
+              <div style={{ marginTop: 14, display: "grid", gap: 12 }}>
+                <Button variant="secondary" onClick={() => setTab(profileBack)} disabled={busy}>
+                  ← Back
+                </Button>
+
+                {!pairPage ? (
+                  <div style={{ color: colors.muted }}>Loading…</div>
+                ) : (
+                  <>
+                    <Card>
+                      <div style={{ display: "flex", justifyContent: "space-between", gap: 10, alignItems: "baseline" }}>
+                        <div style={{ fontWeight: 1000, fontSize: 16 }}>
+                          <PlayerLink p={pairPage.pair.player1Obj} /> + <PlayerLink p={pairPage.pair.player2Obj} />
+                          <Provisional e={pairPage.pair} />
+                        </div>
+                        <div style={{ fontWeight: 1000, color: colors.navy }}>{pairPage.pair.rating}</div>
+                      </div>
+                      <WinLoss e={pairPage.pair} />
+
+                      <ProfileStats s={pairPage} />
+
+                      <div style={{ marginTop: 12 }}>
+                        <RatingChart history={ratingHistory} />
+                      </div>
+                    </Card>
+
+                    <RecentResults rows={pairPage.recent} />
+
+                    <HeadToHead title="Head-to-head" rows={pairPage.opponentPairs.map((r) => ({ ...r, id: r.pairId }))} onPick={openPair} />
+                  </>
+                )}
+              </div>
+            )}
+
             {/* Matches */}
             {tab === "matches" && (
               <div style={{ marginTop: 14, display: "grid", gap: 12 }}>
                 <Card>
                   <div style={{ fontWeight: 1000, color: colors.navy }}>Report match</div>
+                  {scheduledMatchId ? (
+                    <div style={{ marginTop: 6, display: "flex", justifyContent: "space-between", gap: 10, fontSize: 12, color: colors.muted }}>
+                      <span>Result of a scheduled match</span>
+                      <span onClick={() => setScheduledMatchId("")} style={{ cursor: "pointer", fontWeight: 900 }}>
+                        Clear
+                      </span>
+                    </div>
+                  ) : null}
 
                   <div style={{ marginTop: 10, display: "grid", gap: 10 }}>
                     {/* Step 1: My pair */}
                     <div style={{ display: "grid", gap: 8 }}>
                       <div style={{ fontSize: 12, fontWeight: 900, color: colors.muted }}>Your pair</div>
                       {myPairs.length > 0 ? (
-                        <Select value={myPairId} onChange={(e: any) => { setMyPairId(e.target.value); setOppPairId(""); }} disabled={busy}>
+                        <Select value={myPairId} onChange={(e: any) => { setMyPairId(e.target.value); setOppPairId(""); setScheduledMatchId(""); }} disabled={busy}>
                           <option value="">Select your pair…</option>
                           {myPairs.map((p) => (
                             <option key={p.id} value={p.id}>
@@ -754,7 +1701,7 @@ export default function App() {
 
                       <Select
                         value={oppPairId}
-                        onChange={(e: any) => setOppPairId(e.target.value)}
+                        onChange={(e: any) => { setOppPairId(e.target.value); setScheduledMatchId(""); }}
                         disabled={busy || !selectedMyPair}
                       >
                         <option value="">{selectedMyPair ? "Select opponent pair…" : "Select your pair first…"}</option>
@@ -770,6 +1717,39 @@ export default function App() {
                       </Button>
                     </div>
 
+                    {/* Format and ranked: used by the challenge and by the score below */}
+                    <div style={{ display: "grid", gap: 8, opacity: selectedMyPair && selectedOppPair ? 1 : 0.55 }}>
+                      <div style={{ fontSize: 12, fontWeight: 900, color: colors.muted }}>Format</div>
+                      <Select value={formatId} onChange={(e: any) => setFormatId(e.target.value)} disabled={busy || !selectedOppPair}>
+                        {Object.values(MATCH_FORMATS).map((f) => (
+                          <option key={f.id} value={f.id}>
+                            {f.label}
+                          </option>
+                        ))}
+                      </Select>
+                      <label style={{ display: "flex", gap: 8, alignItems: "center", fontSize: 13 }}>
+                        <input type="checkbox" checked={ranked} onChange={(e) => setRanked(e.target.checked)} disabled={busy || !selectedOppPair} />
+                        Ranked (uncheck for a friendly that keeps ratings unchanged)
+                      </label>
+                    </div>
+
+                    {/* Not played yet: challenge the selected pair instead */}
+                    {selectedOppPair && !scheduledMatchId ? (
+                      <details style={{ borderRadius: 14, border: `1px dashed ${colors.border}`, padding: 12 }}>
+                        <summary style={{ cursor: "pointer", fontWeight: 900, color: colors.muted }}>Not played yet? Challenge them</summary>
+                        <div style={{ marginTop: 10, display: "grid", gap: 10 }}>
+                          <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 10 }}>
+                            <Input type="date" value={chDate} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setChDate(e.target.value)} disabled={busy} />
+                            <Input type="time" value={chTime} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setChTime(e.target.value)} disabled={busy} />
+                          </div>
+                          <Input value={chCourt} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setChCourt(e.target.value)} placeholder="Court (optional)" disabled={busy} />
+                          <Button variant="secondary" onClick={challengePair} disabled={busy || !chDate}>
+                            Send challenge
+                          </Button>
+                        </div>
+                      </details>
+                    ) : null}
+
                     {pairsErr ? <div style={{ fontSize: 12, fontWeight: 900, color: colors.danger }}>{pairsErr}</div> : null}
 
                     {/* Step 3: Sets */}
@@ -777,25 +1757,17 @@ export default function App() {
                       <div style={{ fontSize: 12, fontWeight: 900, color: colors.muted }}>Sets</div>
 
                       <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 10 }}>
-                        <Input value={s1a} onChange={(e: any) => setS1a(e.target.value)} inputMode="numeric" disabled={busy || !selectedOppPair} placeholder="Set1 you" />
-                        <Input value={s1b} onChange={(e: any) => setS1b(e.target.value)} inputMode="numeric" disabled={busy || !selectedOppPair} placeholder="Set1 opp" />
-                        <Input value={s2a} onChange={(e: any) => setS2a(e.target.value)} inputMode="numeric" disabled={busy || !selectedOppPair} placeholder="Set2 you" />
-                        <Input value={s2b} onChange={(e: any) => setS2b(e.target.value)} inputMode="numeric" disabled={busy || !selectedOppPair} placeholder="Set2 opp" />
+                        {report.sets.map((_, i) => {
+                          const x = setInputs[i];
+                          const label = i === superTiebreakIndex(reportFormat) ? "Tie-break" : `Set${i + 1}`;
+                          return [
+                            <Input key={`${i}a`} value={x.a} onChange={(e: any) => x.setA(e.target.value)} inputMode="numeric" disabled={busy || !selectedOppPair} placeholder={`${label} you`} />,
+                            <Input key={`${i}b`} value={x.b} onChange={(e: any) => x.setB(e.target.value)} inputMode="numeric" disabled={busy || !selectedOppPair} placeholder={`${label} opp`} />,
+                          ];
+                        })}
                       </div>
 
-                      {(s1err || s2err) ? (
-                        <div style={{ fontSize: 12, fontWeight: 900, color: colors.danger }}>{s1err || s2err}</div>
-                      ) : null}
-
-                      {needThird && (
-                        <>
-                          <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 10 }}>
-                            <Input value={s3a} onChange={(e: any) => setS3a(e.target.value)} inputMode="numeric" disabled={busy || !selectedOppPair} placeholder="Set3 you" />
-                            <Input value={s3b} onChange={(e: any) => setS3b(e.target.value)} inputMode="numeric" disabled={busy || !selectedOppPair} placeholder="Set3 opp" />
-                          </div>
-                          {s3err ? <div style={{ fontSize: 12, fontWeight: 900, color: colors.danger }}>{s3err}</div> : null}
-                        </>
-                      )}
+                      {report.error ? <div style={{ fontSize: 12, fontWeight: 900, color: colors.danger }}>{report.error}</div> : null}
 
                       <Button onClick={reportMatch} disabled={!canSave}>
                         Save result
@@ -804,19 +1776,171 @@ export default function App() {
                   </div>
                 </Card>
 
+                {/* Which matches the lists below show */}
+                {mePlayer && (
+                  <div style={{ display: "flex", gap: 8 }}>
+                    {(
+                      [
+                        ["action", "Needs my action"],
+                        ["mine", "My matches"],
+                        ["all", "All"],
+                      ] as const
+                    ).map(([filter, label]) => (
+                      <button
+                        key={filter}
+                        onClick={() => changeMatchFilter(filter)}
+                        disabled={busy}
+                        style={{
+                          flex: 1,
+                          height: 36,
+                          borderRadius: 12,
+                          border: `1px solid ${colors.border}`,
+                          background: matchFilter === filter ? colors.navy : "white",
+                          color: matchFilter === filter ? "white" : colors.text,
+                          fontWeight: 900,
+                          fontSize: 12,
+                          cursor: busy ? "not-allowed" : "pointer",
+                        }}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                {/* Upcoming: challenges and scheduled matches */}
+                {upcomingMatches.length > 0 && (
+                  <Card>
+                    <div style={{ fontWeight: 1000, color: colors.navy }}>Upcoming ({upcomingMatches.length})</div>
+                    <div style={{ marginTop: 10, display: "grid", gap: 14 }}>
+                      {upcomingMatches.map((m) => {
+                        const meId = mePlayer?.id || "";
+                        const inMatch = [...pairPlayers(m.pair1Obj), ...pairPlayers(m.pair2Obj)].includes(meId);
+                        const canAnswer = (m.responderPlayerIds || []).includes(meId);
+                        const scheduled = m.status === "SCHEDULED";
+
+                        return (
+                          <div key={m.id} style={{ display: "grid", gap: 8, borderTop: `1px solid ${colors.border}`, paddingTop: 10 }}>
+                            <div style={{ display: "flex", justifyContent: "space-between", gap: 10, alignItems: "baseline" }}>
+                              <div style={{ fontWeight: 1000 }}>
+                                {m.date || ""} {m.time ? `· ${m.time}` : ""} {m.court ? `· ${m.court}` : ""}
+                              </div>
+                              <div style={{ fontSize: 12, fontWeight: 900, color: scheduled ? colors.green : colors.muted }}>{m.status}</div>
+                            </div>
+                            <div style={{ fontSize: 13 }}>
+                              <b>{m.pair1Obj ? pairLabel(m.pair1Obj) : "—"}</b> vs <b>{m.pair2Obj ? pairLabel(m.pair2Obj) : "—"}</b>
+                            </div>
+
+                            {!scheduled && inMatch && !canAnswer ? (
+                              <div style={{ fontSize: 12, color: colors.muted }}>Waiting for the other pair to respond</div>
+                            ) : null}
+
+                            {canAnswer ? (
+                              <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 8 }}>
+                                <Button onClick={() => respondMatch(m.id, "accept")} disabled={busy}>
+                                  Accept
+                                </Button>
+                                <Button variant="danger" onClick={() => respondMatch(m.id, "decline")} disabled={busy}>
+                                  Decline
+                                </Button>
+                              </div>
+                            ) : null}
+
+                            {scheduled && inMatch ? (
+                              <Button onClick={() => startReportScheduled(m)} disabled={busy}>
+                                Report score
+                              </Button>
+                            ) : null}
+
+                            {canAnswer || (scheduled && inMatch) ? (
+                              <details style={{ borderRadius: 14, border: `1px dashed ${colors.border}`, padding: 12 }}>
+                                <summary style={{ cursor: "pointer", fontWeight: 900, color: colors.muted }}>
+                                  {scheduled ? "Reschedule or cancel" : "Propose another time"}
+                                </summary>
+                                <div style={{ marginTop: 10, display: "grid", gap: 10 }}>
+                                  <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 10 }}>
+                                    <Input type="date" value={chDate} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setChDate(e.target.value)} disabled={busy} />
+                                    <Input type="time" value={chTime} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setChTime(e.target.value)} disabled={busy} />
+                                  </div>
+                                  <Input value={chCourt} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setChCourt(e.target.value)} placeholder="Court (optional)" disabled={busy} />
+                                  <Button variant="secondary" onClick={() => respondMatch(m.id, "propose")} disabled={busy || !chDate}>
+                                    Propose new time
+                                  </Button>
+                                  {scheduled ? (
+                                    <Button variant="danger" onClick={() => respondMatch(m.id, "decline")} disabled={busy}>
+                                      Cancel match
+                                    </Button>
+                                  ) : null}
+                                </div>
+                              </details>
+                            ) : null}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </Card>
+                )}
+
+                {/* Admin: disputed / rejected matches */}
+                {isAdmin && adminQueue.length > 0 && (
+                  <Card>
+                    <div style={{ fontWeight: 1000, color: colors.navy }}>Admin queue ({adminQueue.length})</div>
+                    <div style={{ marginTop: 10, display: "grid", gap: 14 }}>
+                      {adminQueue.map((m) => (
+                        <div key={m.id} style={{ display: "grid", gap: 8, borderTop: `1px solid ${colors.border}`, paddingTop: 10 }}>
+                          <div style={{ fontSize: 13 }}>
+                            <b>{m.pair1Obj ? pairLabel(m.pair1Obj) : "—"}</b> vs <b>{m.pair2Obj ? pairLabel(m.pair2Obj) : "—"}</b>
+                          </div>
+                          <div style={{ fontSize: 12, color: colors.muted }}>
+                            {m.date || ""} · {m.score || "—"} · {m.status}
+                          </div>
+                          {m.disputeReason ? (
+                            <div style={{ fontSize: 12, fontWeight: 900, color: colors.danger }}>{m.disputeReason}</div>
+                          ) : null}
+                          <Input
+                            value={adminScore[m.id] || ""}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setAdminScore({ ...adminScore, [m.id]: e.target.value })}
+                            placeholder="Corrected score, e.g. 6-4 3-6 7-5"
+                            disabled={busy}
+                          />
+                          <Input
+                            value={adminNote}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setAdminNote(e.target.value)}
+                            placeholder="Admin note (optional)"
+                            disabled={busy}
+                          />
+                          <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr 1fr", gap: 8 }}>
+                            <Button onClick={() => resolveMatch(m.id, "uphold")} disabled={busy}>
+                              Uphold
+                            </Button>
+                            <Button variant="secondary" onClick={() => resolveMatch(m.id, "correct")} disabled={busy || !adminScore[m.id]}>
+                              Correct
+                            </Button>
+                            <Button variant="danger" onClick={() => resolveMatch(m.id, "void")} disabled={busy}>
+                              Void
+                            </Button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </Card>
+                )}
+
                 {/* Matches list */}
-                {matches.map((m) => {
-                  const p1a = m.pair1Obj?.player1Obj?.name || "—";
-                  const p1b = m.pair1Obj?.player2Obj?.name || "—";
-                  const p2a = m.pair2Obj?.player1Obj?.name || "—";
-                  const p2b = m.pair2Obj?.player2Obj?.name || "—";
+                {matches.length === 0 && upcomingMatches.length === 0 ? (
+                  <div style={{ fontSize: 13, color: colors.muted, textAlign: "center" }}>
+                    {matchFilter === "action" ? "Nothing needs your action." : "No matches yet."}
+                  </div>
+                ) : null}
 
+                {matches.map((m) => {
                   const meId = mePlayer?.id || "";
                   const isOpponent = (m.opponentPlayerIds || []).includes(meId);
                   const pending = m.status === "PENDING_CONFIRMATION";
                   const canAct = pending && isOpponent;
+                  const autoConfirmIn = pending && m.autoConfirmAt ? Date.parse(m.autoConfirmAt) - now : null;
 
-                  const dateStr = typeof m.date === "string" ? m.date : m.date?.toString?.() || "";
+                  const dateStr = m.date || "";
 
                   return (
                     <Card key={m.id}>
@@ -831,15 +1955,28 @@ export default function App() {
                             color: m.status === "CONFIRMED" ? colors.green : colors.muted,
                           }}
                         >
+                          {m.tournament ? "🏆 " : ""}
+                          {m.ranked ? "" : "FRIENDLY · "}
                           {m.status}
                         </div>
                       </div>
 
                       <div style={{ marginTop: 8, fontSize: 13 }}>
-                        <b>{p1a}</b> + <b>{p1b}</b> vs <b>{p2a}</b> + <b>{p2b}</b>
+                        <PlayerLink p={m.pair1Obj?.player1Obj} /> + <PlayerLink p={m.pair1Obj?.player2Obj} /> vs <PlayerLink p={m.pair2Obj?.player1Obj} /> +{" "}
+                        <PlayerLink p={m.pair2Obj?.player2Obj} />
                       </div>
                       <div style={{ marginTop: 6, fontSize: 12, color: colors.muted }}>{m.score || "—"}</div>
 
+                      {autoConfirmIn !== null ? (
+                        <div style={{ marginTop: 6, fontSize: 12, fontWeight: 900, color: colors.muted }}>
+                          {autoConfirmIn > 0 ? `Auto-confirms in ${formatCountdown(autoConfirmIn)}` : "Auto-confirming…"}
+                        </div>
+                      ) : null}
+
+                      {m.autoConfirmed ? (
+                        <div style={{ marginTop: 6, fontSize: 12, color: colors.muted }}>Confirmed automatically</div>
+                      ) : null}
+
                       {canAct ? (
                         <div style={{ marginTop: 10, display: "grid", gap: 10 }}>
                           <Button onClick={() => confirmMatch(m.id)} disabled={busy}>
@@ -866,9 +2003,381 @@ export default function App() {
                           {m.disputeReason}
                         </div>
                       ) : null}
+
+                      {isAdmin && m.status === "CONFIRMED" ? (
+                        <div style={{ marginTop: 10 }}>
+                          <Button variant="danger" onClick={() => voidMatch(m.id)} disabled={busy}>
+                            Void match (admin)
+                          </Button>
+                        </div>
+                      ) : null}
+
+                      {m.resolution ? (
+                        <div style={{ marginTop: 6, fontSize: 12, color: colors.muted }}>
+                          Admin: {m.resolution}
+                          {m.adminNote ? ` · ${m.adminNote}` : ""}
+                        </div>
+                      ) : null}
                     </Card>
                   );
                 })}
+
+                {matchesCursor ? (
+                  <div ref={feedEndRef} style={{ fontSize: 12, color: colors.muted, textAlign: "center", padding: 8 }}>
+                    {loadingMore ? "Loading…" : ""}
+                  </div>
+                ) : null}
+              </div>
+            )}
+
+            {/* Tournaments */}
+            {tab === "tournaments" && (
+              <div style={{ marginTop: 14, display: "grid", gap: 12 }}>
+                <Card>
+                  <div style={{ fontWeight: 1000, color: colors.navy }}>Tournaments</div>
+                  <div style={{ marginTop: 10 }}>
+                    <Select value={tview?.tournament.id || ""} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => openTournament(e.target.value)} disabled={busy}>
+                      <option value="">{tournaments.length ? "Select tournament…" : "No tournaments yet"}</option>
+                      {tournaments.map((t) => (
+                        <option key={t.id} value={t.id}>
+                          {t.name} · {t.date || ""} · {t.status}
+                        </option>
+                      ))}
+                    </Select>
+                  </div>
+                </Card>
+
+                {isAdmin && (
+                  <Card>
+                    <div style={{ fontWeight: 1000, color: colors.navy }}>New tournament (admin)</div>
+                    <div style={{ marginTop: 10, display: "grid", gap: 10 }}>
+                      <Input
+                        value={newCup.name}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNewCup({ ...newCup, name: e.target.value })}
+                        placeholder="Name, e.g. October Cup"
+                        disabled={busy}
+                      />
+                      <Input type="date" value={newCup.date} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNewCup({ ...newCup, date: e.target.value })} disabled={busy} />
+                      <Select value={newCup.format} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setNewCup({ ...newCup, format: e.target.value as TournamentFormat })} disabled={busy}>
+                        <option value="KNOCKOUT">Knockout</option>
+                        <option value="ROUND_ROBIN">Round robin</option>
+                        <option value="GROUPS_KNOCKOUT">Groups + knockout</option>
+                      </Select>
+                      {newCup.format === "GROUPS_KNOCKOUT" && (
+                        <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 10 }}>
+                          <Input value={newCup.groups} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNewCup({ ...newCup, groups: e.target.value })} inputMode="numeric" placeholder="Groups" disabled={busy} />
+                          <Input value={newCup.advance} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNewCup({ ...newCup, advance: e.target.value })} inputMode="numeric" placeholder="Advance per group" disabled={busy} />
+                        </div>
+                      )}
+                      <label style={{ display: "flex", gap: 8, alignItems: "center", fontSize: 13 }}>
+                        <input type="checkbox" checked={newCup.ranked} onChange={(e) => setNewCup({ ...newCup, ranked: e.target.checked })} disabled={busy} />
+                        Matches count toward ratings
+                      </label>
+                      <Button
+                        onClick={() =>
+                          tournamentAdmin(
+                            "/api/admin/tournaments/create",
+                            { ...newCup, groups: Number(newCup.groups), advance: Number(newCup.advance) },
+                            "Tournament created."
+                          )
+                        }
+                        disabled={busy || !newCup.name.trim()}
+                      >
+                        Create tournament
+                      </Button>
+                    </div>
+                  </Card>
+                )}
+
+                {tview && (
+                  <Card>
+                    <div style={{ display: "flex", justifyContent: "space-between", gap: 10, alignItems: "baseline" }}>
+                      <div style={{ fontWeight: 1000, color: colors.navy }}>{tview.tournament.name}</div>
+                      <div style={{ fontSize: 12, fontWeight: 900, color: colors.muted }}>
+                        {tview.tournament.ranked ? "" : "UNRANKED · "}
+                        {tview.tournament.status}
+                      </div>
+                    </div>
+                    {tview.tournament.winner ? (
+                      <div style={{ marginTop: 8, fontWeight: 1000, color: colors.green }}>🏆 {tview.pairNames[tview.tournament.winner] || "—"}</div>
+                    ) : null}
+
+                    {/* Registration (admin) */}
+                    {isAdmin && tview.tournament.status === "REGISTRATION" && (
+                      <div style={{ marginTop: 10, display: "grid", gap: 8 }}>
+                        {pairs.map((p) => (
+                          <label key={p.id} style={{ display: "flex", gap: 8, alignItems: "center", fontSize: 13 }}>
+                            <input
+                              type="checkbox"
+                              checked={regPairIds.includes(p.id)}
+                              onChange={(e) =>
+                                setRegPairIds(e.target.checked ? [...regPairIds, p.id] : regPairIds.filter((id) => id !== p.id))
+                              }
+                              disabled={busy}
+                            />
+                            {pairLabel(p)} · {p.rating}
+                          </label>
+                        ))}
+                        <Button
+                          variant="secondary"
+                          onClick={() =>
+                            tournamentAdmin(
+                              "/api/admin/tournaments/register",
+                              { tournamentId: tview.tournament.id, pairIds: regPairIds },
+                              "Pairs registered."
+                            )
+                          }
+                          disabled={busy}
+                        >
+                          Save pairs ({regPairIds.length})
+                        </Button>
+                        <Button
+                          onClick={() => tournamentAdmin("/api/admin/tournaments/start", { tournamentId: tview.tournament.id }, "Tournament started.")}
+                          disabled={busy || tview.tournament.pairs.length < 2}
+                        >
+                          Start tournament
+                        </Button>
+                      </div>
+                    )}
+
+                    {tview.tournament.status === "REGISTRATION" && !isAdmin ? (
+                      <div style={{ marginTop: 8, fontSize: 12, color: colors.muted }}>
+                        {tview.tournament.pairs.length} pair(s) registered. Matches appear once the organizer starts it.
+                      </div>
+                    ) : null}
+
+                    {/* Group tables */}
+                    {tview.groups.map((g) => (
+                      <div key={g.name} style={{ marginTop: 12 }}>
+                        <div style={{ fontSize: 12, fontWeight: 900, color: colors.muted }}>Group {g.name}</div>
+                        <div style={{ marginTop: 6, display: "grid", gap: 4, fontSize: 13 }}>
+                          {g.rows.map((r, idx) => (
+                            <div key={r.pairId} style={{ display: "grid", gridTemplateColumns: "1fr auto auto", gap: 10 }}>
+                              <span>
+                                {idx + 1}. {tview.pairNames[r.pairId] || "—"}
+                              </span>
+                              <b>
+                                {r.wins}-{r.losses}
+                              </b>
+                              <span style={{ color: colors.muted }}>
+                                {r.setsFor - r.setsAgainst >= 0 ? "+" : ""}
+                                {r.setsFor - r.setsAgainst}
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+
+                    {/* Knockout bracket: one column per round */}
+                    {tview.rounds.length > 0 && (
+                      <div style={{ marginTop: 12, display: "flex", gap: 10, overflowX: "auto" }}>
+                        {tview.rounds.map((round, ri) => {
+                          const left = tview.rounds.length - ri;
+                          const title = left === 1 ? "Final" : left === 2 ? "Semifinals" : left === 3 ? "Quarterfinals" : `Round ${ri + 1}`;
+                          return (
+                            <div key={ri} style={{ minWidth: 150, display: "grid", gap: 8, alignContent: "space-around" }}>
+                              <div style={{ fontSize: 12, fontWeight: 900, color: colors.muted }}>{title}</div>
+                              {round.map((s) => (
+                                <div key={s.slot} style={{ border: `1px solid ${colors.border}`, borderRadius: 10, padding: 8, fontSize: 12 }}>
+                                  {[s.pair1, s.pair2].map((id, i) => (
+                                    <div key={i} style={{ fontWeight: id && id === s.winner ? 1000 : 400, color: id ? colors.text : colors.muted }}>
+                                      {id ? tview.pairNames[id] || "—" : ri === 0 ? "bye" : "TBD"}
+                                    </div>
+                                  ))}
+                                </div>
+                              ))}
+                            </div>
+                          );
+                        })}
+                      </div>
+                    )}
+                  </Card>
+                )}
+
+                {/* Americano / Mexicano sessions */}
+                <Card>
+                  <div style={{ fontWeight: 1000, color: colors.navy }}>Social sessions</div>
+                  <div style={{ marginTop: 10 }}>
+                    <Select value={sview?.session.id || ""} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => openSession(e.target.value)} disabled={busy}>
+                      <option value="">{sessions.length ? "Select session…" : "No sessions yet"}</option>
+                      {sessions.map((s) => (
+                        <option key={s.id} value={s.id}>
+                          {s.name} · {s.mode === "MEXICANO" ? "Mexicano" : "Americano"} · {s.date || ""} · {s.status}
+                        </option>
+                      ))}
+                    </Select>
+                  </div>
+
+                  <details style={{ marginTop: 10 }}>
+                    <summary style={{ fontWeight: 900, fontSize: 13, cursor: "pointer" }}>New session</summary>
+                    <div style={{ marginTop: 10, display: "grid", gap: 10 }}>
+                      <Input
+                        value={newSession.name}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNewSession({ ...newSession, name: e.target.value })}
+                        placeholder="Name, e.g. Friday Americano"
+                        disabled={busy}
+                      />
+                      <Select value={newSession.mode} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setNewSession({ ...newSession, mode: e.target.value as SessionMode })} disabled={busy}>
+                        <option value="AMERICANO">Americano (random rotation)</option>
+                        <option value="MEXICANO">Mexicano (by standings)</option>
+                      </Select>
+                      <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 10 }}>
+                        <Input
+                          value={newSession.rounds}
+                          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNewSession({ ...newSession, rounds: e.target.value })}
+                          inputMode="numeric"
+                          placeholder="Rounds (auto)"
+                          disabled={busy}
+                        />
+                        <Input
+                          value={newSession.pointsPerGame}
+                          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNewSession({ ...newSession, pointsPerGame: e.target.value })}
+                          inputMode="numeric"
+                          placeholder="Points per game"
+                          disabled={busy}
+                        />
+                      </div>
+                      <label style={{ display: "flex", gap: 8, alignItems: "center", fontSize: 13 }}>
+                        <input type="checkbox" checked={newSession.rated} onChange={(e) => setNewSession({ ...newSession, rated: e.target.checked })} disabled={busy} />
+                        Update individual ratings when finished
+                      </label>
+                      <div style={{ display: "grid", gap: 6 }}>
+                        {players.map((p) => (
+                          <label key={p.id} style={{ display: "flex", gap: 8, alignItems: "center", fontSize: 13 }}>
+                            <input
+                              type="checkbox"
+                              checked={sessionPlayerIds.includes(p.id)}
+                              onChange={(e) =>
+                                setSessionPlayerIds(e.target.checked ? [...sessionPlayerIds, p.id] : sessionPlayerIds.filter((id) => id !== p.id))
+                              }
+                              disabled={busy}
+                            />
+                            {p.name} · {p.rating}
+                          </label>
+                        ))}
+                      </div>
+                      <Button
+                        onClick={() =>
+                          sessionAction(
+                            "/api/sessions/create",
+                            {
+                              ...newSession,
+                              rounds: Number(newSession.rounds) || undefined,
+                              pointsPerGame: Number(newSession.pointsPerGame) || 0,
+                              playerIds: sessionPlayerIds,
+                            },
+                            "Session created."
+                          )
+                        }
+                        disabled={busy || !newSession.name.trim() || sessionPlayerIds.length < 4}
+                      >
+                        Start session ({sessionPlayerIds.length} players)
+                      </Button>
+                    </div>
+                  </details>
+                </Card>
+
+                {sview && (
+                  <Card>
+                    <div style={{ display: "flex", justifyContent: "space-between", gap: 10, alignItems: "baseline" }}>
+                      <div style={{ fontWeight: 1000, color: colors.navy }}>{sview.session.name}</div>
+                      <div style={{ fontSize: 12, fontWeight: 900, color: colors.muted }}>
+                        {sview.session.mode} · {sview.session.rated ? "RATED · " : ""}
+                        {sview.session.status}
+                      </div>
+                    </div>
+
+                    {/* Live leaderboard */}
+                    <div style={{ marginTop: 10, display: "grid", gap: 4, fontSize: 13 }}>
+                      {sview.leaderboard.map((r, idx) => (
+                        <div key={r.playerId} style={{ display: "grid", gridTemplateColumns: "1fr auto auto", gap: 10 }}>
+                          <span>
+                            {idx + 1}. {r.name}
+                          </span>
+                          <b>{r.points} pts</b>
+                          <span style={{ color: colors.muted }}>
+                            {r.wins}/{r.games}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+
+                    {/* Rounds */}
+                    {[...new Set(sview.games.map((g) => g.round))].map((round) => (
+                      <div key={round} style={{ marginTop: 12 }}>
+                        <div style={{ fontSize: 12, fontWeight: 900, color: colors.muted }}>
+                          Round {round} of {sview.session.rounds}
+                        </div>
+                        {sview.games
+                          .filter((g) => g.round === round)
+                          .map((g) => {
+                            const draft = gamePoints[g.id] || { p1: "", p2: "" };
+                            const team = (ids: string[]) => ids.map((id) => sview.playerNames[id] || "—").join(" + ");
+                            const canScore =
+                              sview.session.status === "ACTIVE" && (isAdmin || sview.session.players.includes(mePlayer?.id || ""));
+                            return (
+                              <div key={g.id} style={{ marginTop: 6, border: `1px solid ${colors.border}`, borderRadius: 10, padding: 8, fontSize: 12 }}>
+                                <div style={{ color: colors.muted }}>Court {g.court}</div>
+                                <div style={{ display: "grid", gridTemplateColumns: "1fr 56px 56px", gap: 6, alignItems: "center", marginTop: 4 }}>
+                                  <span>
+                                    {team(g.team1)}
+                                    <br />
+                                    {team(g.team2)}
+                                  </span>
+                                  {canScore ? (
+                                    <>
+                                      <Input
+                                        value={draft.p1}
+                                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setGamePoints({ ...gamePoints, [g.id]: { ...draft, p1: e.target.value } })}
+                                        inputMode="numeric"
+                                        disabled={busy}
+                                      />
+                                      <Input
+                                        value={draft.p2}
+                                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setGamePoints({ ...gamePoints, [g.id]: { ...draft, p2: e.target.value } })}
+                                        inputMode="numeric"
+                                        disabled={busy}
+                                      />
+                                    </>
+                                  ) : (
+                                    <b style={{ gridColumn: "span 2" }}>{g.points1 == null ? "—" : `${g.points1} : ${g.points2}`}</b>
+                                  )}
+                                </div>
+                                {canScore && (
+                                  <div style={{ marginTop: 6 }}>
+                                    <Button
+                                      variant="secondary"
+                                      onClick={() =>
+                                        sessionAction("/api/sessions/score", { gameId: g.id, points1: Number(draft.p1), points2: Number(draft.p2) }, "Score saved.")
+                                      }
+                                      disabled={busy || draft.p1 === "" || draft.p2 === ""}
+                                    >
+                                      Save score
+                                    </Button>
+                                  </div>
+                                )}
+                              </div>
+                            );
+                          })}
+                      </div>
+                    ))}
+
+                    {sview.session.status === "ACTIVE" && (isAdmin || sview.session.createdBy === mePlayer?.id) && (
+                      <div style={{ marginTop: 12 }}>
+                        <Button
+                          onClick={async () => {
+                            if (!(await askConfirm(sview.session.rated ? "Finish the session and update ratings?" : "Finish the session?", "Finish"))) return;
+                            await sessionAction("/api/sessions/finish", { sessionId: sview.session.id }, "Session finished.");
+                          }}
+                          disabled={busy}
+                        >
+                          Finish session
+                        </Button>
+                      </div>
+                    )}
+                  </Card>
+                )}
               </div>
             )}
 
@@ -948,14 +2457,43 @@ export default function App() {
                   )}
                 </Card>
 
-                {pairs.map((p, idx) => (
+                <Card>
+                  <div style={{ display: "flex", justifyContent: "space-between", gap: 10, alignItems: "baseline" }}>
+                    <div style={{ fontWeight: 1000, color: colors.navy }}>Pair standings</div>
+                    <div style={{ fontSize: 12, color: colors.muted }}>
+                      {pairStandings.length < pairTotal ? `Top ${pairStandings.length} of ${pairTotal}` : `${pairTotal} pairs`}
+                    </div>
+                  </div>
+                  <div style={{ marginTop: 10, display: "grid", gridTemplateColumns: "1fr 1fr", gap: 10 }}>
+                    <Select value={String(pairMinGames)} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => changePairStandings(Number(e.target.value), pairSort)} disabled={busy}>
+                      {[0, 3, 5, 10].map((n) => (
+                        <option key={n} value={n}>
+                          {n ? `${n}+ games` : "All pairs"}
+                        </option>
+                      ))}
+                    </Select>
+                    <Select value={pairSort} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => changePairStandings(pairMinGames, e.target.value as PairSort)} disabled={busy}>
+                      <option value="rating">By rating</option>
+                      <option value="winPct">By win %</option>
+                      <option value="wins">By wins</option>
+                      <option value="gamesPlayed">By games</option>
+                    </Select>
+                  </div>
+                  {pairStandings.length === 0 ? (
+                    <div style={{ marginTop: 10, fontSize: 12, color: colors.muted }}>No pairs with {pairMinGames}+ games this season.</div>
+                  ) : null}
+                </Card>
+
+                {pairStandings.map((p, idx) => (
                   <Card key={p.id}>
-                    <div style={{ display: "flex", justifyContent: "space-between", gap: 10, alignItems: "baseline" }}>
+                    <div onClick={() => openPair(p.id)} style={{ display: "flex", justifyContent: "space-between", gap: 10, alignItems: "baseline", cursor: "pointer" }}>
                       <div style={{ fontWeight: 1000 }}>
                         #{idx + 1} {pairLabel(p)}
+                        <Provisional e={p} />
                       </div>
                       <div style={{ fontWeight: 1000, color: colors.navy }}>{p.rating}</div>
                     </div>
+                    <WinLoss e={p} />
                   </Card>
                 ))}
               </div>
@@ -1030,6 +2568,23 @@ export default function App() {
               Pairs
             </button>
 
+            <button
+              onClick={() => setTab("tournaments")}
+              disabled={busy}
+              style={{
+                flex: 1,
+                height: 52,
+                borderRadius: 14,
+                border: `1px solid ${colors.border}`,
+                background: tab === "tournaments" ? colors.navy : "white",
+                color: tab === "tournaments" ? "white" : colors.text,
+                fontWeight: 900,
+                cursor: busy ? "not-allowed" : "pointer",
+              }}
+            >
+              Events
+            </button>
+
             <IconButton onClick={refreshAll} disabled={busy} title="Refresh">
               <RefreshIcon spinning={busy} />
             </IconButton>
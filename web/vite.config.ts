@@ -4,6 +4,8 @@ import react from "@vitejs/plugin-react";
 export default defineConfig({
   plugins: [react()],
   server: {
+    // the app imports ../shared (match formats) from outside the web root
+    fs: { allow: [".."] },
     proxy: {
       "/api": "http://localhost:8080"
     }